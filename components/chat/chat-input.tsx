@@ -3,18 +3,25 @@ import { Button } from "../ui/button"
 import { Textarea } from "../ui/textarea"
 import { ScrollArea } from "../ui/scroll-area"
 import { ContextTags } from "./context-tags"
+import { CompareModelBar } from "./compare-model-bar"
 import { FilePreviewModal } from "./file-preview-modal"
 import { Send, Square, Eraser, Folder, FileText } from "lucide-react"
 import { LLMService } from "~lib/llm-service"
 import { SYSTEM_PROMPT } from "~lib/system-prompt"
 import { type ImageInfo } from "~lib/image-utils"
 import { useSelectedText } from "~hooks/useSelectedText"
-import { useMessageHandler } from "~hooks/useMessageHandler"
+import { useMessageHandler, type RegenerateOptions } from "~hooks/useMessageHandler"
 import { useImageHandler } from "~hooks/useImageHandler"
 import { useInputHandler } from "~hooks/useInputHandler"
+import { useSettings } from "~hooks/useSettings"
+import { useModels } from "~hooks/useModels"
 import { generateId } from "~utils/helpers"
-import { buildFileTree, getAllFilesInFolder, type TreeNode, estimateTokenWeight, buildEntityTreePrompt } from "./file/file-tree-utils"
+import { buildFileTree, getAllFilesInFolder, type TreeNode, buildEntityTreePrompt } from "./file/file-tree-utils"
 import { getEntities } from "~contents/api"
+import { buildChunkIndex, searchChunks } from "~lib/latex-retriever"
+import { countTokens, getTokenizer, loadTokenizer } from "~lib/tokenizer"
+import { getContextWindow } from "~lib/context-window"
+import type { ConversationSummary } from "~lib/conversation-summary"
 
 interface Message {
   id: string
@@ -26,6 +33,15 @@ interface Message {
   images?: import("~lib/image-utils").ImageInfo[] // 添加图片信息字段
   isWaiting?: boolean // 是否在等待第一个token
   waitingStartTime?: Date // 等待开始时间
+  toolSteps?: import("~lib/agent-tools").AgentToolStep[] // Agent 工具调用步骤
+  editCommands?: import("~lib/replace-service").ReplaceCommand[] // 编辑工具生成的修改建议
+  fileSnapshots?: import("~lib/replace-service").FileSnapshots // 发送时的文件内容
+  contextNotes?: string[] // 上下文裁剪说明
+  usage?: import("~lib/usage").MessageUsage // token 用量与费用
+  answeredBy?: string // 实际回答的备用模型
+  compareResponses?: import("~hooks/useMessageHandler").CompareResponse[] // 对比模式下各模型的回答
+  variants?: import("~lib/message-variants").MessageVariant[] // 重新生成得到的回答版本
+  variantIndex?: number // 当前显示的版本
 }
 
 interface ExtractedFile {
@@ -49,10 +65,15 @@ interface ChatInputProps {
   onChatNameChange?: (name: string) => void
   onChatIdChange?: (id: string) => void
   refreshCurrentFile?: () => Promise<ExtractedFile | null>
+  syncFiles?: () => Promise<ExtractedFile[] | null>
+  conversationSummary?: ConversationSummary | null
+  onSummaryChange?: (summary: ConversationSummary) => void
 }
 
 export interface ChatInputHandle {
   focusInput: () => void
+  regenerate: (messageId: string, options?: RegenerateOptions) => void
+  editAndResend: (messageId: string, newContent: string) => Promise<boolean>
 }
 
 export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({
@@ -69,10 +90,13 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({
   currentChatName,
   onChatNameChange,
   onChatIdChange,
-  refreshCurrentFile
+  refreshCurrentFile,
+  syncFiles,
+  conversationSummary,
+  onSummaryChange
 }: ChatInputProps, ref) => {
   // 使用消息处理 hook
-  const { isStreaming, handleSendMessage, handleStopStreaming } = useMessageHandler({
+  const { isStreaming, handleSendMessage, handleRegenerate, handleEditAndResend, handleStopStreaming } = useMessageHandler({
     messages,
     onMessagesChange,
     selectedFiles,
@@ -81,9 +105,21 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({
     currentChatId,
     currentChatName,
     onChatNameChange,
-    refreshCurrentFile
+    refreshCurrentFile,
+    syncFiles,
+    conversationSummary,
+    onSummaryChange
   })
 
+  // Agent 模式与检索模式开关
+  const { agentMode, setAgentMode, retrievalMode, setRetrievalMode, compareMode, setCompareMode, selectedModel } = useSettings()
+  // 以模型列表中的最新配置为准（选中模型为保存时的快照）
+  const { allModels } = useModels()
+  const currentModel = allModels.find(model => model.id === selectedModel?.id) || selectedModel
+  // 按当前模型选择分词器与上下文窗口
+  const modelName: string | undefined = currentModel?.model_name
+  const contextWindow = getContextWindow(currentModel)
+
   // 使用图片处理 hook
   const {
     uploadedImages,
@@ -95,7 +131,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({
     handleRemoveImage,
     handleClosePreview,
     clearImages
-  } = useImageHandler()
+  } = useImageHandler({ multimodal: currentModel?.multimodal !== false, modelName: currentModel?.display_name })
 
   // 使用输入框处理 hook
   const {
@@ -113,7 +149,7 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({
   // 使用选中文本 hook
   const { selectedText, clearSelectedText, hasSelection } = useSelectedText()
 
-  // 暴露聚焦方法
+  // 暴露聚焦、重新生成与编辑重发方法
   useImperativeHandle(ref, () => ({
     focusInput: () => {
       const el = textareaRef.current
@@ -121,8 +157,12 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({
         el.focus()
         el.setSelectionRange(el.value.length, el.value.length)
       }
-    }
-  }), [textareaRef])
+    },
+    regenerate: (messageId, options) => {
+      handleRegenerate(messageId, options)
+    },
+    editAndResend: (messageId, newContent) => handleEditAndResend(messageId, newContent)
+  }), [textareaRef, handleRegenerate, handleEditAndResend])
 
   // @ 文件选择提示状态
   const [mentionQuery, setMentionQuery] = useState("")
@@ -210,45 +250,72 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({
     return all.filter(opt => opt.path.toLowerCase().includes(lower))
   }, [extractedFiles, mentionQuery, selectedFiles, allFolders])
 
+  // 检索模式下为选中文件建立片段索引（文件变化时重建）
+  const chunkIndex = useMemo(() => {
+    if (!retrievalMode || agentMode || selectedFiles.size === 0) return null
+    return buildChunkIndex(extractedFiles.filter(file => selectedFiles.has(file.name)))
+  }, [retrievalMode, agentMode, selectedFiles, extractedFiles])
+
+  // 词表按需加载，加载完成后重新计算 token 数
+  const [tokenizerReady, setTokenizerReady] = useState(() => getTokenizer(modelName).isReady())
+  useEffect(() => {
+    let cancelled = false
+    setTokenizerReady(getTokenizer(modelName).isReady())
+    void loadTokenizer(modelName).then(() => {
+      if (!cancelled) setTokenizerReady(getTokenizer(modelName).isReady())
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [modelName])
+
   const estimatedFileTokens = useMemo(() => {
     if (selectedFiles.size === 0) return 0
-    let weight = 0
+    // 检索模式按当前输入命中的片段估算，未命中时发送完整文件
+    if (chunkIndex) {
+      const query = [inputValue, selectedText?.text].filter(Boolean).join('\n')
+      const chunks = searchChunks(chunkIndex, query)
+      if (chunks.length > 0) {
+        return Math.max(1, chunks.reduce((sum, chunk) => sum + countTokens(chunk.text, modelName), 0))
+      }
+    }
+    let tokens = 0
     for (const file of extractedFiles) {
       if (!selectedFiles.has(file.name)) continue
       if (file.content) {
-        weight += estimateTokenWeight(file.content)
+        tokens += countTokens(file.content, modelName)
       }
     }
-    return weight > 0 ? Math.max(1, Math.ceil(weight)) : 0
-  }, [selectedFiles, extractedFiles])
+    return tokens
+  }, [selectedFiles, extractedFiles, chunkIndex, inputValue, selectedText?.text, modelName, tokenizerReady])
 
   // 计算历史消息的 token 数
   const estimatedHistoryTokens = useMemo(() => {
     const recentMessages = messages.slice(-10).filter(msg => !msg.isStreaming)
-    let weight = 0
+    let tokens = 0
     for (const msg of recentMessages) {
       // 计算消息内容
       if (msg.content) {
-        weight += estimateTokenWeight(msg.content)
+        tokens += countTokens(msg.content, modelName)
       }
       // 计算选中文本
       if (msg.selectedText?.text) {
-        weight += estimateTokenWeight(msg.selectedText.text)
+        tokens += countTokens(msg.selectedText.text, modelName)
       }
       // 简单估算图片 token（每张图片约 85 token）
       if (msg.images && msg.images.length > 0) {
-        weight += msg.images.length * 85
+        tokens += msg.images.length * 85
       }
     }
-    return weight > 0 ? Math.max(1, Math.ceil(weight)) : 0
-  }, [messages])
+    return tokens
+  }, [messages, modelName, tokenizerReady])
 
   // 计算 system prompt 的 token 数
   const estimatedSystemPromptTokens = useMemo(() => {
-    const base = Math.max(1, Math.ceil(estimateTokenWeight(SYSTEM_PROMPT)))
+    const base = Math.max(1, countTokens(SYSTEM_PROMPT, modelName))
     const extra = entityTreePromptTokenCount || 0
     return base + extra
-  }, [entityTreePromptTokenCount])
+  }, [entityTreePromptTokenCount, modelName, tokenizerReady])
 
   // 计算总 token 数
   const totalTokens = estimatedFileTokens + estimatedHistoryTokens + estimatedSystemPromptTokens
@@ -464,6 +531,8 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({
         historyTokenEstimate={estimatedHistoryTokens}
         systemPromptTokenEstimate={estimatedSystemPromptTokens}
         totalTokenEstimate={totalTokens}
+        contextWindow={contextWindow}
+        tokenizerLabel={tokenizerReady ? getTokenizer(modelName).label : '估算（词表加载中）'}
         selectedText={selectedText}
         uploadedImages={uploadedImages}
         onRemoveFile={handleRemoveFile}
@@ -472,9 +541,18 @@ export const ChatInput = forwardRef<ChatInputHandle, ChatInputProps>(({
         onImageClick={handleImageClick}
         onRemoveImage={handleRemoveImage}
         onClearAllFiles={handleClearAllFiles}
+        agentMode={agentMode}
+        onToggleAgentMode={() => setAgentMode(!agentMode)}
+        retrievalMode={retrievalMode}
+        onToggleRetrievalMode={() => setRetrievalMode(!retrievalMode)}
+        compareMode={compareMode}
+        onToggleCompareMode={() => setCompareMode(!compareMode)}
         className="mb-1.5"
       />
 
+      {/* 对比模式下选择参与的模型 */}
+      {compareMode && <CompareModelBar className="mb-1.5" />}
+
       {/* 图片预览模态框 */}
       <FilePreviewModal
         isOpen={previewModal.isOpen}
@@ -0,0 +1,67 @@
+import { useMemo } from "react"
+import { X } from "lucide-react"
+import { SimpleSelect } from "~components/ui/simple-select"
+import { useSettings } from "~hooks/useSettings"
+import { useModels } from "~hooks/useModels"
+import { MAX_COMPARE_MODELS } from "~hooks/useMessageHandler"
+import { cn } from "~lib/utils"
+
+interface CompareModelBarProps {
+  className?: string
+}
+
+// 对比模式下选择参与对比的模型
+export const CompareModelBar = ({ className }: CompareModelBarProps) => {
+  const { compareModels, setCompareModels } = useSettings()
+  const { allModels } = useModels()
+
+  const selected = useMemo(
+    () => compareModels.map(id => ({ id, model: allModels.find(model => model.id === id) })),
+    [compareModels, allModels]
+  )
+
+  const addOptions = useMemo(
+    () => allModels
+      .filter(model => !compareModels.includes(model.id))
+      .map(model => ({ value: model.id, label: `${model.display_name} · ${model.providerDisplayName}` })),
+    [allModels, compareModels]
+  )
+
+  return (
+    <div className={cn("flex flex-wrap items-center gap-1", className)}>
+      <span className="text-[11px] text-gray-500">对比：</span>
+      {selected.map(({ id, model }) => (
+        <span
+          key={id}
+          className={cn(
+            "inline-flex items-center gap-0.5 px-1.5 py-0 text-[11px] rounded-full leading-5 border",
+            model ? "text-purple-700 bg-purple-50 border-purple-200" : "text-gray-400 bg-gray-50 border-gray-200 line-through"
+          )}
+          title={model ? `${model.display_name} · ${model.providerDisplayName}` : `${id}（不可用）`}
+        >
+          <span className="max-w-[120px] truncate">{model?.display_name || id}</span>
+          <button
+            onClick={() => setCompareModels(compareModels.filter(item => item !== id))}
+            className="hover:text-red-500"
+            title="移除"
+          >
+            <X className="w-2.5 h-2.5" />
+          </button>
+        </span>
+      ))}
+      {compareModels.length < MAX_COMPARE_MODELS && addOptions.length > 0 && (
+        <div className="w-36">
+          <SimpleSelect
+            value=""
+            onValueChange={(id) => setCompareModels([...compareModels, id])}
+            options={addOptions}
+            placeholder="添加模型..."
+          />
+        </div>
+      )}
+      {compareModels.length < 2 && (
+        <span className="text-[11px] text-amber-600">至少选择两个模型</span>
+      )}
+    </div>
+  )
+}
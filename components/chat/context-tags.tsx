@@ -9,6 +9,7 @@ import {
   estimateTokenWeight
 } from "./file/file-tree-utils"
 import type { FileInfo } from "./file/file-extraction-service"
+import { formatContextWindow } from "~lib/context-window"
 
 interface ContextTagsProps {
   selectedFiles: Set<string>
@@ -17,6 +18,8 @@ interface ContextTagsProps {
   historyTokenEstimate?: number
   systemPromptTokenEstimate?: number
   totalTokenEstimate?: number
+  contextWindow?: number // 当前模型的上下文窗口
+  tokenizerLabel?: string // 当前使用的分词器
   selectedText?: {
     text: string
     fileName: string
@@ -30,6 +33,12 @@ interface ContextTagsProps {
   onImageClick?: (imageInfo: ImageInfo) => void
   onRemoveImage?: (imageId: string) => void
   onClearAllFiles?: () => void
+  agentMode?: boolean
+  onToggleAgentMode?: () => void
+  compareMode?: boolean
+  onToggleCompareMode?: () => void
+  retrievalMode?: boolean
+  onToggleRetrievalMode?: () => void
   showFileNames?: boolean
   showSelectedText?: boolean
   showImages?: boolean
@@ -42,11 +51,15 @@ interface ContextTagsProps {
 const TokenTooltip = ({ 
   fileTokens, 
   historyTokens, 
-  systemPromptTokens 
+  systemPromptTokens,
+  contextWindow,
+  tokenizerLabel
 }: { 
   fileTokens: number
   historyTokens: number
   systemPromptTokens: number
+  contextWindow?: number
+  tokenizerLabel?: string
 }) => {
   const total = fileTokens + historyTokens + systemPromptTokens
   
@@ -70,6 +83,18 @@ const TokenTooltip = ({
           <span className="text-gray-100 font-medium">总计:</span>
           <span className="text-yellow-400 font-semibold">{total.toLocaleString()}</span>
         </div>
+        {contextWindow && (
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-gray-300">上下文窗口:</span>
+            <span className="text-gray-100">{contextWindow.toLocaleString()} ({Math.round(total / contextWindow * 100)}%)</span>
+          </div>
+        )}
+        {tokenizerLabel && (
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-gray-300">分词器:</span>
+            <span className="text-gray-100">{tokenizerLabel}</span>
+          </div>
+        )}
       </div>
     </div>
   )
@@ -101,6 +126,8 @@ export const ContextTags = ({
   historyTokenEstimate,
   systemPromptTokenEstimate,
   totalTokenEstimate,
+  contextWindow,
+  tokenizerLabel,
   selectedText,
   uploadedImages = [],
   onRemoveFile,
@@ -110,6 +137,12 @@ export const ContextTags = ({
   onImageClick,
   onRemoveImage,
   onClearAllFiles,
+  agentMode = false,
+  onToggleAgentMode,
+  compareMode = false,
+  onToggleCompareMode,
+  retrievalMode = false,
+  onToggleRetrievalMode,
   showFileNames = true,
   showSelectedText = true,
   showImages = true,
@@ -172,8 +205,15 @@ export const ContextTags = ({
 
   // 如果没有任何标签要显示，返回 null
   const hasTokenCapsule = !!totalTokenEstimate && totalTokenEstimate > 0
+  // 接近或超出上下文窗口时高亮提示
+  const windowUsage = hasTokenCapsule && contextWindow ? totalTokenEstimate / contextWindow : 0
+  const tokenCapsuleClass = windowUsage > 1
+    ? "text-red-700 bg-red-50 border-red-300"
+    : windowUsage > 0.8 ? "text-amber-700 bg-amber-50 border-amber-300" : undefined
 
   if (!hasTokenCapsule &&
+      !onToggleAgentMode &&
+      !onToggleCompareMode &&
       (!showFileNames || selectedFiles.size === 0) &&
       (!showSelectedText || !hasSelection) &&
       (!showImages || uploadedImages.length === 0)) {
@@ -204,19 +244,67 @@ export const ContextTags = ({
             <Tag
               variant="default"
               removable={false}
+              className={tokenCapsuleClass}
             >
-              约 {totalTokenEstimate.toLocaleString()} token
+              约 {totalTokenEstimate.toLocaleString()}{contextWindow ? ` / ${formatContextWindow(contextWindow)}` : ""} token
             </Tag>
             {hoveredToken && fileTokenEstimate !== undefined && historyTokenEstimate !== undefined && systemPromptTokenEstimate !== undefined && (
               <TokenTooltip 
                 fileTokens={fileTokenEstimate}
                 historyTokens={historyTokenEstimate}
                 systemPromptTokens={systemPromptTokenEstimate}
+                contextWindow={contextWindow}
+                tokenizerLabel={tokenizerLabel}
               />
             )}
           </div>
         )}
         
+        {/* 检索模式开关 */}
+        {onToggleRetrievalMode && selectedFiles.size > 0 && !agentMode && (
+          <button
+            onClick={onToggleRetrievalMode}
+            className={`inline-flex items-center px-1.5 py-0 text-[11px] rounded-full font-medium leading-5 border transition-colors ${
+              retrievalMode
+                ? "text-emerald-700 bg-emerald-50 border-emerald-300 hover:bg-emerald-100"
+                : "text-gray-500 bg-gray-50 border-gray-200 hover:bg-gray-100"
+            }`}
+            title={retrievalMode ? "检索模式：只发送与问题相关的章节片段（点击关闭）" : "开启检索模式：只发送与问题相关的章节片段，节省上下文"}
+          >
+            检索 {retrievalMode ? "开" : "关"}
+          </button>
+        )}
+
+        {/* Agent 模式开关 */}
+        {onToggleAgentMode && (
+          <button
+            onClick={onToggleAgentMode}
+            className={`inline-flex items-center px-1.5 py-0 text-[11px] rounded-full font-medium leading-5 border transition-colors ${
+              agentMode
+                ? "text-blue-700 bg-blue-50 border-blue-300 hover:bg-blue-100"
+                : "text-gray-500 bg-gray-50 border-gray-200 hover:bg-gray-100"
+            }`}
+            title={agentMode ? "Agent 模式：模型按需调用工具读取项目文件（点击关闭）" : "开启 Agent 模式：模型可按需读取、搜索项目文件"}
+          >
+            Agent {agentMode ? "开" : "关"}
+          </button>
+        )}
+
+        {/* 对比模式开关 */}
+        {onToggleCompareMode && (
+          <button
+            onClick={onToggleCompareMode}
+            className={`inline-flex items-center px-1.5 py-0 text-[11px] rounded-full font-medium leading-5 border transition-colors ${
+              compareMode
+                ? "text-purple-700 bg-purple-50 border-purple-300 hover:bg-purple-100"
+                : "text-gray-500 bg-gray-50 border-gray-200 hover:bg-gray-100"
+            }`}
+            title={compareMode ? "对比模式：同一问题同时发送给多个模型（点击关闭）" : "开启对比模式：同一问题同时发送给 2-3 个模型并排比较"}
+          >
+            对比 {compareMode ? "开" : "关"}
+          </button>
+        )}
+
         {/* 文件夹标签（合并显示） */}
         {showFileNames && mergedSelection.folders.map((folder) => (
           <div
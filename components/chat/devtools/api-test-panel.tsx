@@ -14,6 +14,7 @@ import {
   type ZipFileInfo
 } from "~contents/api"
 import { CheckCircle2, XCircle, Folder, FileText, RefreshCw, Download, FileArchive } from "lucide-react"
+import { RequestInspectorPanel } from "./request-inspector-panel"
 
 interface LogEntry {
   id: string
@@ -39,6 +40,8 @@ export function ApiTestPanel({ showApiTest }: ApiTestPanelProps) {
   const [logs, setLogs] = useState<LogEntry[]>([])
   const [isLoading, setIsLoading] = useState(false)
   const [showZipView, setShowZipView] = useState(false)
+  // 当前标签页：Overleaf 接口测试 / LLM 请求记录
+  const [activeTab, setActiveTab] = useState<'overleaf' | 'llm'>('overleaf')
 
   // 创建文件夹表单
   const [folderName, setFolderName] = useState('')
@@ -227,7 +230,23 @@ export function ApiTestPanel({ showApiTest }: ApiTestPanelProps) {
   return (
     <ScrollArea className="max-h-[50vh] bg-blue-50 border-b border-blue-200">
       <div className="p-3 space-y-3">
-        <div className="text-xs font-semibold text-blue-800 mb-2">API 测试面板</div>
+        <div className="flex items-center gap-1 mb-2">
+          <span className="text-xs font-semibold text-blue-800 mr-1">开发者工具</span>
+          {([['overleaf', 'Overleaf API'], ['llm', 'LLM 请求']] as const).map(([tab, label]) => (
+            <Button
+              key={tab}
+              size="sm"
+              variant={activeTab === tab ? 'default' : 'ghost'}
+              onClick={() => setActiveTab(tab)}
+              className="h-6 px-2 text-[10px]"
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+
+        {activeTab === 'llm' ? <RequestInspectorPanel /> : (
+        <>
 
         {/* 状态栏 */}
         <Card className="p-2 bg-white">
@@ -439,6 +458,8 @@ export function ApiTestPanel({ showApiTest }: ApiTestPanelProps) {
           )}
         </ScrollArea>
       </Card>
+        </>
+        )}
       </div>
     </ScrollArea>
   )
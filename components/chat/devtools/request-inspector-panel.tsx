@@ -0,0 +1,216 @@
+import { useEffect, useRef, useState } from "react"
+import { Button } from "~components/ui/button"
+import { Card } from "~components/ui/card"
+import { ModelSelect } from "~components/ui/model-select"
+import { ScrollArea } from "~components/ui/scroll-area"
+import { useToast } from "~components/ui/sonner"
+import { useModels } from "~hooks/useModels"
+import { useSettings } from "~hooks/useSettings"
+import { LLMService } from "~lib/llm-service"
+import {
+  clearInspectedCalls,
+  subscribeInspectedCalls,
+  toCurl,
+  toJson,
+  type InspectedCall
+} from "~lib/request-inspector"
+import { Copy, Play, Square, Trash2 } from "lucide-react"
+
+type DetailTab = 'messages' | 'request' | 'response'
+
+const formatDuration = (from: number, to?: number) => to ? `${to - from} ms` : '—'
+
+// 请求状态标签
+const StatusBadge = ({ call }: { call: InspectedCall }) => {
+  if (call.error) return <span className="text-red-600">{call.status ?? 'ERR'}</span>
+  if (!call.finishedAt) return <span className="text-blue-600">…</span>
+  return <span className="text-green-600">{call.status}</span>
+}
+
+// LLM 请求记录：查看每次调用的消息、请求与原始响应，支持导出与换模型重放
+export function RequestInspectorPanel() {
+  const [calls, setCalls] = useState<InspectedCall[]>([])
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [detailTab, setDetailTab] = useState<DetailTab>('messages')
+  const [replayModelId, setReplayModelId] = useState('')
+  const [replayOutput, setReplayOutput] = useState('')
+  const [isReplaying, setIsReplaying] = useState(false)
+  const replayControllerRef = useRef<AbortController | null>(null)
+
+  const { allModels } = useModels()
+  const { getModelConfig, isModelAvailable, modelParams, modelTemperature, maxTokens } = useSettings()
+  const { success, error } = useToast()
+
+  useEffect(() => subscribeInspectedCalls(setCalls), [])
+  useEffect(() => () => replayControllerRef.current?.abort(), [])
+
+  const selected = calls.find(call => call.id === selectedId) || calls[0]
+
+  const copyText = async (text: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(text)
+      success(`已复制为 ${label}`)
+    } catch (err) {
+      console.error('Failed to copy request:', err)
+      error('复制失败，请重试')
+    }
+  }
+
+  // 使用相同的消息与工具定义向另一个模型重新请求，重放的请求同样会被记录
+  const handleReplay = async () => {
+    const model = allModels.find(item => item.id === replayModelId)
+    if (!selected || !model) return
+    const config = { ...getModelConfig(model), params: modelParams[model.id] }
+    if (!isModelAvailable(config)) {
+      error(`${model.display_name} 未配置 API Key 或 Base URL`, { title: '重放' })
+      return
+    }
+
+    const service = new LLMService(config)
+    service.updateGenerationParams({ temperature: modelTemperature, maxTokens })
+    // 固定当前选中的请求，避免重放产生的新记录改变选中项
+    setSelectedId(selected.id)
+    const controller = new AbortController()
+    replayControllerRef.current = controller
+    setIsReplaying(true)
+    setReplayOutput('')
+    try {
+      for await (const response of service.streamChat(selected.messages, controller.signal, selected.tools)) {
+        if (controller.signal.aborted) break
+        setReplayOutput(response.error ? `错误：${response.error}` : response.content)
+        if (response.finished) break
+      }
+    } catch (err) {
+      setReplayOutput(`错误：${err instanceof Error ? err.message : '未知错误'}`)
+    } finally {
+      setIsReplaying(false)
+      replayControllerRef.current = null
+    }
+  }
+
+  const renderDetail = (call: InspectedCall) => {
+    if (detailTab === 'messages') {
+      return JSON.stringify(call.tools ? { messages: call.messages, tools: call.tools } : call.messages, null, 2)
+    }
+    if (detailTab === 'request') {
+      let body = call.body
+      try {
+        body = JSON.stringify(JSON.parse(call.body), null, 2)
+      } catch {
+        // 非 JSON 请求体原样显示
+      }
+      return `POST ${call.url}\n${Object.entries(call.headers).map(([key, value]) => `${key}: ${value}`).join('\n')}\n\n${body}`
+    }
+    return call.chunks.join('') || (call.error ?? '（暂无响应）')
+  }
+
+  return (
+    <div className="space-y-2">
+      {/* 请求列表 */}
+      <Card className="p-2 bg-white">
+        <div className="flex items-center justify-between mb-2">
+          <span className="text-xs font-semibold text-gray-700">LLM 请求（{calls.length}）</span>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              clearInspectedCalls()
+              setSelectedId(null)
+            }}
+            disabled={calls.length === 0}
+            className="h-6 px-2 text-[10px]"
+            title="清空记录"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        </div>
+        <ScrollArea className="h-[100px] border border-gray-200 rounded bg-gray-50">
+          {calls.length > 0 ? (
+            <div className="p-1 space-y-0.5">
+              {calls.map(call => (
+                <div
+                  key={call.id}
+                  onClick={() => setSelectedId(call.id)}
+                  className={`flex items-center gap-2 px-1.5 py-0.5 rounded text-[10px] font-mono cursor-pointer ${
+                    call.id === selected?.id ? 'bg-blue-100' : 'hover:bg-gray-100'
+                  }`}
+                >
+                  <span className="text-gray-400">{new Date(call.startedAt).toLocaleTimeString()}</span>
+                  <StatusBadge call={call} />
+                  <span className="flex-1 truncate text-gray-700" title={call.url}>{call.model.display_name}</span>
+                  <span className="text-gray-500">{formatDuration(call.startedAt, call.finishedAt)}</span>
+                  {call.usage && (
+                    <span className="text-gray-500">↑{call.usage.inputTokens} ↓{call.usage.outputTokens}</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-xs text-gray-400 text-center py-4">发送消息后将在此记录每次模型请求</div>
+          )}
+        </ScrollArea>
+      </Card>
+
+      {/* 请求详情 */}
+      {selected && (
+        <Card className="p-2 bg-white space-y-2">
+          <div className="flex items-center gap-1">
+            {(['messages', 'request', 'response'] as DetailTab[]).map(tab => (
+              <Button
+                key={tab}
+                size="sm"
+                variant={detailTab === tab ? 'default' : 'ghost'}
+                onClick={() => setDetailTab(tab)}
+                className="h-6 px-2 text-[10px]"
+              >
+                {tab === 'messages' ? '消息' : tab === 'request' ? '请求' : `响应（${selected.chunks.length}）`}
+              </Button>
+            ))}
+            <div className="flex-1" />
+            <Button size="sm" variant="ghost" onClick={() => copyText(toCurl(selected), 'curl')} className="h-6 px-2 text-[10px]">
+              <Copy className="h-3 w-3 mr-0.5" />curl
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => copyText(toJson(selected), 'JSON')} className="h-6 px-2 text-[10px]">
+              <Copy className="h-3 w-3 mr-0.5" />JSON
+            </Button>
+          </div>
+
+          <div className="text-[10px] text-gray-500 font-mono">
+            {selected.model.model_name} · {selected.model.api_format || 'openai'}
+            {' '}· 首包 {formatDuration(selected.startedAt, selected.firstChunkAt)}
+            {' '}· 总计 {formatDuration(selected.startedAt, selected.finishedAt)}
+            {selected.usage?.cachedInputTokens ? ` · 缓存 ${selected.usage.cachedInputTokens}` : ''}
+          </div>
+          {selected.error && (
+            <div className="text-[10px] text-red-600 font-mono break-all">{selected.error}</div>
+          )}
+
+          <ScrollArea className="h-[160px] border border-gray-200 rounded bg-gray-50">
+            <pre className="p-2 text-[10px] font-mono text-gray-700 whitespace-pre-wrap break-all">
+              {renderDetail(selected)}
+            </pre>
+          </ScrollArea>
+
+          {/* 重放 */}
+          <div className="flex items-center gap-1">
+            <ModelSelect value={replayModelId} onValueChange={setReplayModelId} placeholder="选择重放模型" className="flex-1" />
+            {isReplaying ? (
+              <Button size="sm" variant="ghost" onClick={() => replayControllerRef.current?.abort()} className="h-7 px-2 text-xs">
+                <Square className="h-3 w-3 mr-0.5" />停止
+              </Button>
+            ) : (
+              <Button size="sm" onClick={handleReplay} disabled={!replayModelId} className="h-7 px-2 text-xs">
+                <Play className="h-3 w-3 mr-0.5" />重放
+              </Button>
+            )}
+          </div>
+          {replayOutput && (
+            <ScrollArea className="h-[100px] border border-gray-200 rounded bg-gray-50">
+              <pre className="p-2 text-[10px] font-mono text-gray-700 whitespace-pre-wrap break-all">{replayOutput}</pre>
+            </ScrollArea>
+          )}
+        </Card>
+      )}
+    </div>
+  )
+}
@@ -14,6 +14,14 @@ export interface ExtractionResult {
 
 export type ExtractionMode = 'current' | 'all'
 
+// 增量同步返回的单个文档，content 仅在版本变化时返回
+export interface SyncedDoc {
+  path: string
+  version: number
+  content?: string
+  length?: number
+}
+
 /**
  * 文件提取服务 - 处理与Overleaf的通信
  * 纯函数，易于测试，无副作用
@@ -110,6 +118,39 @@ export class FileExtractionService {
     }
   }
 
+  /**
+   * 增量同步文档：传入已知版本号，仅返回版本变化的文档内容
+   * @param docs 已提取文件的路径与版本号
+   */
+  static async syncDocs(docs: Array<{ path: string; version?: number }>): Promise<{
+    success: boolean
+    docs: SyncedDoc[]
+    error?: string
+  }> {
+    const requestId = Date.now().toString()
+
+    return new Promise((resolve) => {
+      const handleMessage = (event: MessageEvent) => {
+        if (event.data?.type === 'SYNC_DOCS_RESPONSE' && event.data.requestId === requestId) {
+          window.removeEventListener('message', handleMessage)
+          clearTimeout(timer)
+          const { data } = event.data
+          resolve({ success: !!data?.success, docs: data?.docs || [], error: data?.error })
+        }
+      }
+
+      window.addEventListener('message', handleMessage)
+      window.postMessage({ type: 'SYNC_DOCS', requestId, docs }, '*')
+
+      // 20秒超时，同时取消页面中剩余的读取
+      const timer = setTimeout(() => {
+        window.removeEventListener('message', handleMessage)
+        window.postMessage({ type: 'SYNC_DOCS_CANCEL', requestId }, '*')
+        resolve({ success: false, docs: [], error: '请求超时' })
+      }, 20000)
+    })
+  }
+
   /**
    * 复制文件内容到剪贴板
    * @param file 文件信息
@@ -17,9 +17,12 @@ export const useFileExtraction = (
   const [showFileList, setShowFileList] = useState(true)
   const [isCacheReady, setIsCacheReady] = useState(false)
   const [projectId, setProjectId] = useState<string | null>(null)
+  // 每个文档最近一次同步到的版本号（按文件路径）
+  const [docVersions, setDocVersions] = useState<Record<string, number>>({})
   const pendingCacheRef = useRef<{
     files: FileInfo[]
     selectedFileNames: string[]
+    docVersions: Record<string, number>
     updatedAt: string
   } | null>(null)
   const lastLoggedFileNamesRef = useRef<string>("")
@@ -135,6 +138,7 @@ export const useFileExtraction = (
       const cached = await storageUtils.get<{
         files: FileInfo[]
         selectedFileNames: string[]
+        docVersions?: Record<string, number>
         updatedAt: string
       }>(cacheKey)
 
@@ -148,6 +152,8 @@ export const useFileExtraction = (
           console.log("[file-cache] loaded list:", cached.files.map(file => file.name))
         }
 
+        setDocVersions(cached.docVersions || {})
+
         if (Array.isArray(cached.selectedFileNames) && cached.selectedFileNames.length > 0) {
           const restored = new Set(cached.selectedFileNames)
           if (onSelectedFilesChange) {
@@ -182,6 +188,7 @@ export const useFileExtraction = (
     const payload = {
       files: extractedFiles,
       selectedFileNames: Array.from(selectedFiles),
+      docVersions,
       updatedAt: new Date().toISOString()
     }
     if (isCacheReady) {
@@ -194,7 +201,7 @@ export const useFileExtraction = (
       lastLoggedFileNamesRef.current = currentNames
       console.log("[file-cache] saving list:", extractedFiles.map(file => file.name))
     }
-  }, [cacheKey, extractedFiles, selectedFiles, isCacheReady])
+  }, [cacheKey, extractedFiles, selectedFiles, docVersions, isCacheReady])
 
   // 处理内容提取结果
   const handleContentExtracted = (result: ExtractionResult, onFileSelected?: (fileName: string) => void) => {
@@ -262,6 +269,55 @@ export const useFileExtraction = (
 
 
 
+  // 增量同步：按文档版本号只重新获取有变化的文件（如协作者修改），返回同步后的文件列表
+  const syncFiles = useCallback(async (): Promise<FileInfo[] | null> => {
+    if (extractedFiles.length === 0) return null
+
+    const result = await FileExtractionService.syncDocs(
+      extractedFiles.map(file => ({ path: file.name, version: docVersions[file.name] }))
+    )
+    if (!result.success) {
+      console.warn('[file-cache] sync skipped:', result.error)
+      return null
+    }
+
+    setDocVersions(prev => {
+      const next = { ...prev }
+      result.docs.forEach(doc => { next[doc.path] = doc.version })
+      return next
+    })
+
+    const changed = new Map(
+      result.docs
+        .filter(doc => doc.content !== undefined)
+        .map(doc => [doc.path, doc] as const)
+    )
+    if (changed.size === 0) return extractedFiles
+
+    console.log('[file-cache] synced changed docs:', Array.from(changed.keys()))
+    const applyChanges = (files: FileInfo[]) => files.map(file => {
+      const doc = changed.get(file.name)
+      return doc ? { ...file, content: doc.content!, length: doc.length ?? doc.content!.length } : file
+    })
+    setExtractedFiles(applyChanges)
+    return applyChanges(extractedFiles)
+  }, [extractedFiles, docVersions])
+
+  // 更新缓存中指定文件的内容（如后台修改未打开的文件后）
+  const updateFileContent = useCallback((filePath: string, content: string) => {
+    setExtractedFiles(prev => {
+      const index = prev.findIndex(file =>
+        file.name === filePath ||
+        file.name.endsWith('/' + filePath) ||
+        filePath.endsWith('/' + file.name)
+      )
+      if (index < 0) return prev
+      const updated = [...prev]
+      updated[index] = { ...updated[index], content, length: content.length }
+      return updated
+    })
+  }, [])
+
   // 提取所有文件
   const extractAll = async () => {
     setIsExtracting(true)
@@ -298,6 +354,7 @@ export const useFileExtraction = (
   // 清空所有文件
   const clearAllFiles = () => {
     setExtractedFiles([])
+    setDocVersions({})
     if (onSelectedFilesChange) {
       onSelectedFilesChange(new Set())
     } else {
@@ -385,6 +442,8 @@ export const useFileExtraction = (
     selectAllFiles,
     autoSelectFile,
     toggleFileList,
-    refreshCurrentFile
+    refreshCurrentFile,
+    syncFiles,
+    updateFileContent
   }
 }
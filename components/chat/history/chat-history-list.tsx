@@ -1,10 +1,12 @@
 import { useState } from "react"
 import { Button } from "~components/ui/button"
 import { Input } from "~components/ui/input"
-import { Trash2, Edit3, MessageCircle } from "lucide-react"
+import { Textarea } from "~components/ui/textarea"
+import { Trash2, Edit3, MessageCircle, ScrollText } from "lucide-react"
 import { useDialog } from "~components/ui/dialog"
 import { truncateText } from "~utils/helpers"
 import type { ChatHistory } from "~hooks/useChatHistory"
+import type { ConversationSummary } from "~lib/conversation-summary"
 
 interface ChatHistoryListProps {
   chatHistories: ChatHistory[]
@@ -13,6 +15,7 @@ interface ChatHistoryListProps {
   onLoadHistory: (history: ChatHistory) => void
   onDeleteHistory: (historyId: string) => void
   onUpdateHistoryName: (historyId: string, newName: string) => void
+  onUpdateHistorySummary?: (historyId: string, summary: ConversationSummary | null) => void
   onClearAllHistories: () => void
   className?: string
 }
@@ -28,11 +31,14 @@ export const ChatHistoryList = ({
   onLoadHistory,
   onDeleteHistory,
   onUpdateHistoryName,
+  onUpdateHistorySummary,
   onClearAllHistories,
   className = ""
 }: ChatHistoryListProps) => {
   const [editingId, setEditingId] = useState<string | null>(null)
   const [editingName, setEditingName] = useState("")
+  const [summaryEditingId, setSummaryEditingId] = useState<string | null>(null)
+  const [summaryText, setSummaryText] = useState("")
   const { showDialog } = useDialog()
 
   // 计算页面高度的1/2作为最大限制
@@ -69,6 +75,24 @@ export const ChatHistoryList = ({
     }
   }
 
+  // 展开/收起对话摘要编辑
+  const toggleSummaryEditing = (history: ChatHistory) => {
+    if (summaryEditingId === history.id) {
+      setSummaryEditingId(null)
+      return
+    }
+    setSummaryEditingId(history.id)
+    setSummaryText(history.summary?.text || "")
+  }
+
+  // 保存摘要，清空内容即删除摘要
+  const saveSummary = (history: ChatHistory) => {
+    if (!history.summary) return
+    const text = summaryText.trim()
+    onUpdateHistorySummary?.(history.id, text ? { ...history.summary, text, updatedAt: new Date() } : null)
+    setSummaryEditingId(null)
+  }
+
   // 处理删除单个历史记录的确认
   const handleDeleteHistory = async (historyId: string, historyName: string) => {
     const confirmed = await showDialog({
@@ -159,68 +183,116 @@ export const ChatHistoryList = ({
           </div>
         ) : (
           chatHistories.map((history, index) => (
-            <div
-              key={`${history.id}-${index}`}
-              className="flex items-center justify-between px-2 py-0.5 hover:bg-green-50 cursor-pointer transition-colors group"
-              onClick={() => editingId !== history.id && onLoadHistory(history)}
-            >
-              <div className="flex items-center gap-1.5 flex-1 min-w-0">
-                <MessageCircle className="h-3 w-3 text-green-500 flex-shrink-0" />
-                <div className="flex-1 min-w-0">
-                  <div className="flex items-center justify-between">
-                    {editingId === history.id ? (
-                      <Input
-                        value={editingName}
-                        onChange={(e) => setEditingName(e.target.value)}
-                        onBlur={saveEditing}
-                        onKeyDown={handleKeyDown}
-                        className="h-5 text-xs px-1 py-0 border-0 bg-white shadow-sm"
-                        autoFocus
-                        onClick={(e) => e.stopPropagation()}
-                      />
-                    ) : (
-                      <span 
-                        className="text-xs text-gray-800 truncate"
-                        style={{ maxWidth: "50%" }}
-                        title={history.name}
-                      >
-                        {truncateName(history.name, 120)}
-                      </span>
-                    )}
-                    <div className="flex items-center gap-1 text-[10px] text-green-600 ml-2 flex-shrink-0">
-                      <span>{history.messageCount} 条</span>
-                      <span>•</span>
-                      <span>{formatTime(history.lastUpdated)}</span>
+            <div key={`${history.id}-${index}`}>
+              <div
+                className="flex items-center justify-between px-2 py-0.5 hover:bg-green-50 cursor-pointer transition-colors group"
+                onClick={() => editingId !== history.id && onLoadHistory(history)}
+              >
+                <div className="flex items-center gap-1.5 flex-1 min-w-0">
+                  <MessageCircle className="h-3 w-3 text-green-500 flex-shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between">
+                      {editingId === history.id ? (
+                        <Input
+                          value={editingName}
+                          onChange={(e) => setEditingName(e.target.value)}
+                          onBlur={saveEditing}
+                          onKeyDown={handleKeyDown}
+                          className="h-5 text-xs px-1 py-0 border-0 bg-white shadow-sm"
+                          autoFocus
+                          onClick={(e) => e.stopPropagation()}
+                        />
+                      ) : (
+                        <span 
+                          className="text-xs text-gray-800 truncate"
+                          style={{ maxWidth: "50%" }}
+                          title={history.name}
+                        >
+                          {truncateName(history.name, 120)}
+                        </span>
+                      )}
+                      <div className="flex items-center gap-1 text-[10px] text-green-600 ml-2 flex-shrink-0">
+                        {history.summary && <ScrollText className="h-2.5 w-2.5 text-amber-500" />}
+                        <span>{history.messageCount} 条</span>
+                        <span>•</span>
+                        <span>{formatTime(history.lastUpdated)}</span>
+                      </div>
                     </div>
                   </div>
                 </div>
+                <div className="flex gap-0 ml-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                  {history.summary && onUpdateHistorySummary && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        toggleSummaryEditing(history)
+                      }}
+                      className="h-5 w-5 p-0 text-amber-600 hover:bg-amber-50"
+                      title="查看/编辑对话摘要"
+                    >
+                      <ScrollText className="h-2.5 w-2.5" />
+                    </Button>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      startEditing(history)
+                    }}
+                    className="h-5 w-5 p-0 text-green-600 hover:bg-green-100"
+                    title="重命名"
+                  >
+                    <Edit3 className="h-2.5 w-2.5" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      handleDeleteHistory(history.id, history.name)
+                    }}
+                    className="h-5 w-5 p-0 text-red-600 hover:bg-red-50"
+                    title="删除历史"
+                  >
+                    <Trash2 className="h-2.5 w-2.5" />
+                  </Button>
+                </div>
               </div>
-              <div className="flex gap-0 ml-1 opacity-0 group-hover:opacity-100 transition-opacity">
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    startEditing(history)
-                  }}
-                  className="h-5 w-5 p-0 text-green-600 hover:bg-green-100"
-                  title="重命名"
-                >
-                  <Edit3 className="h-2.5 w-2.5" />
-                </Button>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={(e) => {
-                    e.stopPropagation()
-                    handleDeleteHistory(history.id, history.name)
-                  }}
-                  className="h-5 w-5 p-0 text-red-600 hover:bg-red-50"
-                  title="删除历史"
-                >
-                  <Trash2 className="h-2.5 w-2.5" />
-                </Button>
-              </div>
+
+              {/* 对话摘要编辑区 */}
+              {summaryEditingId === history.id && history.summary && (
+                <div className="px-2 pb-1.5 pt-0.5 bg-amber-50/50 border-y border-amber-100">
+                  <div className="text-[10px] text-amber-700 mb-1">
+                    对话摘要（发送时代替较早的消息，清空后保存即删除）
+                  </div>
+                  <Textarea
+                    value={summaryText}
+                    onChange={(e) => setSummaryText(e.target.value)}
+                    className="min-h-[80px] text-xs bg-white"
+                  />
+                  <div className="flex justify-end gap-1 mt-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSummaryEditingId(null)}
+                      className="h-5 px-1.5 text-xs"
+                    >
+                      取消
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => saveSummary(history)}
+                      className="h-5 px-1.5 text-xs text-amber-700 hover:bg-amber-100"
+                    >
+                      保存
+                    </Button>
+                  </div>
+                </div>
+              )}
             </div>
           ))
         )}
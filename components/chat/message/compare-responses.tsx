@@ -0,0 +1,64 @@
+import type { ReactNode } from 'react'
+import { Check, Loader2 } from 'lucide-react'
+import { Button } from '~components/ui/button'
+import { formatTokenCount } from '~lib/context-budget'
+import { formatCost } from '~lib/usage'
+import type { CompareResponse } from '~hooks/useMessageHandler'
+import { cn } from '~lib/utils'
+
+interface CompareResponsesProps {
+  responses: CompareResponse[]
+  onKeep: (index: number) => void
+  // 由调用方渲染回答内容，以便复用替换块等交互
+  renderResponse: (response: CompareResponse, index: number) => ReactNode
+  className?: string
+}
+
+// 对比模式：各模型的回答并排显示，保留其一后写回主对话
+export const CompareResponses = ({ responses, onKeep, renderResponse, className }: CompareResponsesProps) => {
+  const anyStreaming = responses.some(response => response.isStreaming)
+
+  return (
+    <div
+      className={cn('grid gap-2 w-full', className)}
+      style={{ gridTemplateColumns: `repeat(${responses.length}, minmax(0, 1fr))` }}
+    >
+      {responses.map((response, index) => (
+        <div
+          key={`${response.modelId}-${index}`}
+          className={cn(
+            'flex flex-col min-w-0 rounded-xl border bg-white shadow-sm',
+            response.error ? 'border-red-200' : 'border-gray-100'
+          )}
+        >
+          <div className="flex items-center gap-1 px-2 py-1 border-b border-gray-100">
+            <span className="flex-1 text-[11px] font-medium text-gray-700 truncate" title={response.modelId}>
+              {response.modelName}
+            </span>
+            {response.isStreaming && <Loader2 className="h-3 w-3 animate-spin text-gray-400" />}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onKeep(index)}
+              disabled={anyStreaming || response.error || !response.content}
+              className="h-5 px-1.5 text-[10px] text-green-600 hover:bg-green-100/50 hover:text-green-700"
+              title="保留此回答并继续对话"
+            >
+              <Check className="h-2.5 w-2.5 mr-0.5" />
+              保留此回答
+            </Button>
+          </div>
+          <div className="px-2 py-1.5 min-w-0 text-gray-700">
+            {renderResponse(response, index)}
+          </div>
+          {response.usage && (
+            <div className="px-2 pb-1 text-[10px] text-gray-400 whitespace-nowrap">
+              ↑{formatTokenCount(response.usage.inputTokens)} ↓{formatTokenCount(response.usage.outputTokens)}
+              {response.usage.cost !== undefined && response.usage.currency && ` · ${formatCost(response.usage.cost, response.usage.currency)}`}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  )
+}
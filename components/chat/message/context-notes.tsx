@@ -0,0 +1,37 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Scissors } from 'lucide-react'
+
+interface ContextNotesProps {
+  notes: string[]
+}
+
+/**
+ * 上下文调整说明 - 告知用户发送前哪些内容被压缩为摘要或因超出上下文窗口未完整发送
+ */
+export const ContextNotes = ({ notes }: ContextNotesProps) => {
+  const [expanded, setExpanded] = useState(false)
+  if (notes.length === 0) return null
+
+  return (
+    <div className="mb-2">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center gap-1.5 text-xs font-medium transition-colors rounded px-2 py-1 text-amber-700 bg-amber-50 hover:bg-amber-100"
+      >
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Scissors className="w-3 h-3" />
+        <span>发送前已调整上下文（{notes.length} 项）</span>
+      </button>
+
+      {expanded && (
+        <div className="mt-1.5 space-y-0.5 border-l-2 border-amber-200 pl-2">
+          {notes.map((note, index) => (
+            <div key={index} className="text-[11px] text-gray-600">
+              {note}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
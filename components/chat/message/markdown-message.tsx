@@ -2,8 +2,11 @@ import { Marked } from 'marked'
 import markedKatex from 'marked-katex-extension'
 import { useEffect, useState, useRef, useMemo } from 'react'
 import { cn } from "~lib/utils"
-import { ChevronDown, ChevronRight, Brain } from 'lucide-react'
+import { ChevronDown, ChevronRight, Brain, CheckCheck, Loader2, Shuffle } from 'lucide-react'
 import { ReplaceBlock } from './replace-block'
+import { ToolSteps } from './tool-steps'
+import { ContextNotes } from './context-notes'
+import type { AgentToolStep } from '~lib/agent-tools'
 import { parseReplaceCommands, hasReplaceCommands, type ReplaceCommand } from '~lib/replace-service'
 
 interface MarkdownMessageProps {
@@ -16,13 +19,26 @@ interface MarkdownMessageProps {
   // 思考过程相关
   thinking?: string
   thinkingFinished?: boolean
+  // Agent 工具调用步骤
+  toolSteps?: AgentToolStep[]
+  // 上下文裁剪说明
+  contextNotes?: string[]
+  answeredBy?: string // 主模型失败时实际回答的备用模型
+  // 编辑工具生成的修改建议（不在正文中，单独渲染）
+  editCommands?: ReplaceCommand[]
   // 替换相关
   replaceCommands?: Map<string, ReplaceCommand>
   onAcceptReplace?: (command: ReplaceCommand) => void
+  onApplyAll?: (commands: ReplaceCommand[]) => void
+  isBatchApplying?: boolean
   onRejectReplace?: (command: ReplaceCommand) => void
   onUndoApply?: (command: ReplaceCommand) => void
   onUndoReject?: (command: ReplaceCommand) => void
   onSmartPreview?: (command: ReplaceCommand) => void
+  onConfirmFuzzyMatch?: (command: ReplaceCommand) => void
+  onOverwriteConflict?: (command: ReplaceCommand) => void
+  onLocateOccurrence?: (command: ReplaceCommand, index: number) => void
+  onChangeOccurrences?: (command: ReplaceCommand, occurrences?: number[], occurrenceCount?: number) => void
   getFileContent?: (filePath: string) => string | undefined
   applyingCommandId?: string | null
 }
@@ -154,12 +170,22 @@ export const MarkdownMessage = ({
   waitingStartTime,
   thinking,
   thinkingFinished,
+  toolSteps,
+  contextNotes,
+  answeredBy,
+  editCommands,
   replaceCommands,
   onAcceptReplace,
+  onApplyAll,
+  isBatchApplying,
   onRejectReplace,
   onUndoApply,
   onUndoReject,
   onSmartPreview,
+  onConfirmFuzzyMatch,
+  onOverwriteConflict,
+  onLocateOccurrence,
+  onChangeOccurrences,
   getFileContent,
   applyingCommandId
 }: MarkdownMessageProps) => {
@@ -338,11 +364,19 @@ export const MarkdownMessage = ({
     return parseReplaceCommands(content)
   }, [content, isUser])
 
+  // 本条消息中的全部命令（取外部最新状态）
+  const messageCommands = useMemo(() => {
+    const all = [...(parsedContent?.commands || []), ...(editCommands || [])]
+    return all.map(cmd => replaceCommands?.get(cmd.id) || cmd)
+  }, [parsedContent, editCommands, replaceCommands])
+  const pendingCommands = messageCommands.filter(cmd => cmd.status === 'pending')
+
   // 渲染替换块
   const renderReplaceBlock = (commandId: string) => {
     // 优先从外部传入的 replaceCommands 获取最新状态
     const command = replaceCommands?.get(commandId) || 
-      parsedContent?.commands.find(c => c.id === commandId)
+      parsedContent?.commands.find(c => c.id === commandId) ||
+      editCommands?.find(c => c.id === commandId)
     
     if (!command) return null
 
@@ -356,6 +390,10 @@ export const MarkdownMessage = ({
         onUndoApply={onUndoApply ? (cmd) => onUndoApply(cmd) : undefined}
         onUndoReject={onUndoReject ? (cmd) => onUndoReject(cmd) : undefined}
         onSmartPreview={onSmartPreview ? (cmd) => onSmartPreview(cmd) : undefined}
+        onConfirmFuzzyMatch={onConfirmFuzzyMatch ? (cmd) => onConfirmFuzzyMatch(cmd) : undefined}
+        onOverwriteConflict={onOverwriteConflict}
+        onLocateOccurrence={onLocateOccurrence}
+        onChangeOccurrences={onChangeOccurrences}
         isApplying={applyingCommandId === commandId}
       />
     )
@@ -457,7 +495,7 @@ export const MarkdownMessage = ({
       {isUser ? (
         // 用户消息直接显示文本，保留换行符
         <span className="whitespace-pre-wrap">{content}</span>
-      ) : isWaiting && !thinking ? (
+      ) : isWaiting && !thinking && !toolSteps?.length ? (
         // 等待状态显示等待中（如果没有思考内容）
         <div className="flex items-center space-x-2 text-gray-500">
           <span>{waitingTime}s 思考中</span>
@@ -470,8 +508,22 @@ export const MarkdownMessage = ({
       ) : (
         // AI 消息
         <>
+          {/* 上下文裁剪说明 */}
+          {contextNotes && contextNotes.length > 0 && <ContextNotes notes={contextNotes} />}
+
+          {/* 备用模型说明 */}
+          {answeredBy && (
+            <div className="mb-1.5 flex items-center gap-1 text-[11px] text-gray-400">
+              <Shuffle className="w-3 h-3" />
+              <span>主模型请求失败，由 {answeredBy} 回答</span>
+            </div>
+          )}
+
           {/* 思考过程区域 - 放在顶部左上角 */}
           {renderThinkingSection()}
+
+          {/* Agent 工具调用步骤 */}
+          {toolSteps && toolSteps.length > 0 && <ToolSteps steps={toolSteps} />}
           
           {/* 正文内容 - 支持替换块 */}
           {content && (
@@ -487,6 +539,29 @@ export const MarkdownMessage = ({
               />
             )
           )}
+
+          {/* 编辑工具生成的替换块 */}
+          {editCommands?.map(cmd => renderReplaceBlock(cmd.id))}
+
+          {/* 多处待处理修改时提供一键全部应用 */}
+          {onApplyAll && !isStreaming && pendingCommands.length > 1 && (
+            <div className="flex justify-end mt-2">
+              <button
+                onClick={() => onApplyAll(pendingCommands)}
+                disabled={isBatchApplying || !!applyingCommandId}
+                className={cn(
+                  "flex items-center gap-1 text-[11px] font-medium rounded px-2 py-1 transition-colors",
+                  "text-white bg-green-600 hover:bg-green-700 disabled:opacity-60 disabled:cursor-not-allowed"
+                )}
+                title="先校验全部修改，再按顺序应用；任一失败则回滚"
+              >
+                {isBatchApplying
+                  ? <Loader2 className="w-3 h-3 animate-spin" />
+                  : <CheckCheck className="w-3 h-3" />}
+                <span>{isBatchApplying ? '正在应用...' : `全部应用 (${pendingCommands.length})`}</span>
+              </button>
+            </div>
+          )}
           
           {/* 如果只有思考内容，没有正文，且还在思考中 */}
           {!content && thinking && !thinkingFinished && (
@@ -1,16 +1,28 @@
 import React from 'react'
 import { Button } from '~components/ui/button'
-import { Copy, Trash2, GitBranch } from 'lucide-react'
+import { Copy, Trash2, GitBranch, ChevronLeft, ChevronRight, Pencil } from 'lucide-react'
 import { useToast } from '~components/ui/sonner'
 import { useDialog } from '~components/ui/dialog'
+import { formatTokenCount } from '~lib/context-budget'
+import { formatCost, type MessageUsage } from '~lib/usage'
+import type { RegenerateOptions } from '~hooks/useMessageHandler'
+import { RegenerateMenu } from './regenerate-menu'
 
 interface MessageActionsProps {
   messageId: string
   messageContent: string
   isUser: boolean
   isStreaming?: boolean
+  usage?: MessageUsage
   onDeleteMessage: (messageId: string) => void
   onBranchFromMessage: (messageId: string) => void
+  onRegenerate?: (messageId: string, options?: RegenerateOptions) => void
+  onEditMessage?: (messageId: string) => void
+  // 回答版本
+  variantIndex?: number
+  variantCount?: number
+  variantModel?: string
+  onSelectVariant?: (messageId: string, index: number) => void
   className?: string
 }
 
@@ -19,12 +31,23 @@ export const MessageActions: React.FC<MessageActionsProps> = ({
   messageContent,
   isUser,
   isStreaming = false,
+  usage,
   onDeleteMessage,
   onBranchFromMessage,
+  onRegenerate,
+  onEditMessage,
+  variantIndex = 0,
+  variantCount = 0,
+  variantModel,
+  onSelectVariant,
   className = ""
 }) => {
   const { success, error } = useToast()
   const { showDialog } = useDialog()
+  // 输入中命中提示缓存的比例
+  const cacheHitRate = usage?.cachedInputTokens && usage.inputTokens > 0
+    ? Math.round(usage.cachedInputTokens / usage.inputTokens * 100)
+    : 0
 
   // 复制消息内容
   const handleCopyMessage = async () => {
@@ -107,6 +130,64 @@ export const MessageActions: React.FC<MessageActionsProps> = ({
       >
         <GitBranch className="h-2.5 w-2.5" />
       </Button>
+
+      {/* 编辑并重新发送 */}
+      {onEditMessage && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onEditMessage(messageId)}
+          className="h-5 w-5 p-0 hover:bg-blue-100/50 text-blue-500 hover:text-blue-600"
+          title="编辑并重新发送"
+        >
+          <Pencil className="h-2.5 w-2.5" />
+        </Button>
+      )}
+
+      {/* 重新生成 */}
+      {onRegenerate && (
+        <RegenerateMenu onRegenerate={(options) => onRegenerate(messageId, options)} />
+      )}
+
+      {/* 版本切换 */}
+      {variantCount > 1 && onSelectVariant && (
+        <span className="flex items-center text-[10px] text-gray-500" title={variantModel ? `由 ${variantModel} 生成` : undefined}>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onSelectVariant(messageId, variantIndex - 1)}
+            disabled={variantIndex <= 0}
+            className="h-5 w-4 p-0 hover:bg-gray-200/50"
+            title="上一个版本"
+          >
+            <ChevronLeft className="h-2.5 w-2.5" />
+          </Button>
+          {variantIndex + 1}/{variantCount}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onSelectVariant(messageId, variantIndex + 1)}
+            disabled={variantIndex >= variantCount - 1}
+            className="h-5 w-4 p-0 hover:bg-gray-200/50"
+            title="下一个版本"
+          >
+            <ChevronRight className="h-2.5 w-2.5" />
+          </Button>
+        </span>
+      )}
+
+      {/* 用量与费用 */}
+      {usage && (
+        <span
+          className="ml-1 text-[10px] text-gray-400 whitespace-nowrap"
+          title={`${usage.model}\n输入 ${usage.inputTokens}${usage.cachedInputTokens ? `（缓存命中 ${usage.cachedInputTokens}）` : ''}${usage.cacheWriteTokens ? `（写入缓存 ${usage.cacheWriteTokens}）` : ''} · 输出 ${usage.outputTokens}${usage.reasoningTokens ? `（思考 ${usage.reasoningTokens}）` : ''}`}
+        >
+          ↑{formatTokenCount(usage.inputTokens)}
+          {cacheHitRate > 0 && <span className="text-green-600"> ⚡{cacheHitRate}%</span>}
+          {" "}↓{formatTokenCount(usage.outputTokens)}
+          {usage.cost !== undefined && usage.currency && ` · ${formatCost(usage.cost, usage.currency)}`}
+        </span>
+      )}
     </div>
   )
 }
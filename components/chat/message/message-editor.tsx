@@ -0,0 +1,69 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Button } from '~components/ui/button'
+import { Textarea } from '~components/ui/textarea'
+
+interface MessageEditorProps {
+  initialContent: string
+  onSubmit: (content: string) => void
+  onCancel: () => void
+}
+
+// 用户消息的行内编辑：Enter 发送，Shift+Enter 换行，Esc 取消
+export const MessageEditor: React.FC<MessageEditorProps> = ({ initialContent, onSubmit, onCancel }) => {
+  const [content, setContent] = useState(initialContent)
+  const [isComposing, setIsComposing] = useState(false)
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+
+  useEffect(() => {
+    const el = textareaRef.current
+    if (el) {
+      el.focus()
+      el.setSelectionRange(el.value.length, el.value.length)
+    }
+  }, [])
+
+  const canSubmit = content.trim().length > 0
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Escape') {
+      e.preventDefault()
+      onCancel()
+    } else if (e.key === 'Enter' && !e.shiftKey && !isComposing) {
+      e.preventDefault()
+      if (canSubmit) onSubmit(content)
+    }
+  }
+
+  return (
+    <div className="space-y-1.5">
+      <Textarea
+        ref={textareaRef}
+        value={content}
+        onChange={(e) => setContent(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onCompositionStart={() => setIsComposing(true)}
+        onCompositionEnd={() => setIsComposing(false)}
+        className="min-h-[60px] max-h-[240px] text-sm text-gray-800 bg-white"
+      />
+      <div className="flex justify-end gap-1">
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={onCancel}
+          className="h-6 px-2 text-xs text-white hover:bg-white/20 hover:text-white"
+        >
+          取消
+        </Button>
+        <Button
+          size="sm"
+          onClick={() => onSubmit(content)}
+          disabled={!canSubmit}
+          className="h-6 px-2 text-xs bg-white text-blue-600 hover:bg-blue-50"
+          title="截断此后的对话并重新发送，原对话另存为分支"
+        >
+          发送
+        </Button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,117 @@
+import React, { useState } from 'react'
+import { ChevronLeft, ChevronRight, Crosshair } from 'lucide-react'
+import { Button } from '~components/ui/button'
+import { Checkbox } from '~components/ui/checkbox'
+
+interface OccurrencePickerProps {
+  count: number
+  // 替换可选择多处，插入只能选择一处锚点
+  mode: 'multiple' | 'single'
+  selected: number[]
+  onLocate: (index: number) => void
+  onChange: (occurrences: number[] | undefined) => void
+  disabled?: boolean
+}
+
+// 多处匹配时逐个定位到编辑器中查看，并选择要修改的位置
+export const OccurrencePicker: React.FC<OccurrencePickerProps> = ({
+  count,
+  mode,
+  selected,
+  onLocate,
+  onChange,
+  disabled = false
+}) => {
+  const [current, setCurrent] = useState(selected[0] ?? 0)
+  const isSelected = selected.includes(current)
+  const isAllSelected = selected.length === count
+
+  const handleStep = (delta: number) => {
+    const next = (current + delta + count) % count
+    setCurrent(next)
+    onLocate(next)
+  }
+
+  const toggleCurrent = (checked: boolean) => {
+    const next = checked
+      ? [...selected, current]
+      : selected.filter(index => index !== current)
+    // 全选时恢复默认（替换全部），避免记录冗余的位置
+    onChange(next.length === count ? undefined : next)
+  }
+
+  return (
+    <div className="flex items-center gap-1 px-1 py-0.5 rounded bg-amber-50 border border-amber-100 text-[10px] text-amber-700">
+      <span className="flex-shrink-0">共 {count} 处匹配</span>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-4 w-4 p-0 hover:bg-amber-100"
+        onClick={() => handleStep(-1)}
+        disabled={disabled}
+        title="上一处"
+      >
+        <ChevronLeft className="w-3 h-3" />
+      </Button>
+      <button
+        type="button"
+        className="tabular-nums hover:underline disabled:no-underline"
+        onClick={() => onLocate(current)}
+        disabled={disabled}
+        title="在编辑器中定位此处"
+      >
+        第 {current + 1} 处
+      </button>
+      <Button
+        variant="ghost"
+        size="sm"
+        className="h-4 w-4 p-0 hover:bg-amber-100"
+        onClick={() => handleStep(1)}
+        disabled={disabled}
+        title="下一处"
+      >
+        <ChevronRight className="w-3 h-3" />
+      </Button>
+
+      <div className="flex-1" />
+
+      {mode === 'multiple' ? (
+        <>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <Checkbox
+              checked={isSelected}
+              onCheckedChange={(checked) => toggleCurrent(checked === true)}
+              disabled={disabled}
+              className="h-3 w-3"
+            />
+            修改此处
+          </label>
+          <span className="text-amber-600">（已选 {selected.length}/{count}）</span>
+          {!isAllSelected && (
+            <button
+              type="button"
+              className="text-blue-600 hover:underline"
+              onClick={() => onChange(undefined)}
+              disabled={disabled}
+            >
+              全选
+            </button>
+          )}
+        </>
+      ) : isSelected ? (
+        <span className="flex items-center gap-0.5 text-green-600">
+          <Crosshair className="w-3 h-3" />插入位置
+        </span>
+      ) : (
+        <button
+          type="button"
+          className="text-blue-600 hover:underline"
+          onClick={() => onChange(current === 0 ? undefined : [current])}
+          disabled={disabled}
+        >
+          在此处插入
+        </button>
+      )}
+    </div>
+  )
+}
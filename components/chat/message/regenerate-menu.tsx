@@ -0,0 +1,99 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { ChevronDown, RefreshCw } from 'lucide-react'
+import { Button } from '~components/ui/button'
+import { Input } from '~components/ui/input'
+import { ModelSelect } from '~components/ui/model-select'
+import { useSettings } from '~hooks/useSettings'
+import type { RegenerateOptions } from '~hooks/useMessageHandler'
+
+interface RegenerateMenuProps {
+  onRegenerate: (options?: RegenerateOptions) => void
+}
+
+// 重新生成按钮：直接点击沿用当前设置，展开后可换用其他模型或温度
+export const RegenerateMenu: React.FC<RegenerateMenuProps> = ({ onRegenerate }) => {
+  const { selectedModel, modelTemperature } = useSettings()
+  const [isOpen, setIsOpen] = useState(false)
+  const [modelId, setModelId] = useState('')
+  const [temperature, setTemperature] = useState('')
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(event.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+
+    if (isOpen) {
+      document.addEventListener('mousedown', handleClickOutside)
+    }
+
+    return () => {
+      document.removeEventListener('mousedown', handleClickOutside)
+    }
+  }, [isOpen])
+
+  const handleOpen = () => {
+    setModelId(selectedModel?.id || '')
+    setTemperature('')
+    setIsOpen(!isOpen)
+  }
+
+  const handleConfirm = () => {
+    const parsed = parseFloat(temperature)
+    onRegenerate({
+      modelId: modelId || undefined,
+      temperature: Number.isFinite(parsed) ? Math.min(Math.max(parsed, 0), 2) : undefined
+    })
+    setIsOpen(false)
+  }
+
+  return (
+    <div ref={containerRef} className="relative flex items-center">
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onRegenerate()}
+        className="h-5 w-5 p-0 hover:bg-blue-100/50 text-blue-500 hover:text-blue-600"
+        title="重新生成"
+      >
+        <RefreshCw className="h-2.5 w-2.5" />
+      </Button>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleOpen}
+        className="h-5 w-3 p-0 hover:bg-blue-100/50 text-blue-400 hover:text-blue-600"
+        title="换用其他模型或温度重新生成"
+      >
+        <ChevronDown className="h-2.5 w-2.5" />
+      </Button>
+
+      {isOpen && (
+        <div className="absolute top-full left-0 z-50 mt-1 w-56 rounded-md border bg-white p-2 shadow-md space-y-2">
+          <div className="space-y-1">
+            <div className="text-[11px] text-gray-500">模型</div>
+            <ModelSelect value={modelId} onValueChange={setModelId} className="w-full" />
+          </div>
+          <div className="space-y-1">
+            <div className="text-[11px] text-gray-500">温度</div>
+            <Input
+              type="number"
+              min={0}
+              max={2}
+              step={0.1}
+              value={temperature}
+              placeholder={`默认 ${modelTemperature}`}
+              onChange={(e) => setTemperature(e.target.value)}
+              className="h-7 text-xs"
+            />
+          </div>
+          <Button size="sm" onClick={handleConfirm} className="h-7 w-full text-xs">
+            重新生成
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -6,7 +6,8 @@ import { useState, useEffect, useMemo } from 'react'
 import { Check, X, FileCode, AlertCircle, Loader2, MousePointerClick, FilePlus } from 'lucide-react'
 import { Button } from '~components/ui/button'
 import type { ReplaceCommand } from '~lib/replace-service'
-import { validateMatchCount } from '~lib/replace-service'
+import { formatFuzzyScore, validateMatchCount } from '~lib/replace-service'
+import { OccurrencePicker } from './occurrence-picker'
 
 // ============ 差异对比算法 ============
 
@@ -245,6 +246,10 @@ interface ReplaceBlockProps {
   onUndoApply?: (command: ReplaceCommand) => void
   onUndoReject?: (command: ReplaceCommand) => void
   onSmartPreview?: (command: ReplaceCommand) => void // 智能预览：自动判断查看或预览
+  onConfirmFuzzyMatch?: (command: ReplaceCommand) => void // 确认按相似内容应用
+  onOverwriteConflict?: (command: ReplaceCommand) => void // 冲突时用本次修改覆盖当前内容
+  onLocateOccurrence?: (command: ReplaceCommand, index: number) => void // 定位到第几处匹配
+  onChangeOccurrences?: (command: ReplaceCommand, occurrences?: number[], occurrenceCount?: number) => void // 选择要修改的匹配位置
   isApplying?: boolean
 }
 
@@ -256,6 +261,10 @@ export const ReplaceBlock = ({
   onUndoApply,
   onUndoReject,
   onSmartPreview,
+  onConfirmFuzzyMatch,
+  onOverwriteConflict,
+  onLocateOccurrence,
+  onChangeOccurrences,
   isApplying = false
 }: ReplaceBlockProps) => {
   const isCreateCommand = command.commandType === 'create'
@@ -263,6 +272,7 @@ export const ReplaceBlock = ({
     valid: boolean
     matchCount: number
     error?: string
+    fuzzyScore?: number
   } | null>(null)
   
   // 验证匹配（基于清洗后的内容）
@@ -338,7 +348,15 @@ export const ReplaceBlock = ({
   const isEditable = command.status === 'pending'
   const canUndoApply = (command.status === 'applied' || command.status === 'accepted') && !!onUndoApply && !isCreateCommand
   const canUndoReject = command.status === 'rejected' && !!onUndoReject
-  const hasValidMatch = isCreateCommand ? true : (matchInfo?.valid ?? true)
+  // 仅有相似内容时仍允许接受，应用时会高亮候选区域并要求确认
+  const hasValidMatch = isCreateCommand ? true : (matchInfo ? matchInfo.valid || matchInfo.fuzzyScore !== undefined : true)
+  const pendingFuzzyMatch = command.status === 'error' ? command.fuzzyMatch : undefined
+  const pendingConflict = command.status === 'error' ? command.conflict : undefined
+  // 多处匹配时由用户选择修改位置：替换默认全部，插入默认第一处锚点
+  const occurrenceCount = isEditable && matchInfo?.valid ? matchInfo.matchCount : 0
+  const selectedOccurrences = command.occurrences
+    ?? (command.commandType === 'insert' ? [0] : Array.from({ length: occurrenceCount }, (_, index) => index))
+  const hasSelectedOccurrence = selectedOccurrences.length > 0
   
   // 计算差异，用于高亮显示
   const diffData = useMemo(() => {
@@ -416,8 +434,10 @@ export const ReplaceBlock = ({
             </span>
           )}
           {matchInfo && !isCreateCommand && (
-            <span className={`text-[10px] flex-shrink-0 ${matchInfo.valid ? 'text-green-600' : 'text-red-500'}`}>
-              ({matchInfo.matchCount}处)
+            <span className={`text-[10px] flex-shrink-0 ${
+              matchInfo.valid ? 'text-green-600' : matchInfo.fuzzyScore !== undefined ? 'text-amber-600' : 'text-red-500'
+            }`}>
+              {matchInfo.fuzzyScore !== undefined ? '(近似)' : `(${matchInfo.matchCount}处)`}
             </span>
           )}
           {statusDisplay.icon}
@@ -461,8 +481,8 @@ export const ReplaceBlock = ({
                   isCreateCommand ? 'bg-purple-600 hover:bg-purple-700' : 'bg-green-600 hover:bg-green-700'
                 }`}
                 onClick={() => onAccept(command)}
-                disabled={isApplying || !hasValidMatch || command.status === 'error'}
-                title={isCreateCommand ? "创建" : "接受"}
+                disabled={isApplying || !hasValidMatch || !hasSelectedOccurrence || command.status === 'error'}
+                title={isCreateCommand ? "创建" : hasSelectedOccurrence ? "接受" : "请至少选择一处匹配"}
               >
                 {isApplying ? (
                   <Loader2 className="w-3 h-3 animate-spin" />
@@ -586,6 +606,54 @@ export const ReplaceBlock = ({
           </>
         )}
         
+        {/* 多处匹配：逐个定位并选择修改位置 */}
+        {occurrenceCount > 1 && onChangeOccurrences && (
+          <OccurrencePicker
+            count={occurrenceCount}
+            mode={command.commandType === 'insert' ? 'single' : 'multiple'}
+            selected={selectedOccurrences}
+            onLocate={(index) => onLocateOccurrence?.(command, index)}
+            onChange={(occurrences) => onChangeOccurrences(command, occurrences, occurrenceCount)}
+            disabled={isApplying}
+          />
+        )}
+
+        {/* 冲突：对比生成时的原文、当前文档与覆盖后的内容 */}
+        {pendingConflict && (
+          <div className="space-y-0.5">
+            {([
+              { label: '生成时的原文', text: pendingConflict.base, className: 'text-gray-600 border-gray-200 bg-gray-50' },
+              { label: '当前文档（已被改动）', text: pendingConflict.theirs, className: 'text-blue-700 border-blue-100 bg-blue-50/50' },
+              { label: '覆盖后', text: pendingConflict.ours, className: 'text-green-700 border-green-100 bg-green-50/50' }
+            ]).map(({ label, text, className }) => (
+              <div key={label} className="flex items-start gap-1">
+                <span className="w-1 h-1 rounded-full bg-orange-400 mt-1.5 flex-shrink-0"></span>
+                <div className="flex-1 min-w-0">
+                  <span className="text-[10px] text-orange-600 mr-1">{label}</span>
+                  <pre className={`text-[11px] px-1 py-0.5 rounded overflow-x-auto whitespace-pre-wrap break-all font-mono border leading-tight max-h-32 overflow-y-auto ${className}`}>
+                    {text || '(空)'}
+                  </pre>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* 模糊匹配候选：显示原文中的相似内容，确认后才应用 */}
+        {pendingFuzzyMatch && (
+          <div className="flex items-start gap-1">
+            <span className="w-1 h-1 rounded-full bg-amber-400 mt-1.5 flex-shrink-0"></span>
+            <div className="flex-1">
+              <span className="text-[10px] text-amber-600 mr-1">
+                原文相似内容（{formatFuzzyScore(pendingFuzzyMatch.score)}）
+              </span>
+              <pre className="text-[11px] text-amber-800 px-1 py-0.5 rounded overflow-x-auto whitespace-pre-wrap break-all font-mono border border-amber-100 leading-tight bg-amber-50/50">
+                {pendingFuzzyMatch.text}
+              </pre>
+            </div>
+          </div>
+        )}
+
         {/* 错误信息 */}
         {(command.errorMessage || (matchInfo && !matchInfo.valid)) && (
           <div className="flex items-center gap-1 text-[10px] text-red-600 bg-red-50 px-1 py-0.5 rounded">
@@ -595,8 +663,67 @@ export const ReplaceBlock = ({
         )}
       </div>
 
+      {/* 模糊匹配确认操作区 */}
+      {pendingFuzzyMatch && (
+        <div className="px-2 py-1 border-t border-gray-100 bg-white flex items-center justify-between text-[11px]">
+          <span className="text-gray-600">确认替换编辑器中高亮的相似内容？</span>
+          <div className="flex items-center gap-1.5">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-[11px] text-gray-600 border-gray-200 hover:bg-gray-50"
+              onClick={() => onReject(command)}
+              disabled={isApplying}
+            >
+              拒绝
+            </Button>
+            {onConfirmFuzzyMatch && (
+              <Button
+                size="sm"
+                className="h-6 px-2 text-[11px] text-white bg-amber-600 hover:bg-amber-700"
+                onClick={() => onConfirmFuzzyMatch(command)}
+                disabled={isApplying}
+                title="以原文中的相似内容作为搜索内容执行替换"
+              >
+                {isApplying ? <Loader2 className="w-3 h-3 animate-spin" /> : '确认应用'}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* 冲突处理操作区 */}
+      {pendingConflict && (
+        <div className="px-2 py-1 border-t border-gray-100 bg-white flex items-center justify-between text-[11px]">
+          <span className="text-gray-600">该处内容已被改动</span>
+          <div className="flex items-center gap-1.5">
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-6 px-2 text-[11px] text-gray-600 border-gray-200 hover:bg-gray-50"
+              onClick={() => onReject(command)}
+              disabled={isApplying}
+              title="放弃本次修改，保留文档中的当前内容"
+            >
+              保留当前内容
+            </Button>
+            {onOverwriteConflict && (
+              <Button
+                size="sm"
+                className="h-6 px-2 text-[11px] text-white bg-orange-600 hover:bg-orange-700"
+                onClick={() => onOverwriteConflict(command)}
+                disabled={isApplying || !pendingConflict.theirs.trim()}
+                title="用本次修改替换该区域的当前内容，与本次修改重叠的改动将被覆盖"
+              >
+                {isApplying ? <Loader2 className="w-3 h-3 animate-spin" /> : '用本次修改覆盖'}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* 已处理状态的操作区 */}
-      {!isEditable && (
+      {!isEditable && !pendingFuzzyMatch && !pendingConflict && (
         <div className="px-2 py-1 border-t border-gray-100 bg-white flex items-center justify-between text-[11px]">
           <div className="flex items-center gap-1 text-gray-600">
             {statusDisplay.icon}
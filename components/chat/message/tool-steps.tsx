@@ -0,0 +1,65 @@
+import { useState } from 'react'
+import { ChevronDown, ChevronRight, Wrench, Loader2, Check, X } from 'lucide-react'
+import { cn } from "~lib/utils"
+import type { AgentToolStep } from '~lib/agent-tools'
+
+interface ToolStepsProps {
+  steps: AgentToolStep[]
+}
+
+// 工具名称的中文展示
+const TOOL_LABELS: Record<string, string> = {
+  list_entities: '查看文件树',
+  read_file: '读取文件',
+  search_project: '搜索项目',
+  replace: '修改建议',
+  insert: '插入建议',
+  create_file: '新建文件'
+}
+
+/**
+ * Agent 工具调用步骤列表 - 显示在 AI 气泡顶部
+ */
+export const ToolSteps = ({ steps }: ToolStepsProps) => {
+  const [expanded, setExpanded] = useState(true)
+  if (steps.length === 0) return null
+
+  const running = steps.some(step => step.status === 'running')
+
+  return (
+    <div className="mb-2">
+      <button
+        onClick={() => setExpanded(!expanded)}
+        className={cn(
+          "flex items-center gap-1.5 text-xs font-medium transition-colors rounded px-2 py-1",
+          running
+            ? "text-blue-600 bg-blue-50 hover:bg-blue-100"
+            : "text-gray-500 bg-gray-50 hover:bg-gray-100"
+        )}
+      >
+        {expanded ? <ChevronDown className="w-3 h-3" /> : <ChevronRight className="w-3 h-3" />}
+        <Wrench className="w-3 h-3" />
+        <span>{running ? '调用工具中...' : `工具调用 ${steps.length} 次`}</span>
+      </button>
+
+      {expanded && (
+        <div className="mt-1.5 space-y-0.5 border-l-2 border-blue-200 pl-2">
+          {steps.map(step => (
+            <div key={step.id} className="flex items-center gap-1.5 text-[11px] text-gray-600 min-w-0">
+              {step.status === 'running' && <Loader2 className="w-3 h-3 text-blue-500 animate-spin flex-shrink-0" />}
+              {step.status === 'done' && <Check className="w-3 h-3 text-green-500 flex-shrink-0" />}
+              {step.status === 'error' && <X className="w-3 h-3 text-red-500 flex-shrink-0" />}
+              <span className="font-medium flex-shrink-0">{TOOL_LABELS[step.name] || step.name}</span>
+              {step.args && <span className="truncate text-gray-500" title={step.args}>{step.args}</span>}
+              {step.summary && (
+                <span className={cn("flex-shrink-0", step.status === 'error' ? "text-red-500" : "text-gray-400")}>
+                  · {step.summary}
+                </span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,10 +1,11 @@
 import { useState } from "react"
 import { Button } from "~components/ui/button"
 import { ScrollArea } from "~components/ui/scroll-area"
-import { X, Settings, Server, Palette, Shield, SlidersHorizontal } from "lucide-react"
+import { X, Settings, Server, Palette, Shield, SlidersHorizontal, Receipt } from "lucide-react"
 import { useSettings } from "~hooks/useSettings"
 import { ModelServiceSettings } from "./settings/model-service-settings"
 import { ModelParamsSettings } from "./settings/model-params-settings"
+import { UsageSettings } from "./settings/usage-settings"
 import { cn } from "~lib/utils"
 
 interface SettingsPanelProps {
@@ -32,6 +33,12 @@ const settingsCategories: SettingsCategory[] = [
     icon: SlidersHorizontal,
     description: "温度与最大回复长度"
   },
+  {
+    id: "usage",
+    name: "用量统计",
+    icon: Receipt,
+    description: "token 用量、花费与价格表"
+  },
   {
     id: "appearance",
     name: "外观设置",
@@ -61,6 +68,8 @@ export const SettingsPanel = ({ onClose }: SettingsPanelProps) => {
         return <ModelServiceSettings />
       case "model-params":
         return <ModelParamsSettings />
+      case "usage":
+        return <UsageSettings />
       case "appearance":
         return <div className="p-4 text-center text-sm text-gray-500">外观设置功能开发中...</div>
       case "privacy":
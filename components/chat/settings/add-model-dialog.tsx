@@ -1,26 +1,41 @@
 import { useState, useEffect, useRef } from "react"
 import { Button } from "~components/ui/button"
 import { Input } from "~components/ui/input"
+import { Checkbox } from "~components/ui/checkbox"
+import { SimpleSelect } from "~components/ui/simple-select"
 import { X, HelpCircle, Loader2, ChevronDown } from "lucide-react"
 import { useSettings } from "~hooks/useSettings"
-import type { CustomProvider } from "~store/types"
+import type { CustomModel, CustomProvider } from "~store/types"
 import { fetchProviderModels } from "~lib/api-client"
+import { getProviderBaseUrl } from "~lib/providers"
+import { resolveModelCapabilities, type ModelCapabilities, type ProviderModelInfo } from "~lib/model-capabilities"
 import { cn } from "~lib/utils"
 
+const apiFormatOptions = [
+  { value: "", label: "跟随供应商" },
+  { value: "openai", label: "OpenAI 兼容" },
+  { value: "claude", label: "Anthropic" },
+  { value: "gemini", label: "Gemini" }
+]
+
 interface AddModelDialogProps {
   provider: CustomProvider
   onClose: () => void
 }
 
 export const AddModelDialog = ({ provider, onClose }: AddModelDialogProps) => {
-  const { addCustomModel, apiKeys } = useSettings()
+  const { addCustomModel, apiKeys, baseUrls } = useSettings()
   const [formData, setFormData] = useState({
     modelId: "",
     displayName: ""
   })
   const [errors, setErrors] = useState<Record<string, string>>({})
-  const [availableModels, setAvailableModels] = useState<{ id: string; name: string }[]>([])
-  const [filteredModels, setFilteredModels] = useState<{ id: string; name: string }[]>([])
+  const [availableModels, setAvailableModels] = useState<ProviderModelInfo[]>([])
+  const [filteredModels, setFilteredModels] = useState<ProviderModelInfo[]>([])
+  // 模型能力：未手动修改时根据接口元数据与模型名称自动填写
+  const [capabilities, setCapabilities] = useState<ModelCapabilities>({})
+  const [apiFormat, setApiFormat] = useState("")
+  const [capabilitiesTouched, setCapabilitiesTouched] = useState(false)
   const [isLoadingModels, setIsLoadingModels] = useState(false)
   const [showDropdown, setShowDropdown] = useState(false)
   const dropdownRef = useRef<HTMLDivElement>(null)
@@ -29,14 +44,16 @@ export const AddModelDialog = ({ provider, onClose }: AddModelDialogProps) => {
   // 获取模型列表
   useEffect(() => {
     const loadModels = async () => {
-      const apiKey = apiKeys[provider.name] || apiKeys[provider.id]
-      if (!apiKey || !provider.baseUrl) {
+      const apiKey = apiKeys[provider.name] || apiKeys[provider.id] || ""
+      const baseUrl = getProviderBaseUrl(provider, baseUrls)
+      // 本地服务无需 API Key 即可获取模型列表
+      if ((!apiKey && provider.requiresApiKey !== false) || !baseUrl) {
         return
       }
 
       setIsLoadingModels(true)
       try {
-        const models = await fetchProviderModels(provider.baseUrl, apiKey)
+        const models = await fetchProviderModels(baseUrl, apiKey, provider.apiFormat)
         setAvailableModels(models)
         setFilteredModels(models)
       } catch (error) {
@@ -47,7 +64,31 @@ export const AddModelDialog = ({ provider, onClose }: AddModelDialogProps) => {
     }
 
     loadModels()
-  }, [provider, apiKeys])
+  }, [provider, apiKeys, baseUrls])
+
+  // 模型ID变化时自动填写能力
+  useEffect(() => {
+    if (capabilitiesTouched) return
+    const modelId = formData.modelId.trim()
+    const info = availableModels.find(model => model.id === modelId)
+    if (!modelId) {
+      setCapabilities({})
+      return
+    }
+    const resolved = resolveModelCapabilities(modelId, info)
+    // 本地服务是否支持工具调用取决于启动参数，只采用接口元数据，不按名称推断
+    setCapabilities(provider.isLocal ? { ...resolved, supportsTools: info?.supportsTools } : resolved)
+  }, [formData.modelId, availableModels, capabilitiesTouched, provider.isLocal])
+
+  const updateCapabilities = (patch: Partial<ModelCapabilities>) => {
+    setCapabilitiesTouched(true)
+    setCapabilities(prev => ({ ...prev, ...patch }))
+  }
+
+  const parseTokenLimit = (value: string): number | undefined => {
+    const parsed = parseInt(value, 10)
+    return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+  }
 
   // 点击外部关闭下拉列表
   useEffect(() => {
@@ -211,12 +252,17 @@ export const AddModelDialog = ({ provider, onClose }: AddModelDialogProps) => {
   const handleSubmit = () => {
     if (!validateForm()) return
 
-    const newModel = {
+    const newModel: CustomModel = {
       id: `${provider.id}-${Date.now()}`, // 生成唯一ID
       modelName: formData.modelId.trim(),
       displayName: formData.displayName.trim(),
       providerId: provider.id,
-      isCustom: true
+      isCustom: true,
+      multimodal: capabilities.multimodal ?? false,
+      contextWindow: capabilities.contextWindow,
+      maxOutputTokens: capabilities.maxOutputTokens,
+      supportsTools: capabilities.supportsTools,
+      ...(apiFormat ? { apiFormat: apiFormat as CustomModel["apiFormat"] } : {})
     }
 
     addCustomModel(newModel)
@@ -345,6 +391,60 @@ export const AddModelDialog = ({ provider, onClose }: AddModelDialogProps) => {
             )}
           </div>
 
+          {/* 模型能力 */}
+          <div className="space-y-2">
+            <div className="text-sm font-medium text-gray-700">
+              模型能力
+              {!capabilitiesTouched && formData.modelId.trim() && (
+                <span className="ml-2 text-xs font-normal text-gray-400">已根据模型信息自动填写</span>
+              )}
+            </div>
+            <div className="flex items-center gap-4">
+              <label className="flex items-center gap-1.5 text-xs text-gray-700 cursor-pointer">
+                <Checkbox
+                  checked={!!capabilities.multimodal}
+                  onCheckedChange={(checked) => updateCapabilities({ multimodal: checked === true })}
+                />
+                图片输入
+              </label>
+              <label className="flex items-center gap-1.5 text-xs text-gray-700 cursor-pointer">
+                <Checkbox
+                  checked={!!capabilities.supportsTools}
+                  onCheckedChange={(checked) => updateCapabilities({ supportsTools: checked === true })}
+                />
+                工具调用
+              </label>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <div>
+                <div className="text-xs text-gray-500 mb-1">上下文窗口</div>
+                <Input
+                  type="number"
+                  min={1}
+                  value={capabilities.contextWindow ?? ""}
+                  placeholder="自动"
+                  onChange={(e) => updateCapabilities({ contextWindow: parseTokenLimit(e.target.value) })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div>
+                <div className="text-xs text-gray-500 mb-1">最大输出</div>
+                <Input
+                  type="number"
+                  min={1}
+                  value={capabilities.maxOutputTokens ?? ""}
+                  placeholder="自动"
+                  onChange={(e) => updateCapabilities({ maxOutputTokens: parseTokenLimit(e.target.value) })}
+                  className="h-8 text-xs"
+                />
+              </div>
+              <div>
+                <div className="text-xs text-gray-500 mb-1">接口格式</div>
+                <SimpleSelect value={apiFormat} onValueChange={setApiFormat} options={apiFormatOptions} />
+              </div>
+            </div>
+          </div>
+
           {/* 说明 */}
           <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg">
             <div className="text-sm text-blue-800">
@@ -0,0 +1,84 @@
+import { useMemo } from "react"
+import { ArrowDown, ArrowUp, X } from "lucide-react"
+import { Button } from "~components/ui/button"
+import { Label } from "~components/ui/label"
+import { SimpleSelect } from "~components/ui/simple-select"
+import { useSettings } from "~hooks/useSettings"
+import { useModels } from "~hooks/useModels"
+
+// 备用模型链设置：主模型重试失败后按顺序尝试
+export const FallbackModelsSettings = () => {
+  const { fallbackModels, setFallbackModels } = useSettings()
+  const { allModels } = useModels()
+
+  const chain = useMemo(
+    () => fallbackModels.map(id => ({ id, model: allModels.find(model => model.id === id) })),
+    [fallbackModels, allModels]
+  )
+
+  const addOptions = useMemo(
+    () => allModels
+      .filter(model => !fallbackModels.includes(model.id))
+      .map(model => ({ value: model.id, label: `${model.display_name} · ${model.providerDisplayName}` })),
+    [allModels, fallbackModels]
+  )
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= fallbackModels.length) return
+    const next = [...fallbackModels]
+    ;[next[index], next[target]] = [next[target], next[index]]
+    setFallbackModels(next)
+  }
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 shadow-sm bg-white">
+      <div className="mb-3">
+        <Label className="text-sm font-medium text-gray-800">备用模型</Label>
+        <p className="text-xs text-gray-500">
+          遇到限流（429）或服务端错误（5xx）时先退避重试，仍失败则按顺序改用以下模型。
+        </p>
+      </div>
+
+      <div className="space-y-1.5">
+        {chain.map(({ id, model }, index) => (
+          <div key={id} className="flex items-center gap-2 rounded border border-gray-100 px-2 py-1">
+            <span className="text-xs text-gray-400 w-4">{index + 1}</span>
+            <span className="flex-1 text-xs text-gray-800 truncate" title={id}>
+              {model ? `${model.display_name} · ${model.providerDisplayName}` : `${id}（不可用）`}
+            </span>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === 0} onClick={() => move(index, -1)} title="上移">
+              <ArrowUp className="w-3 h-3" />
+            </Button>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" disabled={index === chain.length - 1} onClick={() => move(index, 1)} title="下移">
+              <ArrowDown className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 text-gray-400 hover:text-red-500"
+              onClick={() => setFallbackModels(fallbackModels.filter(item => item !== id))}
+              title="移除"
+            >
+              <X className="w-3 h-3" />
+            </Button>
+          </div>
+        ))}
+        {chain.length === 0 && (
+          <div className="text-xs text-gray-500">未配置备用模型，主模型失败时直接显示错误。</div>
+        )}
+      </div>
+
+      {addOptions.length > 0 && (
+        <div className="mt-3">
+          <SimpleSelect
+            value=""
+            onValueChange={(id) => setFallbackModels([...fallbackModels, id])}
+            options={addOptions}
+            placeholder="添加备用模型..."
+          />
+        </div>
+      )}
+    </div>
+  )
+}
@@ -4,6 +4,11 @@ import { Input } from "~components/ui/input"
 import { Label } from "~components/ui/label"
 import { useSettings } from "~hooks/useSettings"
 import { cn } from "~lib/utils"
+import { FallbackModelsSettings } from "./fallback-models-settings"
+import { ModelProfileSettings } from "./model-profile-settings"
+
+// 最大回复长度上限，覆盖 128k 输出的模型
+const MAX_OUTPUT_TOKENS = 131072
 
 const temperaturePresets = [
   { label: "精准", value: 0.2, hint: "更保守，适合代码/公式" },
@@ -38,7 +43,7 @@ export const ModelParamsSettings = () => {
   }
 
   const handleMaxTokensChange = (value: number) => {
-    const clamped = Math.min(32768, Math.max(256, Math.floor(Number.isFinite(value) ? value : 16384)))
+    const clamped = Math.min(MAX_OUTPUT_TOKENS, Math.max(256, Math.floor(Number.isFinite(value) ? value : 16384)))
     setLocalMaxTokens(clamped)
     setMaxTokens(clamped)
   }
@@ -49,7 +54,7 @@ export const ModelParamsSettings = () => {
         <div>
           <h3 className="text-lg font-semibold text-gray-900">对话参数</h3>
           <p className="text-sm text-gray-500 mt-1">
-            自定义模型生成的温度与最大回复长度，实时生效。
+            自定义模型生成的温度、最大回复长度、单模型参数与备用模型，实时生效。
           </p>
         </div>
 
@@ -121,13 +126,13 @@ export const ModelParamsSettings = () => {
               <Input
                 type="number"
                 min={256}
-                max={32768}
+                max={MAX_OUTPUT_TOKENS}
                 step={256}
                 value={localMaxTokens}
                 onChange={(e) => handleMaxTokensChange(parseInt(e.target.value, 10))}
                 className="w-28"
               />
-              <span className="text-xs text-gray-500">256 - 32768</span>
+              <span className="text-xs text-gray-500">256 - {MAX_OUTPUT_TOKENS}</span>
             </div>
           </div>
 
@@ -135,7 +140,7 @@ export const ModelParamsSettings = () => {
             <input
               type="range"
               min={256}
-              max={32768}
+              max={MAX_OUTPUT_TOKENS}
               step={256}
               value={localMaxTokens}
               onChange={(e) => handleMaxTokensChange(parseInt(e.target.value, 10))}
@@ -146,6 +151,12 @@ export const ModelParamsSettings = () => {
             </div>
           </div>
         </div>
+
+        {/* 单模型参数 */}
+        <ModelProfileSettings />
+
+        {/* 备用模型链 */}
+        <FallbackModelsSettings />
       </div>
     </div>
   )
@@ -0,0 +1,245 @@
+import { useEffect, useMemo, useState } from "react"
+import { Button } from "~components/ui/button"
+import { Input } from "~components/ui/input"
+import { Label } from "~components/ui/label"
+import { SimpleSelect } from "~components/ui/simple-select"
+import { Textarea } from "~components/ui/textarea"
+import { useSettings } from "~hooks/useSettings"
+import { useModels } from "~hooks/useModels"
+import { getMaxOutputTokens } from "~lib/context-window"
+import type { ModelParams } from "~store/types"
+
+const reasoningEffortOptions = [
+  { value: "", label: "默认" },
+  { value: "minimal", label: "minimal" },
+  { value: "low", label: "low" },
+  { value: "medium", label: "medium" },
+  { value: "high", label: "high" }
+]
+
+const streamUsageOptions = [
+  { value: "", label: "自动（不支持时不再发送）" },
+  { value: "on", label: "发送" },
+  { value: "off", label: "不发送" }
+]
+
+// 解析可选数字输入，空值表示沿用默认
+const parseOptionalNumber = (value: string, integer = false): number | undefined => {
+  if (value.trim() === "") return undefined
+  const parsed = integer ? parseInt(value, 10) : parseFloat(value)
+  return Number.isFinite(parsed) ? parsed : undefined
+}
+
+// 校验额外请求体，返回错误信息
+const validateExtraBody = (text: string): string | null => {
+  if (!text.trim()) return null
+  try {
+    const parsed = JSON.parse(text)
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? null : "需要是 JSON 对象"
+  } catch {
+    return "JSON 格式错误"
+  }
+}
+
+// 单模型参数：覆盖全局温度与最大长度，并提供 top_p、停止词、推理强度等高级参数
+export const ModelProfileSettings = () => {
+  const { modelParams, setModelParams, selectedModel, modelTemperature, maxTokens } = useSettings()
+  const { allModels } = useModels()
+
+  const [modelId, setModelId] = useState<string>(selectedModel?.id || allModels[0]?.id || "")
+  const model = allModels.find(item => item.id === modelId)
+  const params: ModelParams = modelParams[modelId] || {}
+
+  // 停止词与额外字段在本地编辑，合法后再写入
+  const [stopText, setStopText] = useState("")
+  const [extraBodyText, setExtraBodyText] = useState("")
+  useEffect(() => {
+    setStopText((params.stop || []).join("\n"))
+    setExtraBodyText(params.extraBody || "")
+  }, [modelId])
+
+  const modelOptions = useMemo(
+    () => allModels.map(item => ({
+      value: item.id,
+      label: `${item.display_name} · ${item.providerDisplayName}${modelParams[item.id] ? " ●" : ""}`
+    })),
+    [allModels, modelParams]
+  )
+
+  const extraBodyError = validateExtraBody(extraBodyText)
+  const modelMaxOutput = getMaxOutputTokens(model)
+  const isConfigured = Object.keys(params).length > 0
+
+  const updateParams = (patch: Partial<ModelParams>) => {
+    const next: ModelParams = { ...params, ...patch }
+    // 去掉未设置的字段，全部为空时删除该模型的配置
+    const cleaned = Object.fromEntries(
+      Object.entries(next).filter(([, value]) => value !== undefined && value !== "")
+    ) as ModelParams
+    const { [modelId]: _removed, ...rest } = modelParams
+    setModelParams(Object.keys(cleaned).length > 0 ? { ...rest, [modelId]: cleaned } : rest)
+  }
+
+  const handleStopChange = (value: string) => {
+    setStopText(value)
+    const stop = value.split("\n").filter(line => line.length > 0)
+    updateParams({ stop: stop.length > 0 ? stop : undefined })
+  }
+
+  const handleExtraBodyChange = (value: string) => {
+    setExtraBodyText(value)
+    if (!validateExtraBody(value)) {
+      updateParams({ extraBody: value.trim() ? value : undefined })
+    }
+  }
+
+  const handleReset = () => {
+    const { [modelId]: _removed, ...rest } = modelParams
+    setModelParams(rest)
+    setStopText("")
+    setExtraBodyText("")
+  }
+
+  const isOpenAIFormat = (model?.api_format || "openai") === "openai"
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 shadow-sm bg-white">
+      <div className="flex items-start justify-between mb-3">
+        <div>
+          <Label className="text-sm font-medium text-gray-800">单模型参数</Label>
+          <p className="text-xs text-gray-500">为指定模型单独设置生成参数，留空则沿用全局设置或接口默认值。</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleReset}
+          disabled={!isConfigured}
+          className="h-7 px-2 text-xs"
+        >
+          重置
+        </Button>
+      </div>
+
+      {allModels.length === 0 ? (
+        <div className="text-xs text-gray-500">暂无模型，请先在「模型服务」中添加。</div>
+      ) : (
+        <div className="space-y-3">
+          <SimpleSelect value={modelId} onValueChange={setModelId} options={modelOptions} placeholder="选择模型" />
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">温度</Label>
+              <Input
+                type="number"
+                min={0}
+                max={2}
+                step={0.05}
+                value={params.temperature ?? ""}
+                placeholder={`全局 ${modelTemperature}`}
+                onChange={(e) => updateParams({ temperature: parseOptionalNumber(e.target.value) })}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">最大回复长度</Label>
+              <Input
+                type="number"
+                min={1}
+                step={1024}
+                value={params.maxTokens ?? ""}
+                placeholder={`全局 ${maxTokens}`}
+                onChange={(e) => updateParams({ maxTokens: parseOptionalNumber(e.target.value, true) })}
+                className="h-8 text-xs"
+              />
+              {modelMaxOutput && (
+                <p className="text-[11px] text-gray-400">该模型最多输出约 {modelMaxOutput} token</p>
+              )}
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">Top P</Label>
+              <Input
+                type="number"
+                min={0}
+                max={1}
+                step={0.05}
+                value={params.topP ?? ""}
+                placeholder="默认"
+                onChange={(e) => updateParams({ topP: parseOptionalNumber(e.target.value) })}
+                className="h-8 text-xs"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs text-gray-600">Seed</Label>
+              <Input
+                type="number"
+                step={1}
+                value={params.seed ?? ""}
+                placeholder="随机"
+                onChange={(e) => updateParams({ seed: parseOptionalNumber(e.target.value, true) })}
+                className="h-8 text-xs"
+              />
+            </div>
+            {isOpenAIFormat ? (
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-600">推理强度 (reasoning_effort)</Label>
+                <SimpleSelect
+                  value={params.reasoningEffort ?? ""}
+                  onValueChange={(value) => updateParams({
+                    reasoningEffort: (value || undefined) as ModelParams["reasoningEffort"]
+                  })}
+                  options={reasoningEffortOptions}
+                />
+              </div>
+            ) : (
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-600">思考预算 (token)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  step={1024}
+                  value={params.thinkingBudget ?? ""}
+                  placeholder={model?.api_format === "claude" ? "不开启" : "默认"}
+                  onChange={(e) => updateParams({ thinkingBudget: parseOptionalNumber(e.target.value, true) })}
+                  className="h-8 text-xs"
+                />
+              </div>
+            )}
+            {isOpenAIFormat && (
+              <div className="space-y-1">
+                <Label className="text-xs text-gray-600">流式返回用量 (stream_options)</Label>
+                <SimpleSelect
+                  value={params.streamUsage === undefined ? "" : params.streamUsage ? "on" : "off"}
+                  onValueChange={(value) => updateParams({
+                    streamUsage: value === "" ? undefined : value === "on"
+                  })}
+                  options={streamUsageOptions}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">停止词（每行一个）</Label>
+            <Textarea
+              value={stopText}
+              onChange={(e) => handleStopChange(e.target.value)}
+              placeholder="例如：\end{document}"
+              className="min-h-[56px] text-xs font-mono"
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label className="text-xs text-gray-600">额外请求参数（JSON，合并到请求体）</Label>
+            <Textarea
+              value={extraBodyText}
+              onChange={(e) => handleExtraBodyChange(e.target.value)}
+              placeholder={'例如：{"enable_thinking": true}'}
+              className="min-h-[72px] text-xs font-mono"
+            />
+            {extraBodyError && <p className="text-[11px] text-red-500">{extraBodyError}，未保存</p>}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
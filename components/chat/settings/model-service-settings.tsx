@@ -3,11 +3,12 @@ import { Button } from "~components/ui/button"
 import { Input } from "~components/ui/input"
 import { ScrollArea } from "~components/ui/scroll-area"
 import { Switch } from "~components/ui/switch"
-import { Plus, Eye, EyeOff, Trash2, Edit, Pin, PinOff } from "lucide-react"
+import { Plus, Eye, EyeOff, Trash2, Edit, Pin, PinOff, Loader2, Plug } from "lucide-react"
 import { useSettings } from "~hooks/useSettings"
 import { useModels } from "~hooks/useModels"
 import { useDialog } from "~components/ui/dialog"
-import { builtinProviders, getAllProviders } from "~lib/providers"
+import { builtinProviders, getAllProviders, getProviderBaseUrl } from "~lib/providers"
+import { checkProviderConnection, type ConnectionCheckResult } from "~lib/api-client"
 import { AddModelDialog } from "./add-model-dialog"
 import { AddProviderDialog } from "./add-provider-dialog"
 import { EditProviderDialog } from "./edit-provider-dialog"
@@ -17,11 +18,13 @@ export const ModelServiceSettings = () => {
   const {
     apiKeys,
     setApiKey,
+    baseUrls,
+    setBaseUrl,
     customProviders,
     removeCustomProvider,
     removeCustomModel,
     isProviderEnabled,
-    toggleProviderEnabled
+    setProviderEnabled
   } = useSettings()
 
   const { allModels = [], handleTogglePin } = useModels()
@@ -34,6 +37,9 @@ export const ModelServiceSettings = () => {
   const [showEditProvider, setShowEditProvider] = useState(false)
   const [editingProvider, setEditingProvider] = useState<any>(null)
   const [localApiKeys, setLocalApiKeys] = useState<Record<string, string>>(apiKeys)
+  const [localBaseUrls, setLocalBaseUrls] = useState<Record<string, string>>({})
+  const [connectionResults, setConnectionResults] = useState<Record<string, ConnectionCheckResult>>({})
+  const [checkingProvider, setCheckingProvider] = useState<string | null>(null)
 
   const allProviders = getAllProviders(customProviders)
   const currentProvider = allProviders.find(p => p.id === selectedProvider)
@@ -59,6 +65,29 @@ export const ModelServiceSettings = () => {
     }
   }
 
+  // 本地服务的 Base URL 可修改，按供应商名称保存
+  const handleBaseUrlSave = (providerId: string) => {
+    const provider = allProviders.find(p => p.id === providerId)
+    const baseUrl = localBaseUrls[providerId]?.trim()
+    if (provider && baseUrl) {
+      setBaseUrl(provider.name, baseUrl.replace(/\/+$/, ""))
+    }
+  }
+
+  // 检测连接：请求模型列表接口
+  const handleCheckConnection = async (providerId: string) => {
+    const provider = allProviders.find(p => p.id === providerId)
+    if (!provider) return
+    setCheckingProvider(providerId)
+    try {
+      const apiKey = apiKeys[provider.name] || apiKeys[provider.id] || ""
+      const result = await checkProviderConnection(getProviderBaseUrl(provider, baseUrls), apiKey, provider.apiFormat)
+      setConnectionResults(prev => ({ ...prev, [providerId]: result }))
+    } finally {
+      setCheckingProvider(null)
+    }
+  }
+
   const toggleShowApiKey = (providerId: string) => {
     setShowApiKeys(prev => ({ ...prev, [providerId]: !prev[providerId] }))
   }
@@ -128,7 +157,7 @@ export const ModelServiceSettings = () => {
                         ? "text-green-600 bg-green-50"
                         : "text-blue-600 bg-blue-50"
                     )}>
-                      {provider.isCustom ? "自定义" : "内置"}
+                      {provider.isCustom ? "自定义" : provider.isLocal ? "本地" : "内置"}
                     </span>
                   </div>
                   <div className="flex items-center gap-1 ml-2">
@@ -150,7 +179,7 @@ export const ModelServiceSettings = () => {
                       <Switch
                         checked={isProviderEnabled(provider.id)}
                         onCheckedChange={(checked) => {
-                          toggleProviderEnabled(provider.id)
+                          setProviderEnabled(provider.id, checked)
                         }}
                         size="sm"
                         className="mr-1"
@@ -183,15 +212,68 @@ export const ModelServiceSettings = () => {
                   </Button>
                 )}
               </div>
-              <div className="text-xs text-gray-500">
-                Base URL: {currentProvider.baseUrl}
+              {currentProvider.isLocal ? (
+                <div className="flex gap-2 items-center">
+                  <span className="text-xs text-gray-500 flex-shrink-0">Base URL:</span>
+                  <Input
+                    value={localBaseUrls[currentProvider.id] ?? getProviderBaseUrl(currentProvider, baseUrls)}
+                    onChange={(e) => setLocalBaseUrls(prev => ({ ...prev, [currentProvider.id]: e.target.value }))}
+                    placeholder={currentProvider.baseUrl}
+                    className="h-8 text-xs"
+                  />
+                  <Button
+                    size="sm"
+                    onClick={() => handleBaseUrlSave(currentProvider.id)}
+                    disabled={!localBaseUrls[currentProvider.id]?.trim() || localBaseUrls[currentProvider.id] === getProviderBaseUrl(currentProvider, baseUrls)}
+                  >
+                    保存
+                  </Button>
+                </div>
+              ) : (
+                <div className="text-xs text-gray-500">
+                  Base URL: {currentProvider.baseUrl}
+                </div>
+              )}
+
+              {/* 连接检测 */}
+              <div className="flex items-center gap-2 mt-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleCheckConnection(currentProvider.id)}
+                  disabled={checkingProvider === currentProvider.id}
+                  className="h-7 text-xs"
+                >
+                  {checkingProvider === currentProvider.id ? (
+                    <Loader2 className="h-3 w-3 mr-1 animate-spin" />
+                  ) : (
+                    <Plug className="h-3 w-3 mr-1" />
+                  )}
+                  检测连接
+                </Button>
+                {connectionResults[currentProvider.id] && checkingProvider !== currentProvider.id && (
+                  connectionResults[currentProvider.id].ok ? (
+                    <span className="text-xs text-green-600">
+                      连接正常 · {connectionResults[currentProvider.id].models.length} 个模型 · {connectionResults[currentProvider.id].latency}ms
+                    </span>
+                  ) : (
+                    <span className="text-xs text-red-600 truncate" title={connectionResults[currentProvider.id].error}>
+                      连接失败：{connectionResults[currentProvider.id].error}
+                    </span>
+                  )
+                )}
               </div>
+              {currentProvider.isLocal && connectionResults[currentProvider.id]?.ok === false && (
+                <div className="text-xs text-gray-500 mt-1">
+                  请确认本地服务已启动且地址正确；Ollama 需设置环境变量 OLLAMA_ORIGINS（如 *）以允许浏览器跨域访问，LM Studio 需在服务设置中开启 CORS。
+                </div>
+              )}
             </div>
 
             {/* API Key 配置 */}
             <div className="p-4 border-b border-gray-200">
               <label className="text-sm font-medium text-gray-700 mb-2 block">
-                API Key
+                {currentProvider.requiresApiKey === false ? "API Key（可选）" : "API Key"}
               </label>
               <div className="flex gap-2">
                 <div className="relative flex-1">
@@ -199,7 +281,7 @@ export const ModelServiceSettings = () => {
                     type={showApiKeys[currentProvider.id] ? "text" : "password"}
                     value={localApiKeys[currentProvider.id] || apiKeys[currentProvider.name] || ""}
                     onChange={(e) => handleApiKeyChange(currentProvider.id, e.target.value)}
-                    placeholder="输入 API Key"
+                    placeholder={currentProvider.requiresApiKey === false ? "本地服务通常无需 API Key" : "输入 API Key"}
                     className="pr-10"
                     autoComplete="off"
                     data-form-type="other"
@@ -0,0 +1,195 @@
+import { useMemo } from "react"
+import { Button } from "~components/ui/button"
+import { Input } from "~components/ui/input"
+import { Label } from "~components/ui/label"
+import { SimpleSelect } from "~components/ui/simple-select"
+import { useSettings } from "~hooks/useSettings"
+import { useModels } from "~hooks/useModels"
+import { useChatHistory } from "~hooks/useChatHistory"
+import { getProjectId } from "~contents/api"
+import { formatTokenCount } from "~lib/context-budget"
+import { formatCosts, getDefaultModelPrice, sumUsage, type UsageTotals } from "~lib/usage"
+import type { ModelPrice } from "~store/types"
+import { cn } from "~lib/utils"
+
+const currencyOptions = [
+  { value: "USD", label: "USD ($)" },
+  { value: "CNY", label: "CNY (¥)" }
+]
+
+// 用量汇总卡片
+const UsageSummary = ({ title, totals, highlight }: { title: string; totals: UsageTotals; highlight?: boolean }) => (
+  <div className={cn("border rounded-lg p-3 bg-white", highlight ? "border-blue-300" : "border-gray-200")}>
+    <div className="text-xs text-gray-500 truncate" title={title}>{title}</div>
+    <div className="text-lg font-semibold text-gray-900 mt-1">{formatCosts(totals.cost)}</div>
+    <div className="text-[11px] text-gray-500 mt-1">
+      {totals.requests} 次请求 · 输入 {formatTokenCount(totals.inputTokens)}
+      {totals.cachedInputTokens > 0 && `（缓存 ${formatTokenCount(totals.cachedInputTokens)}）`}
+      {" "}· 输出 {formatTokenCount(totals.outputTokens)}
+    </div>
+  </div>
+)
+
+export const UsageSettings = () => {
+  const { modelPrices, setModelPrices } = useSettings()
+  const { allModels } = useModels()
+  // 不按项目过滤，读取全部历史用于统计
+  const { chatHistories, isLoading } = useChatHistory()
+  const currentProjectId = getProjectId()
+
+  // 按项目汇总，旧记录缺少汇总时按消息重新计算
+  const { overall, projects } = useMemo(() => {
+    const byProject = new Map<string, { chats: number; totals: UsageTotals[] }>()
+    const chatTotals = chatHistories.map(history => {
+      const totals = history.usage ?? sumUsage(history.messages.map(msg => msg.usage))
+      const key = history.projectId || ""
+      const entry = byProject.get(key) || { chats: 0, totals: [] }
+      entry.chats += 1
+      entry.totals.push(totals)
+      byProject.set(key, entry)
+      return totals
+    })
+    return {
+      overall: sumUsage(chatTotals),
+      projects: Array.from(byProject.entries())
+        .map(([projectId, entry]) => ({ projectId, chats: entry.chats, totals: sumUsage(entry.totals) }))
+        .filter(project => project.totals.requests > 0)
+        .sort((a, b) => b.totals.requests - a.totals.requests)
+    }
+  }, [chatHistories])
+
+  // 去重后的模型名称
+  const modelNames = useMemo(
+    () => Array.from(new Set(allModels.map(model => model.model_name))).sort(),
+    [allModels]
+  )
+
+  const updatePrice = (modelName: string, patch: Partial<ModelPrice>) => {
+    const base = modelPrices[modelName] ?? getDefaultModelPrice(modelName) ?? { input: 0, output: 0, currency: "USD" as const }
+    setModelPrices({ ...modelPrices, [modelName]: { ...base, ...patch } })
+  }
+
+  const resetPrice = (modelName: string) => {
+    const { [modelName]: _removed, ...rest } = modelPrices
+    setModelPrices(rest)
+  }
+
+  const parsePrice = (value: string): number => {
+    const parsed = parseFloat(value)
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0
+  }
+
+  return (
+    <div className="h-full overflow-auto">
+      <div className="p-6 space-y-6">
+        <div>
+          <h3 className="text-lg font-semibold text-gray-900">用量与费用</h3>
+          <p className="text-sm text-gray-500 mt-1">
+            根据接口返回的 token 用量与下方价格表估算花费，仅统计已保存的聊天历史。
+          </p>
+        </div>
+
+        {/* 花费汇总 */}
+        {isLoading ? (
+          <div className="text-sm text-gray-500">加载中...</div>
+        ) : (
+          <div className="space-y-3">
+            <UsageSummary title="全部项目" totals={overall} />
+            {projects.length > 0 && (
+              <div className="grid grid-cols-2 gap-3">
+                {projects.map(project => (
+                  <UsageSummary
+                    key={project.projectId || "unknown"}
+                    title={`${project.projectId === currentProjectId ? "当前项目" : "项目"} ${project.projectId || "（未记录）"} · ${project.chats} 个对话`}
+                    totals={project.totals}
+                    highlight={project.projectId === currentProjectId}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* 价格表 */}
+        <div className="border border-gray-200 rounded-lg p-4 shadow-sm bg-white">
+          <div className="mb-3">
+            <Label className="text-sm font-medium text-gray-800">价格表（每百万 token）</Label>
+            <p className="text-xs text-gray-500">
+              未配置的模型使用内置参考价格；价格变更只影响之后的回复。
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="grid grid-cols-[1fr_80px_80px_80px_100px_56px] gap-2 text-[11px] text-gray-500 px-1">
+              <span>模型</span>
+              <span>输入</span>
+              <span>缓存输入</span>
+              <span>输出</span>
+              <span>币种</span>
+              <span />
+            </div>
+            {modelNames.map(modelName => {
+              const custom = modelPrices[modelName]
+              const price = custom ?? getDefaultModelPrice(modelName)
+              return (
+                <div key={modelName} className="grid grid-cols-[1fr_80px_80px_80px_100px_56px] gap-2 items-center">
+                  <span className="text-xs text-gray-800 truncate" title={modelName}>
+                    {modelName}
+                    {!custom && price && <span className="ml-1 text-[10px] text-gray-400">内置</span>}
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price?.input ?? ""}
+                    placeholder="—"
+                    onChange={(e) => updatePrice(modelName, { input: parsePrice(e.target.value) })}
+                    className="h-7 text-xs"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price?.cachedInput ?? ""}
+                    placeholder="同输入"
+                    onChange={(e) => updatePrice(modelName, {
+                      cachedInput: e.target.value === "" ? undefined : parsePrice(e.target.value)
+                    })}
+                    className="h-7 text-xs"
+                  />
+                  <Input
+                    type="number"
+                    min={0}
+                    step={0.01}
+                    value={price?.output ?? ""}
+                    placeholder="—"
+                    onChange={(e) => updatePrice(modelName, { output: parsePrice(e.target.value) })}
+                    className="h-7 text-xs"
+                  />
+                  <SimpleSelect
+                    value={price?.currency ?? "USD"}
+                    onValueChange={(value) => updatePrice(modelName, { currency: value as ModelPrice["currency"] })}
+                    options={currencyOptions}
+                  />
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => resetPrice(modelName)}
+                    disabled={!custom}
+                    className="h-7 px-1.5 text-xs"
+                    title="恢复内置价格"
+                  >
+                    重置
+                  </Button>
+                </div>
+              )
+            })}
+            {modelNames.length === 0 && (
+              <div className="text-xs text-gray-500">暂无模型，请先在「模型服务」中添加。</div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  )
+}
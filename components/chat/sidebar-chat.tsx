@@ -1,4 +1,4 @@
-import { useState, useRef, useCallback, useEffect, forwardRef, useImperativeHandle } from "react"
+import { useState, useRef, useCallback, useEffect, forwardRef, useImperativeHandle, type ComponentProps } from "react"
 import { Button } from "~components/ui/button"
 import { ScrollArea } from "~components/ui/scroll-area"
 import { ModelSelect } from "~components/ui/model-select"
@@ -18,9 +18,14 @@ import { useSettings } from "~hooks/useSettings"
 import { useReplaceHandler } from "~hooks/useReplaceHandler"
 
 import { MarkdownMessage } from "./message/markdown-message"
+import { CompareResponses } from "./message/compare-responses"
+import { MessageEditor } from "./message/message-editor"
+import { parseReplaceCommands } from "~lib/replace-service"
+import { selectVariant } from "~lib/message-variants"
 import { useToast } from "~components/ui/sonner"
 import { ChatInput, type ChatInputHandle } from "./chat-input"
 import { generateId } from "~utils/helpers"
+import type { ConversationSummary } from "~lib/conversation-summary"
 
 interface Message {
   id: string
@@ -35,6 +40,15 @@ interface Message {
   // 思考过程相关
   thinking?: string
   thinkingFinished?: boolean
+  toolSteps?: import("~lib/agent-tools").AgentToolStep[] // Agent 工具调用步骤
+  editCommands?: import("~lib/replace-service").ReplaceCommand[] // 编辑工具生成的修改建议
+  fileSnapshots?: import("~lib/replace-service").FileSnapshots // 发送时的文件内容
+  contextNotes?: string[] // 上下文裁剪说明
+  usage?: import("~lib/usage").MessageUsage // token 用量与费用
+  answeredBy?: string // 实际回答的备用模型
+  compareResponses?: import("~hooks/useMessageHandler").CompareResponse[] // 对比模式下各模型的回答
+  variants?: import("~lib/message-variants").MessageVariant[] // 重新生成得到的回答版本
+  variantIndex?: number // 当前显示的版本
 }
 
 interface SidebarChatProps {
@@ -54,6 +68,10 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
     `chat_${generateId()}`
   )
   const [currentChatName, setCurrentChatName] = useState<string>("")
+  // 正在行内编辑的用户消息
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null)
+  // 当前对话的滚动摘要（随历史记录保存）
+  const [conversationSummary, setConversationSummary] = useState<ConversationSummary | undefined>()
   const [messages, setMessages] = useState<Message[]>([
     {
       id: "1",
@@ -88,7 +106,7 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
   const [llmService] = useState<LLMService>(new LLMService(defaultModelForInit))
 
   // 使用 toast hook
-  const { success } = useToast()
+  const { success, error } = useToast()
 
   // 使用文件提取 hook（用于获取提取的文件信息）
   const {
@@ -104,7 +122,9 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
     selectFile,
     selectAllFiles,
     toggleFileList: originalToggleFileList,
-    refreshCurrentFile
+    refreshCurrentFile,
+    syncFiles,
+    updateFileContent
   } = useFileExtraction(selectedFiles, setSelectedFiles)
 
   // 使用聊天历史 hook
@@ -115,29 +135,42 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
     saveChatHistory,
     deleteChatHistory,
     updateHistoryName,
+    updateHistorySummary,
     clearAllHistories,
     toggleHistoryList,
     createBranchChat,
+    saveAsBranch,
     isOnlyInitialMessage
   } = useChatHistory({ projectId })
 
   // 使用替换处理 hook
   const {
     parseMessage,
+    registerCommands,
     resetReplaceCommands,
     replaceCommands,
     updateCommandStatus,
     getFileContent,
     applyReplace,
+    overwriteConflict,
+    confirmFuzzyMatch,
+    applyAll,
+    isBatchApplying,
     undoApply,
     undoReject,
     smartPreview,
+    locateOccurrence,
+    setCommandOccurrences,
     applyingCommandId,
     highlightAllPending,
     reactivateHighlight,
     removeHighlight,
     removeAllHoverHighlights
-  } = useReplaceHandler({ extractedFiles, refreshCurrentFile })
+  } = useReplaceHandler({
+    extractedFiles,
+    refreshCurrentFile,
+    onFileContentUpdated: updateFileContent
+  })
 
   const processedMessageIdsRef = useRef<Set<string>>(new Set())
   const chatInputRef = useRef<ChatInputHandle | null>(null)
@@ -146,7 +179,8 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
   const lastSavedSignatureRef = useRef<string>("")
 
   const buildSignature = useCallback((msgs: Message[]) => 
-    msgs.map(m => `${m.id}:${m.isUser ? 1 : 0}:${m.content}`).join('|')
+    // 用量在流结束时才写入，需计入签名以触发保存
+    msgs.map(m => `${m.id}:${m.isUser ? 1 : 0}:${m.content}:${m.usage?.outputTokens ?? ''}:${m.compareResponses?.map(r => r.content.length).join(',') ?? ''}:${m.variantIndex ?? ''}`).join('|')
   , [])
 
   // 每次切换到新的聊天（新建或加载历史）时，清空高亮与替换命令，避免残留
@@ -161,13 +195,20 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
   // 解析 AI 消息中的替换命令（避免流式消息未完成时解析）
   useEffect(() => {
     messages.forEach(message => {
-      if (message.isUser || !message.content) return
+      if (message.isUser || (!message.content && !message.editCommands?.length && !message.compareResponses?.length)) return
       if (message.isStreaming || message.isWaiting) return
-      if (processedMessageIdsRef.current.has(message.id)) return
-      parseMessage(message.content)
-      processedMessageIdsRef.current.add(message.id)
+      // 重新生成或切换版本后需要重新解析
+      const processedKey = `${message.id}:${message.variantIndex ?? 0}`
+      if (processedMessageIdsRef.current.has(processedKey)) return
+      // 以发送时的文件内容作为快照；旧历史记录没有快照，修改只按当前文档匹配
+      parseMessage(message.content, message.fileSnapshots)
+      // 对比模式下各模型的回答分别解析
+      message.compareResponses?.forEach(response => parseMessage(response.content, message.fileSnapshots))
+      // 编辑工具生成的命令直接注册
+      if (message.editCommands?.length) registerCommands(message.editCommands, message.fileSnapshots)
+      processedMessageIdsRef.current.add(processedKey)
     })
-  }, [messages, parseMessage])
+  }, [messages, parseMessage, registerCommands])
   
   // 当有新的 pending 替换命令时，自动在编辑器中高亮显示
   useEffect(() => {
@@ -232,6 +273,145 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
     }
   }
 
+  // 替换块交互，主消息与对比回答共用
+  const replaceProps: Partial<ComponentProps<typeof MarkdownMessage>> = {
+    replaceCommands,
+    onAcceptReplace: async (cmd) => {
+      const result = await applyReplace(cmd)
+      if (result.success) {
+        // 替换成功后移除高亮
+        await removeHighlight(cmd.id)
+        success(`已成功替换 ${cmd.file} 中的内容`, { title: '替换成功' })
+      } else {
+        // 错误已在 hook 中处理
+      }
+    },
+    onApplyAll: async (cmds) => {
+      const result = await applyAll(cmds)
+      if (result.success) {
+        await Promise.all(cmds.map(cmd => removeHighlight(cmd.id)))
+        success(`已应用全部 ${result.appliedCount} 处修改`, { title: '批量应用' })
+      } else {
+        const detail = result.invalid
+          ?.map(item => `${cmds.find(cmd => cmd.id === item.id)?.file || item.id}: ${item.error}`)
+          .join('\n')
+        error(detail ? `${result.error}\n${detail}` : result.error || '批量应用失败', { title: '批量应用' })
+      }
+    },
+    isBatchApplying,
+    onRejectReplace: async (cmd) => {
+      updateCommandStatus(cmd.id, 'rejected')
+      await removeHighlight(cmd.id)
+    },
+    onLocateOccurrence: async (cmd, index) => {
+      const result = await locateOccurrence(cmd, index)
+      if (!result.success) {
+        error(result.error || '定位失败', { title: '定位' })
+      }
+    },
+    // 待处理命令变化后会自动按新的选择重新高亮
+    onChangeOccurrences: (cmd, occurrences, occurrenceCount) => setCommandOccurrences(cmd.id, occurrences, occurrenceCount),
+    onOverwriteConflict: async (cmd) => {
+      const result = await overwriteConflict(cmd)
+      if (result.success) {
+        await removeHighlight(cmd.id)
+        success(`已用本次修改覆盖 ${cmd.file} 中的内容`, { title: '替换成功' })
+      } else if (result.error) {
+        error(result.error, { title: '覆盖失败' })
+      }
+    },
+    onConfirmFuzzyMatch: async (cmd) => {
+      const result = await confirmFuzzyMatch(cmd)
+      if (result.success) {
+        await removeHighlight(cmd.id)
+        success(`已按相似内容替换 ${cmd.file} 中的内容`, { title: '替换成功' })
+      }
+    },
+    onUndoApply: async (cmd) => {
+      const result = await undoApply(cmd)
+      if (result.success) {
+        success('已撤销应用并恢复为待处理', { title: '撤销' })
+      }
+    },
+    onUndoReject: async (cmd) => {
+      const result = await undoReject(cmd)
+      if (result.success) {
+        success('已撤销拒绝并恢复为待处理', { title: '撤销' })
+      }
+    },
+    onSmartPreview: async (cmd) => {
+      // 如果是被拒绝的命令，重新激活高亮
+      if (cmd.status === 'rejected') {
+        const reactivated = await reactivateHighlight(cmd)
+        if (reactivated) {
+          success('已重新显示修改建议', { title: '预览' })
+        }
+        return
+      }
+      // 否则使用智能预览
+      const result = await smartPreview(cmd)
+      if (result.success) {
+        if (result.action === 'preview') {
+          success('已在编辑器中高亮修改建议', { title: '预览' })
+        }
+      } else {
+        console.error('Smart preview failed:', result.error)
+      }
+    },
+    getFileContent,
+    applyingCommandId
+  }
+
+  // 对比模式：保留某个模型的回答作为主对话中的回复
+  const handleKeepCompareResponse = useCallback(async (messageId: string, index: number) => {
+    const message = messages.find(msg => msg.id === messageId)
+    const kept = message?.compareResponses?.[index]
+    if (!message || !kept) return
+
+    // 只出现在未保留回答中的待处理修改一并拒绝
+    const keptIds = new Set(parseReplaceCommands(kept.content).commands.map(cmd => cmd.id))
+    const discardedIds = message.compareResponses!
+      .filter((_, i) => i !== index)
+      .flatMap(response => parseReplaceCommands(response.content).commands.map(cmd => cmd.id))
+      .filter(id => !keptIds.has(id) && replaceCommands.get(id)?.status === 'pending')
+    for (const id of new Set(discardedIds)) {
+      updateCommandStatus(id, 'rejected')
+      await removeHighlight(id)
+    }
+
+    setMessages(prev => prev.map(msg =>
+      msg.id === messageId
+        ? {
+            ...msg,
+            content: kept.content,
+            thinking: kept.thinking,
+            thinkingFinished: true,
+            usage: kept.usage,
+            compareResponses: undefined
+          }
+        : msg
+    ))
+  }, [messages, replaceCommands, updateCommandStatus, removeHighlight])
+
+  // 编辑用户消息并重新发送：原对话（含其后的回复）另存为分支后截断重发
+  const handleEditMessage = useCallback(async (messageId: string, newContent: string) => {
+    setEditingMessageId(null)
+    const index = messages.findIndex(msg => msg.id === messageId)
+    if (index === -1 || messages.some(msg => msg.isStreaming)) return
+
+    // 确实开始重发后才保存分支，避免重发被拒绝时留下多余的历史记录
+    const started = await chatInputRef.current?.editAndResend(messageId, newContent)
+    if (started && index < messages.length - 1) {
+      const branch = await saveAsBranch(messages, currentChatName || "新对话", conversationSummary ?? null)
+      if (branch) success('原对话已另存为分支，可在聊天历史中找回', { title: '编辑消息' })
+    }
+  }, [messages, currentChatName, conversationSummary, saveAsBranch, success])
+
+  // 切换回答版本
+  const handleSelectVariant = useCallback((messageId: string, index: number) => {
+    setMessages(prev => prev.map(msg => msg.id === messageId ? selectVariant(msg, index) : msg))
+  }, [])
+
   // 删除消息
   const handleDeleteMessage = useCallback((messageId: string) => {
     setMessages(prevMessages => prevMessages.filter(msg => msg.id !== messageId))
@@ -245,7 +425,7 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
 
     // 先保存当前对话为历史记录
     if (!isOnlyInitialMessage(messages)) {
-      await saveChatHistory(messages, currentChatName, currentChatId)
+      await saveChatHistory(messages, currentChatName, currentChatId, conversationSummary ?? null)
     }
 
     // 创建分支
@@ -257,13 +437,13 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
       setCurrentChatName(branchResult.branchName)
       setMessages(branchResult.branchMessages)
     }
-  }, [messages, currentChatName, currentChatId, saveChatHistory, createBranchChat, isOnlyInitialMessage])
+  }, [messages, currentChatName, currentChatId, conversationSummary, saveChatHistory, createBranchChat, isOnlyInitialMessage])
 
   // 加载历史对话
   const handleLoadHistory = async (history: any) => {
     // 如果当前对话不是只有初始消息，先保存当前对话
     if (!isOnlyInitialMessage(messages)) {
-      await saveChatHistory(messages, currentChatName, currentChatId)
+      await saveChatHistory(messages, currentChatName, currentChatId, conversationSummary ?? null)
     }
 
     // 切换历史前清理旧的替换命令和高亮状态
@@ -289,6 +469,15 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
         // 恢复思考过程
         thinking: msg.thinking,
         thinkingFinished: true, // 恢复时思考已完成
+        toolSteps: msg.toolSteps,
+        editCommands: msg.editCommands,
+        fileSnapshots: msg.fileSnapshots,
+        contextNotes: msg.contextNotes,
+        usage: msg.usage,
+        answeredBy: msg.answeredBy,
+        compareResponses: msg.compareResponses,
+        variants: msg.variants,
+        variantIndex: msg.variantIndex,
         // 恢复时不需要临时状态
         isStreaming: false,
         isWaiting: false,
@@ -299,6 +488,7 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
     // 设置当前聊天的ID和名称
     setCurrentChatId(history.id)
     setCurrentChatName(history.name)
+    setConversationSummary(history.summary)
 
     // 加载历史对话
     setMessages(convertedMessages)
@@ -439,7 +629,7 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
       clearTimeout(saveDebounceRef.current)
     }
     saveDebounceRef.current = window.setTimeout(async () => {
-      await saveChatHistory(messages, currentChatName, currentChatId)
+      await saveChatHistory(messages, currentChatName, currentChatId, conversationSummary ?? null)
       lastSavedSignatureRef.current = signature
     }, 500)
 
@@ -448,7 +638,7 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
         clearTimeout(saveDebounceRef.current)
       }
     }
-  }, [messages, currentChatName, currentChatId, saveChatHistory, isOnlyInitialMessage, buildSignature])
+  }, [messages, currentChatName, currentChatId, conversationSummary, saveChatHistory, isOnlyInitialMessage, buildSignature])
 
   return (
     <DialogProvider>
@@ -492,7 +682,7 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
                     ? 'bg-purple-100 text-purple-700 hover:bg-purple-100 rounded-b-none'
                     : 'hover:bg-gray-100 hover:shadow-sm'
                 }`}
-                title={showApiTest ? "收起 API 测试" : "展开 API 测试"}
+                title={showApiTest ? "收起开发者工具" : "展开开发者工具"}
               >
                 {showApiTest ? <ChevronUp className="h-3 w-3" /> : <ChevronDown className="h-3 w-3" />}
                 <Code2 className="h-3 w-3" />
@@ -604,6 +794,12 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
             }
             return updateHistoryName(historyId, newName)
           }}
+          onUpdateHistorySummary={(historyId, summary) => {
+            if (historyId === currentChatId) {
+              setConversationSummary(summary?.text.trim() ? summary : undefined)
+            }
+            return updateHistorySummary(historyId, summary)
+          }}
           onClearAllHistories={clearAllHistories}
         />
       </div>
@@ -611,97 +807,94 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
       {/* Messages */}
       <ScrollArea className="flex-1 px-2.5 py-2">
         <div className="space-y-1">
-          {messages.map((message) => (
+          {messages.map((message, index) => (
             <div
               key={message.id}
               className={`flex flex-col group ${message.isUser ? "items-end" : "items-start"}`}
             > 
-              {/* 消息气泡 */}
-              <div
-                className={`max-w-[90%] rounded-xl px-3 py-1.5 transition-shadow ${
-                  message.isUser
-                    ? "bg-gradient-to-br from-blue-500 to-blue-600 text-white shadow-sm"
-                    : "bg-white border border-gray-100 text-gray-700 shadow-sm"
-                }`}
-              >
-                <MarkdownMessage
-                  content={message.content}
-                  isUser={message.isUser}
-                  isStreaming={message.isStreaming}
-                  className={message.isUser ? "text-white" : "text-gray-700"}
-                  isWaiting={message.isWaiting}
-                  waitingStartTime={message.waitingStartTime}
-                  thinking={message.thinking}
-                  thinkingFinished={message.thinkingFinished}
-                  // 替换相关 props
-                  replaceCommands={replaceCommands}
-                  onAcceptReplace={async (cmd) => {
-                    const result = await applyReplace(cmd)
-                    if (result.success) {
-                      // 替换成功后移除高亮
-                      await removeHighlight(cmd.id)
-                      success(`已成功替换 ${cmd.file} 中的内容`, { title: '替换成功' })
-                    } else {
-                      // 错误已在 hook 中处理
-                    }
-                  }}
-                  onRejectReplace={async (cmd) => {
-                    updateCommandStatus(cmd.id, 'rejected')
-                    await removeHighlight(cmd.id)
-                  }}
-                  onUndoApply={async (cmd) => {
-                    const result = await undoApply(cmd)
-                    if (result.success) {
-                      success('已撤销应用并恢复为待处理', { title: '撤销' })
-                    }
-                  }}
-                  onUndoReject={async (cmd) => {
-                    const result = await undoReject(cmd)
-                    if (result.success) {
-                      success('已撤销拒绝并恢复为待处理', { title: '撤销' })
-                    }
-                  }}
-                  onSmartPreview={async (cmd) => {
-                    // 如果是被拒绝的命令，重新激活高亮
-                    if (cmd.status === 'rejected') {
-                      const reactivated = await reactivateHighlight(cmd)
-                      if (reactivated) {
-                        success('已重新显示修改建议', { title: '预览' })
-                      }
-                      return
-                    }
-                    // 否则使用智能预览
-                    const result = await smartPreview(cmd)
-                    if (result.success) {
-                      if (result.action === 'preview') {
-                        success('已在编辑器中高亮修改建议', { title: '预览' })
-                      }
-                    } else {
-                      console.error('Smart preview failed:', result.error)
-                    }
-                  }}
-                  getFileContent={getFileContent}
-                  applyingCommandId={applyingCommandId}
+              {/* 对比模式：各模型回答并排显示 */}
+              {message.compareResponses?.length ? (
+                <CompareResponses
+                  responses={message.compareResponses}
+                  onKeep={(index) => handleKeepCompareResponse(message.id, index)}
+                  renderResponse={(response) => (
+                    <MarkdownMessage
+                      content={response.content}
+                      isUser={false}
+                      isStreaming={response.isStreaming}
+                      className="text-gray-700"
+                      isWaiting={response.isStreaming && !response.content && !response.thinking}
+                      waitingStartTime={message.timestamp}
+                      thinking={response.thinking}
+                      thinkingFinished={response.thinkingFinished}
+                      {...replaceProps}
+                    />
+                  )}
                 />
-                {/* 显示上下文标签（选中文本和图片） */}
-                {message.isUser && (message.selectedText || message.images) && (
-                  <div className="mt-1">
-                    <MessageContextTags
-                      selectedText={message.selectedText}
-                      images={message.images}
-                      className="text-[10px]"
+              ) : (
+                /* 消息气泡 */
+                <div
+                  className={`max-w-[90%] rounded-xl px-3 py-1.5 transition-shadow ${
+                    editingMessageId === message.id ? "w-[90%] " : ""
+                  }${
+                    message.isUser
+                      ? "bg-gradient-to-br from-blue-500 to-blue-600 text-white shadow-sm"
+                      : "bg-white border border-gray-100 text-gray-700 shadow-sm"
+                  }`}
+                >
+                  {editingMessageId === message.id ? (
+                    <MessageEditor
+                      initialContent={message.content}
+                      onSubmit={(content) => handleEditMessage(message.id, content)}
+                      onCancel={() => setEditingMessageId(null)}
+                    />
+                  ) : (
+                    <MarkdownMessage
+                      content={message.content}
+                      isUser={message.isUser}
+                      isStreaming={message.isStreaming}
+                      className={message.isUser ? "text-white" : "text-gray-700"}
+                      isWaiting={message.isWaiting}
+                      waitingStartTime={message.waitingStartTime}
+                      thinking={message.thinking}
+                      thinkingFinished={message.thinkingFinished}
+                      toolSteps={message.toolSteps}
+                      contextNotes={message.contextNotes}
+                      answeredBy={message.answeredBy}
+                      editCommands={message.editCommands}
+                      {...replaceProps}
                     />
-                  </div>
-                )}
-              </div>
+                  )}
+                  {/* 显示上下文标签（选中文本和图片） */}
+                  {message.isUser && (message.selectedText || message.images) && (
+                    <div className="mt-1">
+                      <MessageContextTags
+                        selectedText={message.selectedText}
+                        images={message.images}
+                        className="text-[10px]"
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
               {/* 操作按钮 - 在气泡下方 */}
               <MessageActions
                 messageId={message.id}
                 messageContent={message.content}
                 isUser={message.isUser}
                 isStreaming={message.isStreaming}
+                usage={message.usage}
                 onDeleteMessage={handleDeleteMessage}
                 onBranchFromMessage={handleBranchFromMessage}
+                // 对比回答未选定前不提供重新生成
+                onRegenerate={!message.isUser && !message.compareResponses && messages.slice(0, index).some(msg => msg.isUser)
+                  ? (messageId, options) => chatInputRef.current?.regenerate(messageId, options)
+                  : undefined}
+                onEditMessage={message.isUser && !messages.some(msg => msg.isStreaming) ? setEditingMessageId : undefined}
+                variantIndex={message.variantIndex}
+                variantCount={message.variants?.length}
+                variantModel={message.variantIndex !== undefined ? message.variants?.[message.variantIndex]?.model : undefined}
+                onSelectVariant={handleSelectVariant}
                 className="mt-0.5"
               />
             </div>
@@ -718,13 +911,22 @@ export const SidebarChat = forwardRef<SidebarChatHandle, SidebarChatProps>(({ on
         extractedFiles={extractedFiles}
         llmService={llmService}
         onFileSelectionChange={setSelectedFiles}
-        onSaveChatHistory={(messages) => saveChatHistory(messages, currentChatName, currentChatId)}
+        onSaveChatHistory={(messages) => saveChatHistory(messages, currentChatName, currentChatId, conversationSummary ?? null)}
         isOnlyInitialMessage={isOnlyInitialMessage}
         currentChatId={currentChatId}
         currentChatName={currentChatName}
         onChatNameChange={setCurrentChatName}
-        onChatIdChange={setCurrentChatId}
+        onChatIdChange={(id) => {
+          setCurrentChatId(id)
+          setConversationSummary(undefined)
+        }}
         refreshCurrentFile={refreshCurrentFile}
+        syncFiles={syncFiles}
+        conversationSummary={conversationSummary}
+        onSummaryChange={(summary) => {
+          setConversationSummary(summary)
+          updateHistorySummary(currentChatId, summary)
+        }}
       />
     </div>
 
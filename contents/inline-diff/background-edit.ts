@@ -0,0 +1,75 @@
+/**
+ * 后台文档编辑
+ * 通过 Overleaf 实时协作通道（socket）直接提交 OT 更新，无需在编辑器中打开目标文件
+ */
+
+import { applyTextChanges, computeReplaceChanges, type CommandType, type InsertAnchor } from './editor-utils'
+import { emitWithAck, getOverleafSocket, joinDoc, leaveDoc } from './doc-socket'
+import type { FuzzyMatch } from '~lib/fuzzy-match'
+import type { MergeConflict } from '~lib/three-way-merge'
+
+/**
+ * 在后台对指定文档执行替换/插入
+ * 返回修改后的完整内容，用于同步文件缓存
+ */
+export async function applyEditInBackground(
+  docId: string,
+  search: string,
+  replace: string,
+  isRegex: boolean,
+  commandType: CommandType = 'replace',
+  insertAnchor?: InsertAnchor,
+  occurrences?: number[],
+  snapshot?: string,
+  occurrenceCount?: number
+): Promise<{
+  success: boolean
+  error?: string
+  content?: string
+  replacedCount: number
+  fuzzyMatch?: FuzzyMatch
+  conflict?: MergeConflict
+  channelUnavailable?: boolean // 实时通道不可用（而非内容匹配失败），可改为在编辑器中打开文件修改
+}> {
+  const socket = getOverleafSocket()
+  if (!socket) {
+    return { success: false, error: '未找到 Overleaf 实时连接', replacedCount: 0, channelUnavailable: true }
+  }
+
+  let joined = false
+  try {
+    const doc = await joinDoc(socket, docId)
+    joined = true
+
+    const { changes, error, fuzzyMatch, conflict } = computeReplaceChanges(
+      doc.content, search, replace, isRegex, commandType, insertAnchor, occurrences, snapshot, occurrenceCount
+    )
+    if (error) {
+      return { success: false, error, replacedCount: 0, fuzzyMatch, conflict }
+    }
+
+    // 变更已按位置从后向前排列，逐个转换为 ShareJS 文本操作
+    const op = changes.flatMap(change => [
+      ...(change.to > change.from ? [{ p: change.from, d: doc.content.slice(change.from, change.to) }] : []),
+      ...(change.insert ? [{ p: change.from, i: change.insert }] : [])
+    ])
+    if (op.length > 0) {
+      await emitWithAck(socket, 'applyOtUpdate', docId, { doc: docId, op, v: doc.version })
+    }
+
+    return {
+      success: true,
+      content: applyTextChanges(doc.content, changes),
+      replacedCount: commandType === 'replace' ? changes.length : 1
+    }
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : '后台修改失败',
+      replacedCount: 0,
+      channelUnavailable: true
+    }
+  } finally {
+    if (joined) await leaveDoc(socket, docId)
+  }
+}
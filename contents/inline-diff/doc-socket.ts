@@ -0,0 +1,140 @@
+/**
+ * Overleaf 实时协作通道（socket）的文档读写辅助
+ * 注意：不要对编辑器当前打开的文档调用 join/leave，以免影响编辑器自身的连接状态
+ */
+
+// socket 请求的超时时间
+const SOCKET_TIMEOUT = 8000
+
+// socket 回调：第一个参数为错误，其余为返回值
+type SocketAck = (error: { message?: string } | null, ...rest: unknown[]) => void
+
+// 用到的 Overleaf socket 接口（joinDoc / applyOtUpdate / leaveDoc，以及文档更新事件）
+export interface OverleafSocket {
+  emit: (event: string, ...args: [...unknown[], SocketAck]) => void
+  on?: (event: string, listener: (...args: unknown[]) => void) => void
+}
+
+interface OverleafWindow {
+  _ide?: { socket?: Partial<OverleafSocket> }
+}
+
+export interface DocSnapshot {
+  content: string
+  version: number
+}
+
+/**
+ * 获取 Overleaf 的实时协作 socket
+ */
+export function getOverleafSocket(): OverleafSocket | null {
+  const socket = (window as unknown as OverleafWindow)?._ide?.socket
+  return socket && typeof socket.emit === 'function' ? socket as OverleafSocket : null
+}
+
+/**
+ * 发送 socket 事件并等待回调，回调第一个参数为错误
+ */
+export function emitWithAck(socket: OverleafSocket, event: string, ...args: unknown[]): Promise<unknown[]> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error(`${event} 请求超时`)), SOCKET_TIMEOUT)
+    socket.emit(event, ...args, (error, ...rest) => {
+      clearTimeout(timer)
+      if (error) {
+        reject(new Error(error.message || String(error)))
+        return
+      }
+      resolve(rest)
+    })
+  })
+}
+
+/**
+ * 服务端下发的文档行为 UTF-8 字节串，需要解码
+ */
+function decodeDocLine(line: string): string {
+  try {
+    return decodeURIComponent(escape(line))
+  } catch {
+    return line
+  }
+}
+
+export async function joinDoc(socket: OverleafSocket, docId: string): Promise<DocSnapshot> {
+  const [lines, version] = await emitWithAck(socket, 'joinDoc', docId, { encodeRanges: true })
+  if (!Array.isArray(lines) || typeof version !== 'number') {
+    throw new Error('读取文档失败')
+  }
+  return { content: lines.map(decodeDocLine).join('\n'), version }
+}
+
+export async function leaveDoc(socket: OverleafSocket, docId: string): Promise<void> {
+  // 订阅中的文档保持加入，以便继续接收更新事件
+  if (watchedDocs.has(docId)) return
+  try {
+    await emitWithAck(socket, 'leaveDoc', docId)
+  } catch (error) {
+    console.warn('[ChatOverleaf] leaveDoc failed:', error)
+  }
+}
+
+// 订阅中的文档及其最新版本号，由 otUpdateApplied 事件维护
+const watchedDocs = new Map<string, number>()
+let listeningSocket: OverleafSocket | null = null
+
+/**
+ * 监听文档更新事件，socket 不支持事件监听时返回 false
+ */
+function listenDocUpdates(socket: OverleafSocket): boolean {
+  if (typeof socket.on !== 'function') return false
+  if (listeningSocket === socket) return true
+
+  // socket 重建后之前的加入状态失效
+  watchedDocs.clear()
+  listeningSocket = socket
+  socket.on('otUpdateApplied', (update) => {
+    const { doc, v } = (update || {}) as { doc?: string; v?: number }
+    const version = doc ? watchedDocs.get(doc) : undefined
+    if (doc && version !== undefined && typeof v === 'number') {
+      watchedDocs.set(doc, Math.max(version, v + 1))
+    }
+  })
+  // 断开连接后服务端不再推送更新，需要重新读取
+  socket.on('disconnect', () => watchedDocs.clear())
+  return true
+}
+
+/**
+ * 订阅中文档的最新版本号，未订阅时返回 undefined
+ */
+export function getWatchedVersion(docId: string): number | undefined {
+  return watchedDocs.get(docId)
+}
+
+/**
+ * 读取文档当前内容与版本号，并保持加入以通过更新事件跟踪版本号
+ * socket 不支持事件监听时读取后立即离开
+ */
+export async function watchDoc(docId: string): Promise<DocSnapshot> {
+  const socket = getOverleafSocket()
+  if (!socket) {
+    throw new Error('未找到 Overleaf 实时连接')
+  }
+  const listening = listenDocUpdates(socket)
+  const snapshot = await joinDoc(socket, docId)
+  if (listening) {
+    watchedDocs.set(docId, snapshot.version)
+  } else {
+    await leaveDoc(socket, docId)
+  }
+  return snapshot
+}
+
+/**
+ * 取消订阅文档；编辑器已打开该文档时不发送 leaveDoc，由编辑器管理加入状态
+ */
+export async function unwatchDoc(docId: string, leave = true): Promise<void> {
+  if (!watchedDocs.delete(docId)) return
+  const socket = getOverleafSocket()
+  if (leave && socket) await leaveDoc(socket, docId)
+}
@@ -3,7 +3,9 @@
  */
 
 import type { MatchPosition } from './types'
-import { COMMENT_PLACEHOLDER, buildFlexibleRegex } from '~lib/replace-service'
+import { COMMENT_PLACEHOLDER, buildFlexibleRegex, formatOccurrenceCountChanged, isFollowedByAnchor } from '~lib/replace-service'
+import { findFuzzyMatch, type FuzzyMatch } from '~lib/fuzzy-match'
+import { mergeWithSnapshot, type MergeConflict } from '~lib/three-way-merge'
 
 export { COMMENT_PLACEHOLDER }
 
@@ -257,6 +259,12 @@ export interface InsertAnchor {
   before?: string
 }
 
+export interface TextChange {
+  from: number
+  to: number
+  insert: string
+}
+
 /**
  * 滚动编辑器到指定位置（居中显示）
  */
@@ -293,6 +301,157 @@ export function scrollToPosition(pos: number, editorView?: any): void {
   }
 }
 
+/**
+ * 计算替换/插入操作对应的文本变更（按位置从后向前排列）
+ * @param occurrences - 多处匹配时选择的位置下标；未指定时替换全部匹配，插入使用第一处锚点
+ * @param snapshot - 生成修改时的文件内容；文档已变化时基于快照做三方合并
+ * @param occurrenceCount - 选择位置时的匹配总数，当前匹配数不同时拒绝修改
+ */
+export function computeReplaceChanges(
+  content: string,
+  search: string,
+  replace: string,
+  isRegex: boolean,
+  commandType: CommandType = 'replace',
+  insertAnchor?: InsertAnchor,
+  occurrences?: number[],
+  snapshot?: string,
+  occurrenceCount?: number
+): { changes: TextChange[]; error?: string; fuzzyMatch?: FuzzyMatch; conflict?: MergeConflict } {
+  // 所选位置的下标是在当前文档中逐个定位得到的，只能在当前文档中解析，不经过快照
+  if (snapshot !== undefined && !occurrences) {
+    // 先在快照上定位修改，再映射到当前文档；快照中无法定位或无法合并时按当前文档处理
+    const base = computeReplaceChanges(snapshot, search, replace, isRegex, commandType, insertAnchor)
+    if (!base.error) {
+      const merged = mergeWithSnapshot(snapshot, content, base.changes)
+      if (merged.status === 'conflict') {
+        return { changes: [], error: '该处内容在修改生成后已被改动', conflict: merged.conflict }
+      }
+      if (merged.status === 'clean') {
+        return {
+          changes: merged.changes.map(change => ({
+            ...change,
+            insert: expandPlaceholders(change.insert, content.slice(change.from, change.to))
+          }))
+        }
+      }
+    }
+  }
+
+  // 匹配数量变化说明文档已改动，下标可能指向其他位置
+  const countError = (count: number) => occurrences && occurrenceCount !== undefined && count !== occurrenceCount
+    ? formatOccurrenceCountChanged(occurrenceCount, count)
+    : undefined
+
+  if (commandType === 'insert' && insertAnchor) {
+    const { after, before } = insertAnchor
+    const anchorIndex = occurrences?.[0] ?? 0
+
+    if (after && before) {
+      // 两个锚点都有：在紧邻的 after 与 before 之间插入
+      const afterMatches = findMatchPositions(content, after, false)
+      const beforeMatches = findMatchPositions(content, before, false)
+
+      if (afterMatches.length === 0) {
+        return { changes: [], error: '未找到 AFTER 锚点' }
+      }
+      if (beforeMatches.length === 0) {
+        return { changes: [], error: '未找到 BEFORE 锚点' }
+      }
+      const countChangedError = countError(afterMatches.length)
+      if (countChangedError) {
+        return { changes: [], error: countChangedError }
+      }
+      if (!afterMatches[anchorIndex]) {
+        return { changes: [], error: '所选锚点位置已不存在，请重新选择' }
+      }
+
+      // 指定了位置时使用所选 AFTER 锚点，否则取第一个之后紧接 BEFORE 锚点的 AFTER 锚点
+      const afterMatch = occurrences
+        ? afterMatches[anchorIndex]
+        : afterMatches.find(m => isFollowedByAnchor(content, m.to, before))
+      if (!afterMatch || !isFollowedByAnchor(content, afterMatch.to, before)) {
+        return { changes: [], error: 'AFTER 锚点之后必须紧接 BEFORE 锚点' }
+      }
+      const insertPos = afterMatch.to
+
+      return { changes: [{ from: insertPos, to: insertPos, insert: replace }] }
+    }
+    if (after) {
+      // 只有 after：在 after 文本后插入
+      const matches = findMatchPositions(content, after, false)
+      if (matches.length === 0) {
+        return { changes: [], error: '未找到 AFTER 锚点' }
+      }
+      const countChangedError = countError(matches.length)
+      if (countChangedError) {
+        return { changes: [], error: countChangedError }
+      }
+      if (!matches[anchorIndex]) {
+        return { changes: [], error: '所选锚点位置已不存在，请重新选择' }
+      }
+      return { changes: [{ from: matches[anchorIndex].to, to: matches[anchorIndex].to, insert: replace }] }
+    }
+    if (before) {
+      // 只有 before：在 before 文本前插入
+      const matches = findMatchPositions(content, before, false)
+      if (matches.length === 0) {
+        return { changes: [], error: '未找到 BEFORE 锚点' }
+      }
+      const countChangedError = countError(matches.length)
+      if (countChangedError) {
+        return { changes: [], error: countChangedError }
+      }
+      if (!matches[anchorIndex]) {
+        return { changes: [], error: '所选锚点位置已不存在，请重新选择' }
+      }
+      return { changes: [{ from: matches[anchorIndex].from, to: matches[anchorIndex].from, insert: replace }] }
+    }
+    return { changes: [], error: '插入操作需要至少一个锚点' }
+  }
+
+  // 普通替换
+  const allMatches = findMatchPositions(content, search, isRegex)
+  const countChangedError = allMatches.length > 0 ? countError(allMatches.length) : undefined
+  if (countChangedError) {
+    return { changes: [], error: countChangedError }
+  }
+  const matches = occurrences && allMatches.length > 0
+    ? allMatches.filter((_, index) => occurrences.includes(index))
+    : allMatches
+  if (allMatches.length > 0 && matches.length === 0) {
+    return { changes: [], error: '所选匹配位置已不存在，请重新选择' }
+  }
+  if (matches.length === 0) {
+    // 返回最相似的候选区域，由用户确认后再以候选原文重新应用
+    const fuzzyMatch = isRegex ? null : findFuzzyMatch(content, search)
+    return fuzzyMatch
+      ? { changes: [], error: '未找到精确匹配', fuzzyMatch }
+      : { changes: [], error: '未找到匹配内容' }
+  }
+
+  // 替换所有匹配（从后向前以保持位置有效）
+  return {
+    changes: matches.reverse().map(m => ({
+      from: m.from,
+      to: m.to,
+      insert: isRegex
+        ? m.text.replace(new RegExp(search), replace)
+        : expandPlaceholders(replace, m.text)
+    }))
+  }
+}
+
+/**
+ * 将变更应用到文本（变更需按位置从后向前排列）
+ */
+export function applyTextChanges(content: string, changes: TextChange[]): string {
+  return changes.reduce(
+    (text, change) => text.slice(0, change.from) + change.insert + text.slice(change.to),
+    content
+  )
+}
+
 /**
  * 在编辑器中执行替换/插入操作
  * @param search - 搜索文本（替换模式）或主锚点文本（插入模式，兼容用）
@@ -300,82 +459,35 @@ export function scrollToPosition(pos: number, editorView?: any): void {
  * @param isRegex - 是否为正则表达式
  * @param commandType - 操作类型：replace | insert
  * @param insertAnchor - 插入操作的锚点信息
+ * @param occurrences - 多处匹配时选择的位置下标
+ * @param snapshot - 生成修改时的文件内容
+ * @param occurrenceCount - 选择位置时的匹配总数
  */
 export function replaceInEditor(
   search: string, 
   replace: string, 
   isRegex: boolean,
   commandType: CommandType = 'replace',
-  insertAnchor?: InsertAnchor
-): { success: boolean; error?: string; replacedCount: number } {
+  insertAnchor?: InsertAnchor,
+  occurrences?: number[],
+  snapshot?: string,
+  occurrenceCount?: number
+): { success: boolean; error?: string; replacedCount: number; fuzzyMatch?: FuzzyMatch; conflict?: MergeConflict } {
   try {
     const editorView = getCodeMirrorEditor()
     if (!editorView) {
       return { success: false, error: '未找到编辑器', replacedCount: 0 }
     }
 
-    const doc = editorView.state.doc
-    const content = doc.toString()
-    
-    let changes: Array<{ from: number; to: number; insert: string }>
-    
-    if (commandType === 'insert' && insertAnchor) {
-      const { after, before } = insertAnchor
-      
-      if (after && before) {
-        // 两个锚点都有：在 after 后、before 前之间插入
-        const afterMatches = findMatchPositions(content, after, false)
-        const beforeMatches = findMatchPositions(content, before, false)
-        
-        if (afterMatches.length === 0) {
-          return { success: false, error: '未找到 AFTER 锚点', replacedCount: 0 }
-        }
-        if (beforeMatches.length === 0) {
-          return { success: false, error: '未找到 BEFORE 锚点', replacedCount: 0 }
-        }
-        
-        const insertPos = afterMatches[0].to
-        if (insertPos > beforeMatches[0].from) {
-          return { success: false, error: 'AFTER 锚点必须在 BEFORE 锚点之前', replacedCount: 0 }
-        }
-        
-        changes = [{ from: insertPos, to: insertPos, insert: replace }]
-      } else if (after) {
-        // 只有 after：在 after 文本后插入
-        const matches = findMatchPositions(content, after, false)
-        if (matches.length === 0) {
-          return { success: false, error: '未找到 AFTER 锚点', replacedCount: 0 }
-        }
-        changes = [{ from: matches[0].to, to: matches[0].to, insert: replace }]
-      } else if (before) {
-        // 只有 before：在 before 文本前插入
-        const matches = findMatchPositions(content, before, false)
-        if (matches.length === 0) {
-          return { success: false, error: '未找到 BEFORE 锚点', replacedCount: 0 }
-        }
-        changes = [{ from: matches[0].from, to: matches[0].from, insert: replace }]
-      } else {
-        return { success: false, error: '插入操作需要至少一个锚点', replacedCount: 0 }
-      }
-    } else {
-      // 普通替换
-      const matches = findMatchPositions(content, search, isRegex)
-      
-      if (matches.length === 0) {
-        return { success: false, error: '未找到匹配内容', replacedCount: 0 }
-      }
-      
-      // 替换所有匹配（从后向前以保持位置有效）
-      changes = matches.reverse().map(m => ({
-        from: m.from,
-        to: m.to,
-        insert: isRegex
-          ? m.text.replace(new RegExp(search), replace)
-          : expandPlaceholders(replace, m.text)
-      }))
+    const content = editorView.state.doc.toString()
+    const { changes, error, fuzzyMatch, conflict } = computeReplaceChanges(
+      content, search, replace, isRegex, commandType, insertAnchor, occurrences, snapshot, occurrenceCount
+    )
+    if (error) {
+      return { success: false, error, replacedCount: 0, fuzzyMatch, conflict }
     }
     
-    // 获取第一个变更位置（在反转前记录，用于滚动）
+    // 获取第一个变更位置（用于滚动）
     const firstChangePos = changes.length > 0 
       ? Math.min(...changes.map(c => c.from))
       : 0
@@ -451,10 +563,12 @@ export function appendEditorContent(content: string): { success: boolean; error?
 
 /**
  * 在编辑器中高亮匹配内容
+ * @param occurrence - 选中并居中显示第几处匹配（默认第一处）
  */
 export function highlightInEditor(
   search: string, 
-  isRegex: boolean
+  isRegex: boolean,
+  occurrence = 0
 ): { success: boolean; positions: Array<{ from: number; to: number }> } {
   try {
     const editorView = getCodeMirrorEditor()
@@ -465,11 +579,11 @@ export function highlightInEditor(
     const content = editorView.state.doc.toString()
     const positions = findMatchPositions(content, search, isRegex)
     
-    if (positions.length > 0) {
-      const firstMatch = positions[0]
+    const target = positions[occurrence] || positions[0]
+    if (target) {
+      scrollToPosition(target.from, editorView)
       editorView.dispatch({
-        selection: { anchor: firstMatch.from, head: firstMatch.to },
-        scrollIntoView: true
+        selection: { anchor: target.from, head: target.to }
       })
     }
     
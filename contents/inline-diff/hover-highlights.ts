@@ -15,6 +15,8 @@ interface HighlightRegion {
   isRegex: boolean
   commandType: CommandType
   insertAnchor?: InsertAnchor
+  occurrences?: number[] // 多处匹配时选择的位置，高亮第一个所选位置
+  occurrenceCount?: number // 选择位置时的匹配总数
   from: number
   to: number
   overlays: HTMLElement[]
@@ -347,7 +349,10 @@ function showPopover(region: HighlightRegion, scroller: HTMLElement, editorView:
         region.replace, 
         region.isRegex, 
         region.commandType, 
-        region.insertAnchor
+        region.insertAnchor,
+        region.occurrences,
+        undefined,
+        region.occurrenceCount
       )
       // 更新状态
       region.status = 'accepted'
@@ -477,6 +482,8 @@ function isSameHighlightRegion(
     isRegex: boolean
     commandType?: CommandType
     insertAnchor?: InsertAnchor
+    occurrences?: number[]
+    occurrenceCount?: number
   }
 ): boolean {
   if (region.search !== cmd.search) return false
@@ -490,6 +497,8 @@ function isSameHighlightRegion(
   const regionBefore = region.insertAnchor?.before ?? ''
   const cmdBefore = cmd.insertAnchor?.before ?? ''
   if (regionBefore !== cmdBefore) return false
+  if ((region.occurrences ?? []).join(',') !== (cmd.occurrences ?? []).join(',')) return false
+  if (region.occurrenceCount !== cmd.occurrenceCount) return false
   return true
 }
 
@@ -505,6 +514,8 @@ export function addHighlightRegions(
     isRegex: boolean
     commandType?: CommandType
     insertAnchor?: InsertAnchor
+    occurrences?: number[]
+    occurrenceCount?: number
   }>,
   currentFileName: string,
   shouldScroll: boolean = true
@@ -556,7 +567,7 @@ export function addHighlightRegions(
       continue
     }
     
-    const firstMatch = positions[0]
+    const firstMatch = positions[cmd.occurrences?.[0] ?? 0] || positions[0]
     
     // 记录第一个匹配位置，用于滚动（无论区域是否已存在都记录）
     if (!firstMatchPosition) {
@@ -580,6 +591,8 @@ export function addHighlightRegions(
       isRegex: cmd.isRegex,
       commandType: cmd.commandType || 'replace',
       insertAnchor: cmd.insertAnchor,
+      occurrences: cmd.occurrences,
+      occurrenceCount: cmd.occurrenceCount,
       from: firstMatch.from,
       to: firstMatch.to,
       overlays: [],
@@ -621,12 +634,17 @@ export function reactivateHighlight(
   isRegex: boolean,
   currentFileName: string,
   commandType?: CommandType,
-  insertAnchor?: InsertAnchor
+  insertAnchor?: InsertAnchor,
+  occurrences?: number[],
+  occurrenceCount?: number
 ): boolean {
   // 先移除旧的
   removeRegionHighlight(id)
   
-  const result = addHighlightRegions([{ id, file, search, replace, isRegex, commandType, insertAnchor }], currentFileName)
+  const result = addHighlightRegions(
+    [{ id, file, search, replace, isRegex, commandType, insertAnchor, occurrences, occurrenceCount }],
+    currentFileName
+  )
   return result.count > 0
 }
 
@@ -678,9 +696,10 @@ export function refreshHighlights(): void {
     
     // 重新查找位置（内容可能已变化）
     const positions = findMatchPositions(content, region.search, region.isRegex)
-    if (positions.length > 0) {
-      region.from = positions[0].from
-      region.to = positions[0].to
+    const match = positions[region.occurrences?.[0] ?? 0] || positions[0]
+    if (match) {
+      region.from = match.from
+      region.to = match.to
       // 重新创建覆盖层（如果在视口内）
       region.overlays = createRegionOverlays(region, editorView, scroller)
       // 注意：即使 overlays 为空（不在视口内），也保留 region 数据
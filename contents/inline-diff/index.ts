@@ -321,6 +321,8 @@ export {
   getCodeMirrorEditor, 
   findMatchPositions, 
   replaceInEditor, 
+  computeReplaceChanges,
+  applyTextChanges,
   setEditorContent,
   appendEditorContent,
   highlightInEditor, 
@@ -335,6 +337,8 @@ export {
   getHighlightStatus,
   refreshHighlights 
 } from './hover-highlights'
+export { applyEditInBackground } from './background-edit'
+export { watchDoc, unwatchDoc, getWatchedVersion, getOverleafSocket } from './doc-socket'
 
 /**
  * 显示内联差异 - 使用 DOM 浮动面板
@@ -1,5 +1,6 @@
 import type { PlasmoCSConfig } from "plasmo"
-import { getFileTreeItems, clickFileTreeItem, waitForFileLoad, getCurrentFileName, isActiveTreeItemFile, expandAllFolders, collapseFolders, expandPathFolders, getFolderIdByPath, getFileIdByPath } from "./overleaf-filetree"
+import { getFileTreeItems, clickFileTreeItem, waitForFileLoad, getCurrentFileName, isActiveTreeItemFile, expandAllFolders, collapseFolders, expandPathFolders, getFolderIdByPath, getFileIdByPath, isTextFile } from "./overleaf-filetree"
+import { downloadAndParseZip } from "./api"
 import { 
   getCodeMirrorEditor, 
   replaceInEditor, 
@@ -13,6 +14,11 @@ import {
   refreshHighlights,
   setEditorContent,
   appendEditorContent,
+  applyEditInBackground,
+  watchDoc,
+  unwatchDoc,
+  getWatchedVersion,
+  getOverleafSocket,
   COMMENT_PLACEHOLDER
 } from "./overleaf-inline-diff"
 import iconUrl from "data-base64:~assets/icon.svg"
@@ -201,9 +207,46 @@ function getOverleafEditorInfo(): OverleafEditorInfo {
 }
 
 /**
- * 提取所有文件内容
+ * 通过项目 ZIP 下载提取所有文本文件（无需逐个点击文件树）
+ */
+async function getAllFilesFromZip(): Promise<AllFilesInfo> {
+  const result = await downloadAndParseZip()
+  if (!result.success || !result.data) {
+    return { files: [], success: false, error: result.error || '下载 ZIP 失败' }
+  }
+
+  const decoder = new TextDecoder('utf-8')
+  const files = result.data
+    .filter(file => !file.isFolder && file.content && isTextFile(file.path))
+    .map(file => {
+      const content = cleanContent(decoder.decode(file.content))
+      return { name: file.path, content, length: content.length }
+    })
+
+  if (files.length === 0) {
+    return { files: [], success: false, error: 'ZIP 中未找到文本文件' }
+  }
+  return { files, success: true }
+}
+
+/**
+ * 提取所有文件内容：优先使用 ZIP，失败时回退到逐个点击文件树
  */
 async function getAllFilesContent(): Promise<AllFilesInfo> {
+  try {
+    const zipResult = await getAllFilesFromZip()
+    if (zipResult.success) return zipResult
+    console.warn('[ChatOverleaf] ZIP extraction failed, fallback to file tree:', zipResult.error)
+  } catch (error) {
+    console.warn('[ChatOverleaf] ZIP extraction failed, fallback to file tree:', error)
+  }
+  return getAllFilesByClicking()
+}
+
+/**
+ * 逐个点击文件树提取所有文件内容
+ */
+async function getAllFilesByClicking(): Promise<AllFilesInfo> {
   try {
     const expandedFolders = await expandAllFolders()
     const fileItems = getFileTreeItems()
@@ -325,6 +368,7 @@ function checkContentChange() {
           if (prevFile && prevFile !== fileName) {
             removeAllHoverHighlights()
           }
+          if (prevFile !== fileName) releaseCurrentWatchedDoc()
           // 内容变化后刷新高亮位置
           refreshHighlights()
         }, 300)
@@ -440,6 +484,89 @@ function setupRefreshListeners() {
   }
 }
 
+// 增量同步时并发读取的文档数
+const SYNC_CONCURRENCY = 4
+// 进行中的同步请求，调用方超时后通过 SYNC_DOCS_CANCEL 取消剩余读取
+const syncControllers = new Map<string, AbortController>()
+// 已订阅文档的路径与 ID
+const watchedDocIds = new Map<string, string>()
+
+/**
+ * 编辑器打开了已订阅的文档：之后编辑器离开文档时订阅随之失效，这里只清除记录
+ */
+function releaseCurrentWatchedDoc(): void {
+  for (const [path, docId] of watchedDocIds) {
+    if (!isCurrentFile(path)) continue
+    watchedDocIds.delete(path)
+    void unwatchDoc(docId, false)
+  }
+}
+
+/**
+ * 增量同步：仅读取版本变化的文档内容
+ * 读取过的文档保持订阅，之后由更新事件维护版本号，未变化的文档无需再次读取
+ * 当前打开的文档由编辑器内容变化监听负责，这里跳过
+ */
+async function syncDocs(
+  docs: Array<{ path: string; version?: number }>,
+  signal: AbortSignal
+): Promise<{ success: boolean; error?: string; docs: Array<{ path: string; version: number; content?: string; length?: number }> }> {
+  if (!getOverleafSocket()) {
+    return { success: false, error: '未找到 Overleaf 实时连接', docs: [] }
+  }
+
+  releaseCurrentWatchedDoc()
+  const pending = docs.filter(doc => !isCurrentFile(doc.path))
+  const results: Array<{ path: string; version: number; content?: string; length?: number }> = []
+
+  const syncOne = async (doc: { path: string; version?: number }) => {
+    const docId = watchedDocIds.get(doc.path) || await getFileIdByPath(doc.path)
+    if (!docId) return
+    const watchedVersion = getWatchedVersion(docId)
+    if (watchedVersion !== undefined && watchedVersion === doc.version) {
+      results.push({ path: doc.path, version: watchedVersion })
+      return
+    }
+    try {
+      const snapshot = await watchDoc(docId)
+      if (getWatchedVersion(docId) !== undefined) watchedDocIds.set(doc.path, docId)
+      if (snapshot.version === doc.version) {
+        results.push({ path: doc.path, version: snapshot.version })
+        return
+      }
+      const content = cleanContent(snapshot.content)
+      results.push({ path: doc.path, version: snapshot.version, content, length: content.length })
+    } catch (error) {
+      watchedDocIds.delete(doc.path)
+      throw error
+    }
+  }
+
+  let next = 0
+  const worker = async () => {
+    while (next < pending.length && !signal.aborted) {
+      const doc = pending[next++]
+      try {
+        await syncOne(doc)
+      } catch (error) {
+        console.warn(`[ChatOverleaf] Failed to sync ${doc.path}:`, error)
+      }
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(SYNC_CONCURRENCY, pending.length) }, worker))
+
+  // 不再需要同步的文档取消订阅
+  if (!signal.aborted) {
+    const requested = new Set(docs.map(doc => doc.path))
+    for (const [path, docId] of watchedDocIds) {
+      if (requested.has(path)) continue
+      watchedDocIds.delete(path)
+      void unwatchDoc(docId)
+    }
+  }
+  return { success: true, docs: results }
+}
+
 /**
  * 检查当前打开的文件是否匹配指定路径
  */
@@ -524,7 +651,7 @@ window.addEventListener('message', async (event) => {
   }
 
   if (event.data.type === 'CHECK_MATCH_VISIBLE') {
-    const { search, replace, isRegex, commandType, insertAnchor } = event.data
+    const { search, replace, isRegex, commandType, insertAnchor, occurrences } = event.data
     const editorView = getCodeMirrorEditor()
     const scroller = document.querySelector('.cm-scroller') as HTMLElement | null
     if (!editorView || !scroller) {
@@ -543,7 +670,8 @@ window.addEventListener('message', async (event) => {
     }
 
     const positions = findMatchPositions(content, searchText, isRegex)
-    const first = positions[0]
+    // 指定了位置时以第一个所选位置为准
+    const first = positions[Array.isArray(occurrences) && occurrences.length > 0 ? occurrences[0] : 0]
     const visible = first ? isPositionVisible(first.from) : false
 
     window.postMessage({
@@ -596,8 +724,8 @@ window.addEventListener('message', async (event) => {
   }
   
   if (event.data.type === 'REPLACE_IN_EDITOR') {
-    const { search, replace, isRegex, commandType, insertAnchor } = event.data
-    const result = replaceInEditor(search, replace, isRegex, commandType || 'replace', insertAnchor)
+    const { search, replace, isRegex, commandType, insertAnchor, occurrences, snapshot, occurrenceCount } = event.data
+    const result = replaceInEditor(search, replace, isRegex, commandType || 'replace', insertAnchor, occurrences, snapshot, occurrenceCount)
     window.postMessage({
       type: 'REPLACE_IN_EDITOR_RESPONSE',
       requestId: event.data.requestId,
@@ -606,6 +734,45 @@ window.addEventListener('message', async (event) => {
     return
   }
 
+  if (event.data.type === 'APPLY_IN_BACKGROUND') {
+    const { filePath, search, replace, isRegex, commandType, insertAnchor, occurrences, snapshot, occurrenceCount } = event.data
+    const respond = (data: Record<string, unknown>) => window.postMessage({
+      type: 'APPLY_IN_BACKGROUND_RESPONSE',
+      requestId: event.data.requestId,
+      data
+    }, '*')
+
+    const docId = await getFileIdByPath(filePath || '')
+    if (!docId) {
+      respond({ success: false, error: `未找到文件: ${filePath}`, replacedCount: 0 })
+      return
+    }
+    const result = await applyEditInBackground(
+      docId, search, replace, isRegex, commandType || 'replace', insertAnchor, occurrences, snapshot, occurrenceCount
+    )
+    // 返回与提取结果一致的清理后内容，便于直接更新文件缓存
+    respond({ ...result, content: result.content !== undefined ? cleanContent(result.content) : undefined })
+    return
+  }
+
+  if (event.data.type === 'SYNC_DOCS') {
+    const controller = new AbortController()
+    syncControllers.set(event.data.requestId, controller)
+    const result = await syncDocs(Array.isArray(event.data.docs) ? event.data.docs : [], controller.signal)
+    syncControllers.delete(event.data.requestId)
+    window.postMessage({
+      type: 'SYNC_DOCS_RESPONSE',
+      requestId: event.data.requestId,
+      data: result
+    }, '*')
+    return
+  }
+
+  if (event.data.type === 'SYNC_DOCS_CANCEL') {
+    syncControllers.get(event.data.requestId)?.abort()
+    return
+  }
+
   if (event.data.type === 'SET_EDITOR_CONTENT') {
     const { content } = event.data
     const result = setEditorContent(typeof content === 'string' ? content : '')
@@ -629,8 +796,8 @@ window.addEventListener('message', async (event) => {
   }
   
   if (event.data.type === 'HIGHLIGHT_IN_EDITOR') {
-    const { search, isRegex } = event.data
-    const result = highlightInEditor(search, isRegex)
+    const { search, isRegex, occurrence } = event.data
+    const result = highlightInEditor(search, isRegex, typeof occurrence === 'number' ? occurrence : 0)
     window.postMessage({
       type: 'HIGHLIGHT_IN_EDITOR_RESPONSE',
       requestId: event.data.requestId,
@@ -659,9 +826,9 @@ window.addEventListener('message', async (event) => {
   
   // 重新激活高亮
   if (event.data.type === 'REACTIVATE_HIGHLIGHT') {
-    const { id, file, search, replace, isRegex, commandType, insertAnchor } = event.data
+    const { id, file, search, replace, isRegex, commandType, insertAnchor, occurrences } = event.data
     const currentFile = getCurrentFileName()
-    const success = reactivateHighlight(id, file, search, replace, isRegex, currentFile, commandType, insertAnchor)
+    const success = reactivateHighlight(id, file, search, replace, isRegex, currentFile, commandType, insertAnchor, occurrences)
     window.postMessage({
       type: 'REACTIVATE_HIGHLIGHT_RESPONSE',
       requestId: event.data.requestId,
@@ -2,7 +2,12 @@ import { useState, useEffect, useCallback } from "react"
 import { storageUtils } from "~utils/storage"
 import { generateId, truncateText } from "~utils/helpers"
 import { type ImageInfo } from "~lib/image-utils"
-import { type SelectedSnippet } from "./useMessageHandler"
+import { type CompareResponse, type SelectedSnippet } from "./useMessageHandler"
+import { type AgentToolStep } from "~lib/agent-tools"
+import { parseReplaceCommands, pickFileSnapshots, type FileSnapshots, type ReplaceCommand } from "~lib/replace-service"
+import type { ConversationSummary } from "~lib/conversation-summary"
+import type { MessageVariant } from "~lib/message-variants"
+import { sumUsage, type MessageUsage, type UsageTotals } from "~lib/usage"
 
 // 聊天历史记录接口
 export interface Message {
@@ -18,6 +23,15 @@ export interface Message {
   // 思考过程相关
   thinking?: string
   thinkingFinished?: boolean
+  toolSteps?: AgentToolStep[]
+  editCommands?: ReplaceCommand[]
+  fileSnapshots?: FileSnapshots
+  contextNotes?: string[]
+  usage?: MessageUsage
+  answeredBy?: string
+  compareResponses?: CompareResponse[]
+  variants?: MessageVariant[]
+  variantIndex?: number
 }
 
 // 用于存储的简化消息接口（只保存核心聊天信息）
@@ -30,6 +44,23 @@ export interface StoredMessage {
   images?: ImageInfo[] // 保存图片信息
   // 思考过程
   thinking?: string
+  // Agent 工具调用步骤
+  toolSteps?: AgentToolStep[]
+  // 编辑工具生成的修改建议
+  editCommands?: ReplaceCommand[]
+  // 发送时修改所涉及文件的内容，应用修改时据此做三方合并
+  fileSnapshots?: FileSnapshots
+  // 上下文裁剪说明
+  contextNotes?: string[]
+  // token 用量与费用
+  usage?: MessageUsage
+  // 主模型失败时实际回答的备用模型
+  answeredBy?: string
+  // 对比模式下尚未选定的各模型回答
+  compareResponses?: CompareResponse[]
+  // 重新生成得到的回答版本与当前显示的版本
+  variants?: MessageVariant[]
+  variantIndex?: number
 }
 
 export interface ChatHistory {
@@ -40,6 +71,8 @@ export interface ChatHistory {
   lastUpdated: Date // 最后更新时间
   createdAt: Date // 创建时间
   projectId?: string // 所属项目（兼容旧数据可缺省）
+  summary?: ConversationSummary // 较早对话的滚动摘要
+  usage?: UsageTotals // 对话累计用量
 }
 
 const CHAT_HISTORY_KEY = "chat_history"
@@ -66,6 +99,22 @@ const isOnlyInitialMessage = (messages: Message[]): boolean => {
          messages[0].content.includes("你好！我是你的 Overleaf 助手")
 }
 
+// 只保存回复中修改所涉及文件的快照
+const pickMessageSnapshots = (msg: {
+  content: string
+  editCommands?: ReplaceCommand[]
+  fileSnapshots?: FileSnapshots
+  compareResponses?: Array<{ content: string }>
+}): FileSnapshots | undefined => {
+  if (!msg.fileSnapshots) return undefined
+  const commands = [
+    ...parseReplaceCommands(msg.content).commands,
+    ...(msg.compareResponses ?? []).flatMap(response => parseReplaceCommands(response.content).commands),
+    ...(msg.editCommands ?? [])
+  ]
+  return pickFileSnapshots(msg.fileSnapshots, commands)
+}
+
 export const useChatHistory = ({ projectId }: UseChatHistoryOptions = {}) => {
   const [chatHistories, setChatHistories] = useState<ChatHistory[]>([])
   const [showHistoryList, setShowHistoryList] = useState(false)
@@ -90,11 +139,15 @@ export const useChatHistory = ({ projectId }: UseChatHistoryOptions = {}) => {
           ...history,
           lastUpdated,
           createdAt,
+          summary: history.summary
+            ? { ...history.summary, updatedAt: new Date(history.summary.updatedAt) }
+            : undefined,
           messages: history.messages.map(msg => ({
             ...msg,
             timestamp: msg.timestamp instanceof Date
               ? msg.timestamp
-              : new Date(msg.timestamp)
+              : new Date(msg.timestamp),
+            variants: msg.variants?.map(variant => ({ ...variant, timestamp: new Date(variant.timestamp) }))
           }))
         }
       })
@@ -113,8 +166,13 @@ export const useChatHistory = ({ projectId }: UseChatHistoryOptions = {}) => {
     }
   }, [projectId])
 
-  // 保存聊天历史
-  const saveChatHistory = useCallback(async (messages: Message[], customName?: string, historyId?: string) => {
+  // 保存聊天历史（summary 为 undefined 时保留已有摘要，为 null 时清除）
+  const saveChatHistory = useCallback(async (
+    messages: Message[],
+    customName?: string,
+    historyId?: string,
+    summary?: ConversationSummary | null
+  ) => {
     // 如果只有初始消息，不保存
     if (isOnlyInitialMessage(messages)) {
       return null
@@ -132,7 +190,16 @@ export const useChatHistory = ({ projectId }: UseChatHistoryOptions = {}) => {
         timestamp: msg.timestamp,
         selectedText: msg.selectedText, // 保存选中的文本内容
         images: msg.images, // 保存图片信息
-        thinking: msg.thinking // 保存思考过程
+        thinking: msg.thinking, // 保存思考过程
+        toolSteps: msg.toolSteps, // 保存工具调用步骤
+        editCommands: msg.editCommands, // 保存编辑工具生成的修改建议
+        fileSnapshots: pickMessageSnapshots(msg), // 保存修改对应的文件快照
+        contextNotes: msg.contextNotes, // 保存上下文裁剪说明
+        usage: msg.usage, // 保存用量与费用
+        answeredBy: msg.answeredBy,
+        compareResponses: msg.compareResponses?.map(({ isStreaming, ...response }) => response),
+        variants: msg.variants?.map(variant => ({ ...variant, fileSnapshots: pickMessageSnapshots(variant) })),
+        variantIndex: msg.variantIndex
         // 不保存 isStreaming, isWaiting, waitingStartTime, thinkingFinished 等临时状态
       }))
 
@@ -148,7 +215,13 @@ export const useChatHistory = ({ projectId }: UseChatHistoryOptions = {}) => {
         messageCount,
         lastUpdated: now,
         createdAt: now,
-        projectId: projectId || undefined
+        projectId: projectId || undefined,
+        summary: summary || undefined,
+        // 对比回答与各个回答版本的用量均计入
+        usage: sumUsage(cleanMessages.flatMap(msg => [
+          ...(msg.variants ? msg.variants.map(variant => variant.usage) : [msg.usage]),
+          ...(msg.compareResponses || []).map(response => response.usage)
+        ]))
       }
 
       // 如果存在相同ID的历史记录，检查内容是否有变化
@@ -159,8 +232,8 @@ export const useChatHistory = ({ projectId }: UseChatHistoryOptions = {}) => {
         const existingHistory = currentHistories[existingIndex]
 
         // 比较消息内容是否有变化
-        const existingSignature = existingHistory.messages.map(m => `${m.isUser}:${m.content}`).join('|')
-        const newSignature = cleanMessages.map(m => `${m.isUser}:${m.content}`).join('|')
+        const existingSignature = existingHistory.messages.map(m => `${m.isUser}:${m.content}:${m.variantIndex ?? ''}:${m.usage?.outputTokens ?? ''}:${m.compareResponses?.map(r => r.content.length).join(',') ?? ''}`).join('|')
+        const newSignature = cleanMessages.map(m => `${m.isUser}:${m.content}:${m.variantIndex ?? ''}:${m.usage?.outputTokens ?? ''}:${m.compareResponses?.map(r => r.content.length).join(',') ?? ''}`).join('|')
 
         updatedHistories = [...currentHistories]
 
@@ -174,7 +247,8 @@ export const useChatHistory = ({ projectId }: UseChatHistoryOptions = {}) => {
           console.log("History content changed, updating timestamp")
           updatedHistories[existingIndex] = {
             ...newHistory,
-            createdAt: existingHistory.createdAt // 保持原创建时间
+            createdAt: existingHistory.createdAt, // 保持原创建时间
+            summary: summary === undefined ? existingHistory.summary : newHistory.summary
           }
         }
       } else {
@@ -239,6 +313,30 @@ export const useChatHistory = ({ projectId }: UseChatHistoryOptions = {}) => {
     }
   }, [loadChatHistories])
 
+  // 更新对话摘要，text 为空时清除摘要
+  const updateHistorySummary = useCallback(async (historyId: string, summary: ConversationSummary | null) => {
+    try {
+      const currentHistories = await storageUtils.get<ChatHistory[]>(CHAT_HISTORY_KEY, [])
+      if (!currentHistories.some(history => history.id === historyId)) return false
+
+      const updatedHistories = currentHistories.map(history =>
+        history.id === historyId
+          ? { ...history, summary: summary?.text.trim() ? summary : undefined }
+          : history
+      )
+
+      await storageUtils.set(CHAT_HISTORY_KEY, updatedHistories)
+
+      // 重新加载历史记录以确保状态同步
+      await loadChatHistories()
+
+      return true
+    } catch (error) {
+      console.error("Failed to update history summary:", error)
+      return false
+    }
+  }, [loadChatHistories])
+
   // 清空所有历史记录
   const clearAllHistories = useCallback(async () => {
     try {
@@ -282,6 +380,16 @@ export const useChatHistory = ({ projectId }: UseChatHistoryOptions = {}) => {
     }
   }, [])
 
+  // 将当前对话另存为分支，编辑较早的消息重发前用于保留原来的后续对话
+  const saveAsBranch = useCallback(async (
+    originalMessages: Message[],
+    originalChatName: string,
+    summary?: ConversationSummary | null
+  ) => {
+    const branchId = `branch_${generateId()}`
+    return saveChatHistory(originalMessages, `分支 ※ ${originalChatName}`, branchId, summary)
+  }, [saveChatHistory])
+
   // 切换历史列表显示状态
   const toggleHistoryList = useCallback(() => {
     setShowHistoryList(prev => !prev)
@@ -302,10 +410,12 @@ export const useChatHistory = ({ projectId }: UseChatHistoryOptions = {}) => {
     saveChatHistory,
     deleteChatHistory,
     updateHistoryName,
+    updateHistorySummary,
     clearAllHistories,
     loadChatHistories,
     toggleHistoryList,
     createBranchChat,
+    saveAsBranch,
 
     // 工具函数
     generateHistoryName,
@@ -10,7 +10,12 @@ interface PreviewModal {
   error?: string
 }
 
-export const useImageHandler = () => {
+interface ImageHandlerOptions {
+  multimodal?: boolean // 当前模型是否支持图片输入
+  modelName?: string
+}
+
+export const useImageHandler = ({ multimodal = true, modelName }: ImageHandlerOptions = {}) => {
   const [uploadedImages, setUploadedImages] = useState<ImageInfo[]>([])
   const [previewModal, setPreviewModal] = useState<PreviewModal>({
     isOpen: false,
@@ -30,6 +35,16 @@ export const useImageHandler = () => {
     })
   }
 
+  // 当前模型不支持图片时提示，不加入待发送列表
+  const addImages = (images: ImageInfo[]) => {
+    if (!multimodal) {
+      error(`${modelName || '当前模型'} 不支持图片输入，请切换到支持图片的模型，或在模型设置中开启「图片输入」。`, { title: '无法添加图片' })
+      return
+    }
+    setUploadedImages(prev => [...prev, ...images])
+    success(`已添加 ${images.length} 张图片`, { title: '图片上传成功' })
+  }
+
   // 处理图片粘贴
   const handlePaste = async (e: React.ClipboardEvent) => {
     const clipboardData = e.clipboardData
@@ -38,8 +53,7 @@ export const useImageHandler = () => {
     try {
       const images = await ImageUtils.extractImagesFromClipboard(clipboardData)
       if (images.length > 0) {
-        setUploadedImages(prev => [...prev, ...images])
-        success(`已添加 ${images.length} 张图片`, { title: '图片上传成功' })
+        addImages(images)
       }
     } catch (err) {
       console.error('处理粘贴图片失败:', err)
@@ -56,8 +70,7 @@ export const useImageHandler = () => {
     try {
       const images = await ImageUtils.extractImagesFromDrop(dataTransfer)
       if (images.length > 0) {
-        setUploadedImages(prev => [...prev, ...images])
-        success(`已添加 ${images.length} 张图片`, { title: '图片上传成功' })
+        addImages(images)
       }
     } catch (err) {
       console.error('处理拖拽图片失败:', err)
@@ -1,9 +1,20 @@
 import { useState } from "react"
-import { LLMService, type ChatMessage } from "~lib/llm-service"
+import { LLMService, type ChatMessage, type StreamResponse } from "~lib/llm-service"
+import type { ModelConfig } from "~lib/builtin-models"
+import { finishVariant, startVariant, type MessageVariant } from "~lib/message-variants"
 import { FileContentProcessor } from "~lib/file-content-processor"
-import { SYSTEM_PROMPT } from "~lib/system-prompt"
+import { SYSTEM_PROMPT, TOOL_SYSTEM_PROMPT } from "~lib/system-prompt"
+import { AGENT_SYSTEM_PROMPT, AGENT_TOOLS, type AgentToolStep } from "~lib/agent-tools"
+import { EDIT_TOOLS } from "~lib/edit-tools"
+import { runAgentLoop } from "~lib/agent-loop"
+import type { FileSnapshots, ReplaceCommand } from "~lib/replace-service"
 import { buildEntityTreePrompt } from "~components/chat/file/file-tree-utils"
 import { getEntities } from "~contents/api"
+import { fitContextBudget } from "~lib/context-budget"
+import { loadTokenizer } from "~lib/tokenizer"
+import { DEFAULT_CONTEXT_WINDOW, getContextWindow, getMaxOutputTokens } from "~lib/context-window"
+import { buildSummaryMessage, planHistory, summarizeConversation, type ConversationSummary } from "~lib/conversation-summary"
+import { buildMessageUsage, type MessageUsage } from "~lib/usage"
 import { useSettings } from "./useSettings"
 import { useModels } from "./useModels"
 import { useToast } from "~components/ui/sonner"
@@ -23,6 +34,22 @@ interface Message {
   // 思考过程相关
   thinking?: string
   thinkingFinished?: boolean
+  // Agent 模式下的工具调用步骤
+  toolSteps?: AgentToolStep[]
+  // 编辑工具生成的修改建议
+  editCommands?: ReplaceCommand[]
+  // 发送给模型时的文件内容，作为修改的快照
+  fileSnapshots?: FileSnapshots
+  // 发送前因上下文窗口裁剪的内容说明
+  contextNotes?: string[]
+  // 本条回复的 token 用量与费用
+  usage?: MessageUsage
+  answeredBy?: string // 主模型失败时实际回答的备用模型
+  // 对比模式下各模型的回答，保留其一后清除
+  compareResponses?: CompareResponse[]
+  // 重新生成得到的回答版本，variantIndex 为当前显示的版本
+  variants?: MessageVariant[]
+  variantIndex?: number
 }
 
 interface ExtractedFile {
@@ -41,6 +68,9 @@ interface UseMessageHandlerProps {
   currentChatName?: string
   onChatNameChange?: (name: string) => void
   refreshCurrentFile?: () => Promise<ExtractedFile | null>
+  syncFiles?: () => Promise<ExtractedFile[] | null>
+  conversationSummary?: ConversationSummary | null
+  onSummaryChange?: (summary: ConversationSummary) => void
 }
 
 export interface SelectedSnippet {
@@ -49,6 +79,35 @@ export interface SelectedSnippet {
   folderPath?: string
 }
 
+// 对比模式下单个模型的回答
+export interface CompareResponse {
+  modelId: string
+  modelName: string // 显示名称
+  content: string
+  thinking?: string
+  thinkingFinished?: boolean
+  isStreaming?: boolean
+  error?: boolean
+  usage?: MessageUsage
+}
+
+// 对比模式最多同时请求的模型数
+export const MAX_COMPARE_MODELS = 3
+
+type CompareModelConfig = ModelConfig & { id: string }
+
+// 重新生成选项，未指定时沿用当前模型与全局温度
+export interface RegenerateOptions {
+  modelId?: string
+  temperature?: number
+}
+
+interface StreamingOptions {
+  compareConfigs?: CompareModelConfig[]
+  history?: Message[] // 作为对话历史的消息，默认为当前全部消息
+  updateSummary?: boolean // 是否写回新生成的对话摘要
+}
+
 export const useMessageHandler = ({
   messages,
   onMessagesChange,
@@ -58,24 +117,63 @@ export const useMessageHandler = ({
   currentChatId,
   currentChatName,
   onChatNameChange,
-  refreshCurrentFile
+  refreshCurrentFile,
+  syncFiles,
+  conversationSummary,
+  onSummaryChange
 }: UseMessageHandlerProps) => {
   const [isStreaming, setIsStreaming] = useState(false)
   const [abortController, setAbortController] = useState<AbortController | null>(null)
   
-  const { getModelConfig, selectedModel, modelTemperature, maxTokens } = useSettings()
+  const { getModelConfig, isModelAvailable, selectedModel, modelTemperature, maxTokens, agentMode, retrievalMode, modelPrices, fallbackModels, modelParams, compareMode, compareModels } = useSettings()
   const { allModels } = useModels()
-  const { error } = useToast()
+  const { error, info } = useToast()
+
+  // 使用最新的模型配置与单模型参数更新 LLM 服务，模型不可用时返回 null
+  const prepareLLMService = (model: ModelConfig & { id: string }, temperature?: number) => {
+    const params = modelParams[model.id]
+    const currentModelConfig = {
+      ...getModelConfig(model),
+      // 重新生成时指定的温度优先于单模型参数
+      params: temperature !== undefined ? { ...params, temperature } : params
+    }
+
+    // 检查当前模型是否可用
+    if (!isModelAvailable(currentModelConfig)) {
+      error(`当前模型 ${model.display_name} 未配置 API Key 或 Base URL，请在设置中配置后再使用。`, {
+        title: '配置错误'
+      })
+      return null
+    }
+
+    llmService.updateModel(currentModelConfig)
+    llmService.updateGenerationParams({
+      temperature: temperature ?? modelTemperature,
+      maxTokens
+    })
+    // 备用模型链：跳过当前模型与未配置的模型
+    llmService.updateFallbackModels(
+      fallbackModels
+        .map(id => allModels.find(item => item.id === id))
+        .filter((item): item is NonNullable<typeof item> => !!item && item.id !== model.id)
+        .map(item => ({ ...getModelConfig(item), params: modelParams[item.id] }))
+        .filter(config => isModelAvailable(config))
+    )
+    return currentModelConfig
+  }
 
   const handleSendMessage = async (
     inputValue: string,
     selectedText?: SelectedSnippet,
-    uploadedImages: ImageInfo[] = []
+    uploadedImages: ImageInfo[] = [],
+    baseMessages: Message[] = messages, // 新消息之前的对话，编辑重发时为截断后的消息
+    onStart?: () => void // 通过检查、确实开始发送时调用
   ) => {
     if (!inputValue.trim() || isStreaming) return
 
     // 确保有选中的模型，如果没有选中模型，使用第一个可用模型
-    const currentModel = selectedModel || allModels[0]
+    // 选中模型为保存时的快照，优先使用模型列表中的最新配置（能力、上下文窗口等）
+    const currentModel = allModels.find(model => model.id === selectedModel?.id) || selectedModel || allModels[0]
 
     if (!currentModel) {
       error('没有可用的模型，请在设置中配置模型和API Key。', {
@@ -84,24 +182,25 @@ export const useMessageHandler = ({
       return
     }
 
-    // 每次发送消息时重新获取最新的模型配置
-    const currentModelConfig = getModelConfig(currentModel)
-
-    // 检查当前模型是否可用
-    if (!currentModelConfig.api_key || !currentModelConfig.base_url) {
-      error(`当前模型 ${currentModel.display_name} 未配置 API Key 或 Base URL，请在设置中配置后再使用。`, {
-        title: '配置错误'
-      })
-      return
+    const currentModelConfig = prepareLLMService(currentModel)
+    if (!currentModelConfig) return
+
+    // 对比模式：同一提示并发发送给选中的 2-3 个可用模型
+    let compareConfigs: CompareModelConfig[] | undefined
+    if (compareMode) {
+      const configs = compareModels
+        .map(id => allModels.find(model => model.id === id))
+        .filter((model): model is NonNullable<typeof model> => !!model)
+        .map(model => ({ ...getModelConfig(model), id: model.id, params: modelParams[model.id] }))
+        .filter(config => isModelAvailable(config))
+        .slice(0, MAX_COMPARE_MODELS)
+      if (configs.length >= 2) {
+        compareConfigs = configs
+      } else {
+        info('对比模式需要至少两个已配置的模型，本次按普通模式发送。', { title: '对比模式' })
+      }
     }
 
-    // 使用最新的模型配置更新 LLM 服务
-    llmService.updateModel(currentModelConfig)
-    llmService.updateGenerationParams({
-      temperature: modelTemperature,
-      maxTokens
-    })
-
     // 调试信息
     console.log('Sending message with model:', currentModelConfig.display_name)
     console.log('API Key available:', !!currentModelConfig.api_key)
@@ -118,7 +217,7 @@ export const useMessageHandler = ({
 
     // 如果是第一条用户消息且没有设置聊天名称，自动设置名称
     if (onChatNameChange && (!currentChatName || currentChatName === "")) {
-      const firstUserMessage = messages.find(msg => msg.isUser)
+      const firstUserMessage = baseMessages.find(msg => msg.isUser)
       if (!firstUserMessage) {
         const name = truncateText(inputValue, 20)
         onChatNameChange(name)
@@ -126,8 +225,9 @@ export const useMessageHandler = ({
     }
 
     // 添加用户消息
-    onMessagesChange([...messages, userMessage])
+    onMessagesChange([...baseMessages, userMessage])
     setIsStreaming(true)
+    onStart?.()
 
     // 创建 AI 回复消息
     const aiMessageId = generateId()
@@ -140,7 +240,7 @@ export const useMessageHandler = ({
       isWaiting: true,
       waitingStartTime: new Date()
     }
-    onMessagesChange([...messages, userMessage, aiMessage])
+    onMessagesChange([...baseMessages, userMessage, aiMessage])
 
     try {
       await processStreamingResponse(
@@ -148,7 +248,8 @@ export const useMessageHandler = ({
         selectedText,
         uploadedImages,
         currentModelConfig,
-        aiMessageId
+        aiMessageId,
+        { compareConfigs, history: baseMessages }
       )
     } catch (error) {
       await handleStreamingError(error, aiMessageId)
@@ -162,35 +263,58 @@ export const useMessageHandler = ({
     inputValue: string,
     selectedText: SelectedSnippet | undefined,
     uploadedImages: ImageInfo[],
-    currentModelConfig: any,
-    aiMessageId: string
+    currentModelConfig: ModelConfig,
+    aiMessageId: string,
+    { compareConfigs, history = messages, updateSummary = true }: StreamingOptions = {}
   ) => {
     // 准备聊天历史
     const chatHistory: ChatMessage[] = []
+    // 对比模式下提示按所有参与模型共同支持的能力构建
+    const targetModels: ModelConfig[] = compareConfigs || [currentModelConfig]
+
+    // 模型不支持图片输入时不发送图片（包括历史消息中的图片）
+    const noImageModels = targetModels.filter(model => model.multimodal === false)
+    const supportsImages = noImageModels.length === 0
+    const imageNotes: string[] = []
+    if (!supportsImages && uploadedImages.length > 0) {
+      imageNotes.push(`${noImageModels.map(model => model.display_name).join('、')} 不支持图片输入，未发送 ${uploadedImages.length} 张图片`)
+      uploadedImages = []
+    }
 
-    // 0. 发送前强制刷新当前文件（避免使用过期内容）
+    // 0. 发送前增量同步其他文档（仅获取版本变化的文件），并强制刷新当前文件（避免使用过期内容）
     let effectiveExtractedFiles = extractedFiles
+    let currentFileName: string | undefined
+    if (syncFiles) {
+      try {
+        effectiveExtractedFiles = (await syncFiles()) || extractedFiles
+      } catch (error) {
+        console.warn('[ChatOverleaf] Failed to sync files before send:', error)
+      }
+    }
     if (refreshCurrentFile) {
       try {
         const refreshed = await refreshCurrentFile()
         if (refreshed) {
-          let existingIndex = extractedFiles.findIndex(file => file.name === refreshed.name)
+          const baseFiles = effectiveExtractedFiles
+          let existingIndex = baseFiles.findIndex(file => file.name === refreshed.name)
           if (existingIndex < 0) {
             const baseName = refreshed.name.split('/').pop()
             if (baseName) {
-              existingIndex = extractedFiles.findIndex(file => file.name.split('/').pop() === baseName)
+              existingIndex = baseFiles.findIndex(file => file.name.split('/').pop() === baseName)
             }
           }
           if (existingIndex >= 0) {
-            const updated = [...extractedFiles]
+            const updated = [...baseFiles]
             updated[existingIndex] = {
               ...updated[existingIndex],
               content: refreshed.content,
               length: refreshed.length
             }
             effectiveExtractedFiles = updated
+            currentFileName = updated[existingIndex].name
           } else {
-            effectiveExtractedFiles = [...extractedFiles, refreshed]
+            effectiveExtractedFiles = [...baseFiles, refreshed]
+            currentFileName = refreshed.name
           }
         }
       } catch (error) {
@@ -198,14 +322,55 @@ export const useMessageHandler = ({
       }
     }
 
+    // 记录发送给模型的文件内容，作为本条回复中修改的快照（应用时据此判断文档是否已被改动）
+    const fileSnapshots: FileSnapshots = Object.fromEntries(effectiveExtractedFiles.map(file => [file.name, file.content]))
+    onMessagesChange(prev => prev.map(msg => msg.id === aiMessageId ? { ...msg, fileSnapshots } : msg))
+
+    // 支持工具调用的模型通过编辑工具提交修改，否则回退到文本标记格式；对比模式统一使用文本标记
+    const useTools = !compareConfigs && llmService.supportsTools()
+    // Agent 模式需要模型支持工具调用
+    const useAgent = agentMode && useTools
+    if (agentMode && !useAgent) {
+      info(compareConfigs
+        ? '对比模式暂不支持 Agent 模式，本次按普通模式发送。'
+        : '当前模型未确认支持工具调用，本次按普通模式发送。', { title: 'Agent 模式' })
+    }
+    const tools = useAgent ? [...AGENT_TOOLS, ...EDIT_TOOLS] : EDIT_TOOLS
+
     // 1. 添加系统提示，帮助LLM理解消息格式和文件编辑功能
+    // 提示缓存：系统提示、摘要与历史构成跨轮次稳定的前缀，每轮变化的文件列表、文件内容和当前问题一律放在其后
+    const basePrompt = useTools ? TOOL_SYSTEM_PROMPT : SYSTEM_PROMPT
     chatHistory.push({
       role: 'system',
-      content: SYSTEM_PROMPT
+      content: useAgent ? `${basePrompt}\n\n${AGENT_SYSTEM_PROMPT}` : basePrompt,
+      cacheBreakpoint: true
     })
 
-    // 2. 添加最近的对话历史（最多10条）
-    const recentMessages = messages.slice(-10).filter(msg => !msg.isStreaming)
+    // 2. 对话历史：超出预算时较早的消息并入摘要，实际发送多少由上下文预算决定
+    await loadTokenizer(currentModelConfig.model_name)
+    const historyPlan = planHistory(history, conversationSummary, currentModelConfig.model_name)
+    let summary = historyPlan.summary
+    let recentMessages = historyPlan.recent
+    const summaryNotes: string[] = []
+    if (historyPlan.toSummarize.length > 0) {
+      try {
+        const text = await summarizeConversation(llmService, summary?.text, historyPlan.toSummarize)
+        summary = {
+          text,
+          coveredUntil: historyPlan.toSummarize[historyPlan.toSummarize.length - 1].id,
+          updatedAt: new Date()
+        }
+        if (updateSummary) onSummaryChange?.(summary)
+        summaryNotes.push(`已将较早的 ${historyPlan.toSummarize.length} 条消息压缩为对话摘要（可在聊天历史中查看和编辑）`)
+      } catch (error) {
+        console.warn('[ChatOverleaf] Failed to summarize conversation:', error)
+        recentMessages = historyPlan.fallback
+      }
+    }
+    const summaryMessages = summary ? [buildSummaryMessage(summary)] : []
+    chatHistory.push(...summaryMessages)
+
+    const historyMessages: ChatMessage[] = []
     recentMessages.forEach(msg => {
       if (msg.isUser) {
         // 构建用户消息内容，合并选中文本、用户消息和图片
@@ -246,7 +411,7 @@ export const useMessageHandler = ({
         }
 
         // 添加图片
-        if (msg.images && msg.images.length > 0) {
+        if (supportsImages && msg.images && msg.images.length > 0) {
           msg.images.forEach(imageInfo => {
             messageContent.push({
               type: 'image_url',
@@ -258,15 +423,15 @@ export const useMessageHandler = ({
           })
         }
 
-        chatHistory.push({
+        historyMessages.push({
           role: 'user',
           content: messageContent.length === 1 && messageContent[0].type === 'text'
             ? messageContent[0].text
             : messageContent
         })
-      } else {
-        // AI回复消息
-        chatHistory.push({
+      } else if (msg.content) {
+        // AI回复消息（未保留回答的对比消息不计入历史）
+        historyMessages.push({
           role: 'assistant',
           content: msg.content
         })
@@ -289,7 +454,72 @@ export const useMessageHandler = ({
       console.warn('[ChatOverleaf] Failed to fetch entity tree:', error)
     }
 
-    // 3. 添加当前用户消息（合并选中文本、用户消息和图片）
+    // 3. 文件内容：Agent 模式只告知文件名，检索模式发送命中片段，二者不参与裁剪
+    const selectedFilesData = effectiveExtractedFiles.filter(file => selectedFiles.has(file.name))
+    // 当前文件优先保留
+    const prioritizedFiles = [...selectedFilesData].sort(
+      (a, b) => Number(b.name === currentFileName) - Number(a.name === currentFileName)
+    )
+    let fixedFileMessages: ChatMessage[] = []
+    let budgetFiles: ExtractedFile[] = []
+    if (useAgent && selectedFilesData.length > 0) {
+      fixedFileMessages = [{
+        role: 'user',
+        content: `[用户当前关注的文件]\n${selectedFilesData.map(file => file.name).join('\n')}\n（如需内容请调用 read_file 读取。）`
+      }]
+    } else if (selectedFilesData.length > 0 && retrievalMode) {
+      // 检索模式只发送与问题（含选中内容）相关的片段，未命中时发送完整文件
+      const query = [inputValue, selectedText?.text].filter(Boolean).join('\n')
+      const chunkMessages = FileContentProcessor.processFilesWithRetrieval(selectedFilesData, query)
+      if (chunkMessages) {
+        fixedFileMessages = chunkMessages
+      } else {
+        budgetFiles = prioritizedFiles
+      }
+    } else {
+      budgetFiles = prioritizedFiles
+    }
+
+    // 4. 按模型上下文窗口裁剪：选中内容 > 当前文件 > 其他文件 > 文件列表 > 历史对话
+    // 对比模式按可用输入最小的模型裁剪，保证所有模型收到相同的提示
+    const inputLimit = Math.min(...targetModels.map(model => {
+      const contextWindow = getContextWindow(model) ?? DEFAULT_CONTEXT_WINDOW
+      const outputLimit = model.params?.maxTokens ?? maxTokens
+      return contextWindow - Math.min(outputLimit, getMaxOutputTokens(model) ?? outputLimit)
+    }))
+    const budget = fitContextBudget({
+      modelName: currentModelConfig.model_name,
+      inputLimit,
+      fixed: [
+        ...chatHistory,
+        {
+          role: 'user',
+          content: [
+            { type: 'text', text: inputValue },
+            ...uploadedImages.map(image => ({ type: 'image_url' as const, image_url: { url: image.dataUrl } }))
+          ]
+        },
+        ...fixedFileMessages
+      ],
+      selection: selectedText?.text,
+      files: budgetFiles,
+      entityTree: entityTreePromptText || undefined,
+      history: historyMessages
+    })
+    chatHistory.push(...budget.history)
+    // 缓存断点：稳定前缀到此为止
+    chatHistory[chatHistory.length - 1] = { ...chatHistory[chatHistory.length - 1], cacheBreakpoint: true }
+    const contextNotes = [...imageNotes, ...summaryNotes, ...budget.notes]
+    if (contextNotes.length > 0) {
+      onMessagesChange(prev => prev.map(msg =>
+        msg.id === aiMessageId ? { ...msg, contextNotes } : msg
+      ))
+    }
+    const currentSelection = selectedText && budget.selection !== undefined
+      ? { ...selectedText, text: budget.selection }
+      : selectedText
+
+    // 5. 添加当前用户消息（合并选中文本、用户消息和图片）
     const currentMessageContent: Array<{
       type: 'text' | 'image_url'
       text?: string
@@ -301,18 +531,18 @@ export const useMessageHandler = ({
 
     // 构建当前消息的文本内容 - 使用特殊标记区分当前选中内容
     let currentTextContent = ""
-    if (selectedText && selectedText.text && inputValue.trim()) {
+    if (currentSelection && currentSelection.text && inputValue.trim()) {
       // 有选中内容和用户问题的情况 - 使用特殊标记强调这是当前消息的选中内容
-      currentTextContent = `[当前消息的用户选中内容]\n${selectedText.text}`
-      if (selectedText.fileName) {
-        currentTextContent += `\n\n[选中文件路径]\n${selectedText.fileName}`
+      currentTextContent = `[当前消息的用户选中内容]\n${currentSelection.text}`
+      if (currentSelection.fileName) {
+        currentTextContent += `\n\n[选中文件路径]\n${currentSelection.fileName}`
       }
       currentTextContent += `\n\n[当前消息的用户问题]\n${inputValue}`
-    } else if (selectedText && selectedText.text) {
+    } else if (currentSelection && currentSelection.text) {
       // 只有选中内容没有问题的情况
-      currentTextContent = `[当前消息的用户选中内容]\n${selectedText.text}`
-      if (selectedText.fileName) {
-        currentTextContent += `\n\n[选中文件路径]\n${selectedText.fileName}`
+      currentTextContent = `[当前消息的用户选中内容]\n${currentSelection.text}`
+      if (currentSelection.fileName) {
+        currentTextContent += `\n\n[选中文件路径]\n${currentSelection.fileName}`
       }
     } else if (inputValue.trim()) {
       // 只有问题没有选中内容的情况
@@ -339,20 +569,25 @@ export const useMessageHandler = ({
       })
     }
 
-    // 3.1 先推送文件列表提示（作为 user 角色，声明系统自动提供；放在最新用户消息前，避免前缀缓存失效）
-    if (entityTreePromptText) {
+    // 5.1 先推送文件列表提示（作为 user 角色，声明系统自动提供；放在最新用户消息前，避免前缀缓存失效）
+    if (budget.entityTree) {
       chatHistory.push({
         role: 'user',
-        content: `[系统自动提供的真实项目文件列表]\n${entityTreePromptText}\n（此块为系统通过 getEntities API 实时获取的项目实体树，真实路径以此为准。）`
+        content: `[系统自动提供的真实项目文件列表]\n${budget.entityTree}\n（此块为系统通过 getEntities API 实时获取的项目实体树，真实路径以此为准。）`
       })
     }
 
-    // 3.2 将最新文件内容紧挨着文件列表提示推送，强调为实时内容
-    const selectedFilesData = effectiveExtractedFiles.filter(file => selectedFiles.has(file.name))
-    if (selectedFilesData.length > 0) {
-      const fileMessages = await FileContentProcessor.processFilesForModel(selectedFilesData)
+    // 5.2 将最新文件内容紧挨着文件列表提示推送，强调为实时内容
+    if (fixedFileMessages.length > 0) {
+      chatHistory.push(...fixedFileMessages)
+    } else if (budget.files.length > 0) {
+      const fileMessages = await FileContentProcessor.processFilesForModel(budget.files)
       chatHistory.push(...fileMessages)
     }
+    // 缓存断点：文件内容之后（Agent 多轮调用时复用）
+    if (budget.entityTree || fixedFileMessages.length > 0 || budget.files.length > 0) {
+      chatHistory[chatHistory.length - 1] = { ...chatHistory[chatHistory.length - 1], cacheBreakpoint: true }
+    }
 
     chatHistory.push({
       role: 'user',
@@ -365,17 +600,44 @@ export const useMessageHandler = ({
     const controller = new AbortController()
     setAbortController(controller)
 
+    if (compareConfigs) {
+      await streamCompareResponses(chatHistory, compareConfigs, aiMessageId, controller.signal)
+      return
+    }
+
     // 开始流式对话
     let fullContent = ""
     let fullThinking = ""
     let thinkingFinished = false
-    let hasError = false
+    let toolSteps: AgentToolStep[] | undefined
+    let editCommands: ReplaceCommand[] | undefined
+    let usage: MessageUsage | undefined
+    let answeredBy: string | undefined
+
+    const stream: AsyncGenerator<StreamResponse & { toolSteps?: AgentToolStep[]; editCommands?: ReplaceCommand[] }> = useTools
+      ? runAgentLoop(llmService, chatHistory, effectiveExtractedFiles, tools, controller.signal)
+      : llmService.streamChat(chatHistory, controller.signal)
+
+    // 带工具的请求被拒绝（400）且尚未调用工具时，去掉工具、改用文本标记格式重发一次
+    async function* withToolsFallback(): typeof stream {
+      for await (const response of stream) {
+        if (response.toolsRejected && !response.toolSteps?.length && !controller.signal.aborted) {
+          chatHistory[0] = { ...chatHistory[0], content: SYSTEM_PROMPT }
+          info('当前模型的接口不接受工具调用参数，已改用文本标记格式重发。', { title: '工具调用' })
+          for await (const retried of llmService.streamChat(chatHistory, controller.signal)) {
+            if (retried.finished && !retried.error) llmService.markToolsUnsupported()
+            yield retried
+          }
+          return
+        }
+        yield response
+      }
+    }
 
-    for await (const response of llmService.streamChat(chatHistory, controller.signal)) {
+    for await (const response of withToolsFallback()) {
       if (controller.signal.aborted) break
 
       if (response.error) {
-        hasError = true
         fullContent = `❌ **API 调用出错**\n\n**错误信息：**\n${response.error}`
       } else {
         fullContent = response.content
@@ -387,6 +649,19 @@ export const useMessageHandler = ({
           thinkingFinished = response.thinkingFinished
         }
       }
+      if (response.toolSteps?.length) {
+        toolSteps = response.toolSteps
+      }
+      if (response.editCommands?.length) {
+        editCommands = response.editCommands
+      }
+      if (response.answeredBy) {
+        answeredBy = response.answeredBy.display_name
+      }
+      if (response.finished && response.usage) {
+        const modelName = response.answeredBy?.model_name || currentModelConfig.model_name
+        usage = buildMessageUsage(response.usage, modelName, modelPrices)
+      }
 
       onMessagesChange(prev => prev.map(msg =>
         msg.id === aiMessageId
@@ -397,7 +672,11 @@ export const useMessageHandler = ({
               isWaiting: false,
               waitingStartTime: undefined,
               thinking: fullThinking || undefined,
-              thinkingFinished
+              thinkingFinished,
+              toolSteps,
+              editCommands,
+              usage,
+              answeredBy
             }
           : msg
       ))
@@ -408,6 +687,154 @@ export const useMessageHandler = ({
     }
   }
 
+  // 对比模式：并发请求各模型，回答分别写入 compareResponses
+  const streamCompareResponses = async (
+    chatHistory: ChatMessage[],
+    configs: CompareModelConfig[],
+    aiMessageId: string,
+    signal: AbortSignal
+  ) => {
+    const updateResponse = (index: number, patch: Partial<CompareResponse>) => {
+      onMessagesChange(prev => prev.map(msg => {
+        if (msg.id !== aiMessageId || !msg.compareResponses) return msg
+        return {
+          ...msg,
+          isWaiting: false,
+          waitingStartTime: undefined,
+          compareResponses: msg.compareResponses.map((response, i) => i === index ? { ...response, ...patch } : response)
+        }
+      }))
+    }
+
+    onMessagesChange(prev => prev.map(msg =>
+      msg.id === aiMessageId
+        ? {
+            ...msg,
+            compareResponses: configs.map(config => ({
+              modelId: config.id,
+              modelName: config.display_name,
+              content: '',
+              isStreaming: true
+            }))
+          }
+        : msg
+    ))
+
+    await Promise.all(configs.map(async (config, index) => {
+      const service = new LLMService(config)
+      service.updateGenerationParams({ temperature: modelTemperature, maxTokens })
+      let thinking: string | undefined
+      let thinkingFinished = false
+      try {
+        for await (const response of service.streamChat(chatHistory, signal)) {
+          if (signal.aborted) break
+          if (response.thinking) thinking = response.thinking
+          if (response.thinkingFinished !== undefined) thinkingFinished = response.thinkingFinished
+          updateResponse(index, {
+            content: response.error
+              ? `❌ **API 调用出错**\n\n**错误信息：**\n${response.error}`
+              : response.content,
+            error: !!response.error,
+            thinking,
+            thinkingFinished,
+            isStreaming: !response.finished,
+            ...(response.finished && response.usage
+              ? { usage: buildMessageUsage(response.usage, config.model_name, modelPrices) }
+              : {})
+          })
+          if (response.finished) break
+        }
+      } catch (err) {
+        const errorMessage = err instanceof Error ? err.message : '未知错误'
+        updateResponse(index, {
+          content: `❌ **请求处理出错**\n\n**错误信息：**\n${errorMessage}`,
+          error: true,
+          isStreaming: false
+        })
+      }
+    }))
+
+    // 全部结束（含中止）后统一收尾
+    onMessagesChange(prev => prev.map(msg =>
+      msg.id === aiMessageId
+        ? {
+            ...msg,
+            isStreaming: false,
+            isWaiting: false,
+            waitingStartTime: undefined,
+            compareResponses: msg.compareResponses?.map(response => ({ ...response, isStreaming: false }))
+          }
+        : msg
+    ))
+  }
+
+  // 编辑较早的用户消息并重新发送：截断其后的对话，保留原消息的选中内容与图片
+  // 编辑并重发：开始发送时返回 true，被拒绝（正在生成、无可用模型等）时返回 false
+  const handleEditAndResend = (messageId: string, newContent: string): Promise<boolean> => new Promise(resolve => {
+    if (isStreaming) return resolve(false)
+    const index = messages.findIndex(msg => msg.id === messageId && msg.isUser)
+    if (index === -1) return resolve(false)
+    const original = messages[index]
+    handleSendMessage(newContent, original.selectedText, original.images || [], messages.slice(0, index), () => resolve(true))
+      .finally(() => resolve(false))
+  })
+
+  // 重新生成回答：旧回答保留为版本，可在版本间切换
+  const handleRegenerate = async (messageId: string, options: RegenerateOptions = {}) => {
+    if (isStreaming) return
+
+    const aiIndex = messages.findIndex(msg => msg.id === messageId && !msg.isUser)
+    let userIndex = aiIndex - 1
+    while (userIndex >= 0 && !messages[userIndex].isUser) userIndex--
+    if (aiIndex === -1 || userIndex < 0) return
+    const userMessage = messages[userIndex]
+
+    const model = allModels.find(item => item.id === (options.modelId || selectedModel?.id)) || selectedModel || allModels[0]
+    if (!model) {
+      error('没有可用的模型，请在设置中配置模型和API Key。', {
+        title: '配置错误'
+      })
+      return
+    }
+    const currentModelConfig = prepareLLMService(model, options.temperature)
+    if (!currentModelConfig) return
+
+    onMessagesChange(prev => prev.map(msg =>
+      msg.id === messageId
+        ? {
+            ...startVariant(msg, { model: model.display_name, temperature: options.temperature }),
+            isStreaming: true,
+            isWaiting: true,
+            waitingStartTime: new Date()
+          }
+        : msg
+    ))
+    setIsStreaming(true)
+
+    try {
+      await processStreamingResponse(
+        userMessage.content,
+        userMessage.selectedText,
+        userMessage.images || [],
+        currentModelConfig,
+        messageId,
+        // 重新生成较早的回答时不覆盖当前对话的摘要
+        { history: messages.slice(0, userIndex), updateSummary: false }
+      )
+    } catch (error) {
+      await handleStreamingError(error, messageId)
+    } finally {
+      setIsStreaming(false)
+      setAbortController(null)
+      // 中止时同样保存已生成的部分
+      onMessagesChange(prev => prev.map(msg =>
+        msg.id === messageId
+          ? finishVariant({ ...msg, isStreaming: false, isWaiting: false, waitingStartTime: undefined })
+          : msg
+      ))
+    }
+  }
+
   const handleStreamingError = async (error: unknown, aiMessageId: string) => {
     console.error('Chat error:', error)
 
@@ -438,6 +865,8 @@ export const useMessageHandler = ({
   return {
     isStreaming,
     handleSendMessage,
+    handleRegenerate,
+    handleEditAndResend,
     handleStopStreaming
   }
 }
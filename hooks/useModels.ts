@@ -1,7 +1,8 @@
 import { useMemo } from "react"
 import { useSettings } from "./useSettings"
 import { builtinModels, getModelUniqueId } from "~lib/builtin-models"
-import { getAllProviders } from "~lib/providers"
+import { getAllProviders, getProviderBaseUrl } from "~lib/providers"
+import { inferModelCapabilities } from "~lib/model-capabilities"
 import type { ModelConfig, BaseModelConfig } from "~lib/builtin-models"
 import type { CustomModel } from "~store/types"
 
@@ -40,8 +41,10 @@ export const useModels = () => {
       // 内置模型现在也通过供应商获取配置，和自定义模型保持一致
       const modelConfig: ModelConfig = {
         ...baseModel,
-        base_url: provider.baseUrl,
+        api_format: baseModel.api_format || provider.apiFormat,
+        base_url: getProviderBaseUrl(provider, baseUrls),
         api_key: apiKeys[provider.name] || apiKeys[provider.id] || "", // 兼容新旧key格式
+        requires_api_key: provider.requiresApiKey,
       }
 
       return {
@@ -52,7 +55,7 @@ export const useModels = () => {
         providerDisplayName: provider.name
       }
     }).filter(Boolean) as ExtendedModelConfig[]
-  }, [builtinModels, allProviders, pinnedModels, apiKeys])
+  }, [builtinModels, allProviders, pinnedModels, apiKeys, baseUrls])
 
   // 将自定义模型转换为扩展模型配置
   const extendedCustomModels: ExtendedModelConfig[] = useMemo(() => {
@@ -60,14 +63,20 @@ export const useModels = () => {
       const provider = allProviders.find(p => p.id === customModel.providerId)
       if (!provider) return null
 
+      // 未记录能力的旧模型按名称推断
+      const inferred = inferModelCapabilities(customModel.modelName)
       const modelConfig: ModelConfig = {
         model_name: customModel.modelName,
-        base_url: provider.baseUrl,
+        base_url: getProviderBaseUrl(provider, baseUrls),
         api_key: apiKeys[provider.name] || apiKeys[provider.id] || "", // 兼容新旧key格式
+        requires_api_key: provider.requiresApiKey,
         display_name: customModel.displayName,
         provider: provider.name,
-        multimodal: false, // 默认值，可以后续扩展
-        api_format: 'openai' // 默认值，可以后续扩展
+        multimodal: customModel.multimodal ?? inferred.multimodal,
+        context_window: customModel.contextWindow,
+        max_output_tokens: customModel.maxOutputTokens,
+        supports_tools: customModel.supportsTools, // 未设置时发送前按模型名称与供应商推断
+        api_format: customModel.apiFormat || provider.apiFormat || 'openai' // 默认跟随供应商的接口格式
       }
 
       // 使用存储的ID，而不是重新生成
@@ -81,7 +90,7 @@ export const useModels = () => {
         providerDisplayName: provider.name
       }
     }).filter(Boolean) as ExtendedModelConfig[]
-  }, [customModels, allProviders, pinnedModels, apiKeys])
+  }, [customModels, allProviders, pinnedModels, apiKeys, baseUrls])
 
   // 合并所有模型
   const allModels: ExtendedModelConfig[] = useMemo(() => {
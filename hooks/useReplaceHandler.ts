@@ -2,17 +2,23 @@
  * 处理文件替换操作的 Hook
  */
 import { useState, useCallback, useEffect } from 'react'
-import { parseReplaceCommands, type ReplaceCommand, type ParseResult } from '~lib/replace-service'
-import { createDoc, createFolder } from '~contents/api'
+import { findSnapshotContent, formatFuzzyScore, parseReplaceCommands, validateCommandBatch, type FileSnapshots, type ReplaceCommand, type ParseResult } from '~lib/replace-service'
+import type { FuzzyMatch } from '~lib/fuzzy-match'
+import type { MergeConflict } from '~lib/three-way-merge'
+import { createDoc, createFolder, deleteEntity } from '~contents/api'
 
 interface UseReplaceHandlerProps {
   extractedFiles: Array<{ name: string; content: string }>
   refreshCurrentFile?: () => Promise<{ name: string; content: string; length: number } | null>
+  // 后台修改未打开的文件后同步文件缓存
+  onFileContentUpdated?: (filePath: string, content: string) => void
 }
 
 interface UseReplaceHandlerReturn {
-  // 解析消息中的替换命令
-  parseMessage: (content: string) => ParseResult
+  // 解析消息中的替换命令（snapshots 为该条回复发送时的文件内容）
+  parseMessage: (content: string, snapshots?: FileSnapshots) => ParseResult
+  // 注册编辑工具生成的替换命令
+  registerCommands: (commands: ReplaceCommand[], snapshots?: FileSnapshots) => void
   // 重置替换命令（用于切换历史记录）
   resetReplaceCommands: () => void
   // 替换命令状态管理
@@ -24,12 +30,24 @@ interface UseReplaceHandlerReturn {
   navigateToFile: (filePath: string) => Promise<{ success: boolean; error?: string }>
   // 执行替换
   applyReplace: (command: ReplaceCommand) => Promise<{ success: boolean; error?: string }>
+  // 解决冲突：用本次修改覆盖冲突区域的当前内容
+  overwriteConflict: (command: ReplaceCommand) => Promise<{ success: boolean; error?: string }>
+  // 确认模糊匹配：以找到的相似内容作为搜索内容执行替换
+  confirmFuzzyMatch: (command: ReplaceCommand) => Promise<{ success: boolean; error?: string }>
+  // 批量应用：先整体校验，任一失败则回滚已应用的修改
+  applyAll: (commands: ReplaceCommand[]) => Promise<BatchApplyResult>
+  // 是否正在批量应用
+  isBatchApplying: boolean
   // 撤销已应用的替换
   undoApply: (command: ReplaceCommand) => Promise<{ success: boolean; error?: string }>
   // 撤销已拒绝的替换
   undoReject: (command: ReplaceCommand) => Promise<{ success: boolean; error?: string }>
   // 检查文件是否当前打开
   checkCurrentFile: (filePath: string) => Promise<{ isCurrentFile: boolean; currentFile: string }>
+  // 在编辑器中定位到第几处匹配（多处匹配时逐个查看）
+  locateOccurrence: (command: ReplaceCommand, occurrence: number) => Promise<{ success: boolean; count: number; error?: string }>
+  // 记录用户选择修改的匹配位置及当时的匹配总数，传入 undefined 恢复默认（全部替换/第一处锚点）
+  setCommandOccurrences: (id: string, occurrences?: number[], occurrenceCount?: number) => void
   // 智能预览：如果文件已打开则预览，否则导航到文件
   smartPreview: (command: ReplaceCommand) => Promise<{ success: boolean; error?: string; action: 'preview' | 'navigate' }>
   // 正在应用的命令 ID
@@ -44,6 +62,15 @@ interface UseReplaceHandlerReturn {
   removeAllHoverHighlights: () => Promise<void>
 }
 
+export interface BatchApplyResult {
+  success: boolean
+  error?: string
+  // 仍保留在文档中的修改数（失败时为回滚未成功的修改数）
+  appliedCount: number
+  // 校验未通过的命令
+  invalid?: Array<{ id: string; error: string }>
+}
+
 // 生成请求 ID
 function generateRequestId(): string {
   return `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
@@ -96,6 +123,22 @@ function isAlreadyExistsError(message?: string): boolean {
   return /already exists|已存在|exists/i.test(message)
 }
 
+// 按路径查找已提取的文件内容
+function findFileContent(files: Array<{ name: string; content: string }>, filePath: string): string | undefined {
+  const file = files.find(f => 
+    f.name === filePath || 
+    f.name.endsWith('/' + filePath) ||
+    filePath.endsWith('/' + f.name)
+  )
+  return file?.content
+}
+
+// 采用模糊匹配找到的相似内容作为搜索内容（用于确认后应用与撤销）
+function adoptFuzzyMatch(command: ReplaceCommand): ReplaceCommand {
+  if (!command.fuzzyMatch) return command
+  return { ...command, search: command.fuzzyMatch.text, fuzzyMatch: undefined }
+}
+
 function areCommandsEquivalent(a: ReplaceCommand, b: ReplaceCommand): boolean {
   if (a.file !== b.file) return false
   if (a.search !== b.search) return false
@@ -113,39 +156,47 @@ function areCommandsEquivalent(a: ReplaceCommand, b: ReplaceCommand): boolean {
 
 export const useReplaceHandler = ({ 
   extractedFiles,
-  refreshCurrentFile
+  refreshCurrentFile,
+  onFileContentUpdated
 }: UseReplaceHandlerProps): UseReplaceHandlerReturn => {
   const [replaceCommands, setReplaceCommands] = useState<Map<string, ReplaceCommand>>(new Map())
   const [applyingCommandId, setApplyingCommandId] = useState<string | null>(null)
+  const [isBatchApplying, setIsBatchApplying] = useState(false)
   
+  // 合并新命令到状态映射（已存在且内容相同的命令保留原状态）
+  // 新命令记录发送给模型时的文件内容作为快照；没有快照时（如旧历史记录）只按当前文档匹配
+  const registerCommands = useCallback((commands: ReplaceCommand[], snapshots?: FileSnapshots) => {
+    if (commands.length === 0) return
+    const withSnapshot = (cmd: ReplaceCommand): ReplaceCommand =>
+      cmd.snapshot !== undefined || cmd.commandType === 'create' || !snapshots
+        ? cmd
+        : { ...cmd, snapshot: findSnapshotContent(snapshots, cmd.file) }
+    setReplaceCommands(prev => {
+      let hasNewCommand = false
+      const newMap = new Map(prev)
+      commands.forEach(cmd => {
+        const existing = newMap.get(cmd.id)
+        if (!existing) {
+          newMap.set(cmd.id, withSnapshot(cmd))
+          hasNewCommand = true
+          return
+        }
+        const shouldReplace = !areCommandsEquivalent(existing, cmd)
+        if (shouldReplace) {
+          newMap.set(cmd.id, withSnapshot(cmd))
+          hasNewCommand = true
+        }
+      })
+      return hasNewCommand ? newMap : prev
+    })
+  }, [])
+
   // 解析消息中的替换命令
-  const parseMessage = useCallback((content: string): ParseResult => {
+  const parseMessage = useCallback((content: string, snapshots?: FileSnapshots): ParseResult => {
     const result = parseReplaceCommands(content)
-    
-    // 更新命令状态映射
-    if (result.commands.length > 0) {
-      setReplaceCommands(prev => {
-        let hasNewCommand = false
-        const newMap = new Map(prev)
-        result.commands.forEach(cmd => {
-          const existing = newMap.get(cmd.id)
-          if (!existing) {
-            newMap.set(cmd.id, cmd)
-            hasNewCommand = true
-            return
-          }
-          const shouldReplace = !areCommandsEquivalent(existing, cmd)
-          if (shouldReplace) {
-            newMap.set(cmd.id, cmd)
-            hasNewCommand = true
-          }
-        })
-        return hasNewCommand ? newMap : prev
-      })
-    }
-    
+    registerCommands(result.commands, snapshots)
     return result
-  }, [])
+  }, [registerCommands])
 
   const resetReplaceCommands = useCallback(() => {
     setReplaceCommands(new Map())
@@ -161,20 +212,42 @@ export const useReplaceHandler = ({
       const newMap = new Map(prev)
       const cmd = newMap.get(id)
       if (cmd) {
-        newMap.set(id, { ...cmd, status, errorMessage })
+        newMap.set(id, { ...cmd, status, errorMessage, fuzzyMatch: undefined, conflict: undefined })
       }
       return newMap
     })
   }, [])
+
+  // 记录冲突内容，等待用户处理
+  const setConflict = useCallback((id: string, conflict: MergeConflict) => {
+    setReplaceCommands(prev => {
+      const cmd = prev.get(id)
+      if (!cmd) return prev
+      const newMap = new Map(prev)
+      newMap.set(id, { ...cmd, status: 'error', errorMessage: '修改生成后该处内容已被改动，请确认如何处理', conflict })
+      return newMap
+    })
+  }, [])
+
+  // 记录模糊匹配候选，等待用户确认
+  const setFuzzyMatchCandidate = useCallback((id: string, fuzzyMatch: FuzzyMatch, highlighted = true) => {
+    setReplaceCommands(prev => {
+      const cmd = prev.get(id)
+      if (!cmd) return prev
+      const newMap = new Map(prev)
+      newMap.set(id, {
+        ...cmd,
+        status: 'error',
+        errorMessage: `未找到精确匹配，${highlighted ? '已高亮' : '找到'}最相似的内容（${formatFuzzyScore(fuzzyMatch.score)}），确认后才会应用`,
+        fuzzyMatch: { text: fuzzyMatch.text, score: fuzzyMatch.score }
+      })
+      return newMap
+    })
+  }, [])
   
   // 获取文件内容
   const getFileContent = useCallback((filePath: string): string | undefined => {
-    const file = extractedFiles.find(f => 
-      f.name === filePath || 
-      f.name.endsWith('/' + filePath) ||
-      filePath.endsWith('/' + f.name)
-    )
-    return file?.content
+    return findFileContent(extractedFiles, filePath)
   }, [extractedFiles])
   
   // 导航到文件
@@ -367,6 +440,39 @@ export const useReplaceHandler = ({
     }
   }, [])
   
+  // 后台修改未打开的文件（不切换编辑器标签），成功后同步文件缓存
+  const applyInBackground = useCallback(async (
+    filePath: string,
+    edit: Pick<ReplaceCommand, 'search' | 'replace' | 'isRegex' | 'commandType' | 'insertAnchor' | 'occurrences' | 'occurrenceCount' | 'snapshot'>
+  ): Promise<{ success: boolean; error?: string; conflict?: MergeConflict; fuzzyMatch?: FuzzyMatch; channelUnavailable?: boolean }> => {
+    try {
+      const result = await sendMessageToMainWorld<{
+        success: boolean
+        error?: string
+        content?: string
+        conflict?: MergeConflict
+        fuzzyMatch?: FuzzyMatch
+        channelUnavailable?: boolean
+      }>('APPLY_IN_BACKGROUND', {
+        filePath,
+        search: edit.search,
+        replace: edit.replace,
+        isRegex: edit.isRegex,
+        commandType: edit.commandType || 'replace',
+        insertAnchor: edit.insertAnchor,
+        occurrences: edit.occurrences,
+        occurrenceCount: edit.occurrenceCount,
+        snapshot: edit.snapshot
+      }, 15000)
+      if (result.success && result.content !== undefined) {
+        onFileContentUpdated?.(filePath, result.content)
+      }
+      return result
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : '后台修改失败', channelUnavailable: true }
+    }
+  }, [onFileContentUpdated])
+
   // 执行替换
   const applyReplace = useCallback(async (command: ReplaceCommand): Promise<{ success: boolean; error?: string }> => {
     setApplyingCommandId(command.id)
@@ -379,9 +485,29 @@ export const useReplaceHandler = ({
         }
         return result
       }
-      // 若当前已打开目标文件，则无需等待；否则先导航并等待加载
+      // 若当前已打开目标文件，则无需等待；否则优先后台修改，实时通道不可用时再导航并等待加载
       const fileStatus = await checkCurrentFile(command.file)
       if (!fileStatus.isCurrentFile) {
+        const backgroundResult = await applyInBackground(command.file, command)
+        if (backgroundResult.success) {
+          updateCommandStatus(command.id, 'applied')
+          return { success: true }
+        }
+        if (backgroundResult.conflict) {
+          setConflict(command.id, backgroundResult.conflict)
+          return { success: false, error: backgroundResult.error }
+        }
+        // 内容原因的失败（未找到、匹配数量变化、相似候选）在原处提示，不切换用户当前的文件
+        if (backgroundResult.fuzzyMatch) {
+          setFuzzyMatchCandidate(command.id, backgroundResult.fuzzyMatch, false)
+          return { success: false, error: backgroundResult.error }
+        }
+        if (!backgroundResult.channelUnavailable) {
+          updateCommandStatus(command.id, 'error', backgroundResult.error)
+          return { success: false, error: backgroundResult.error }
+        }
+        console.warn('[ChatOverleaf] Background channel unavailable, fallback to navigation:', backgroundResult.error)
+
         const navResult = await navigateToFile(command.file)
         if (!navResult.success) {
           updateCommandStatus(command.id, 'error', navResult.error)
@@ -401,7 +527,8 @@ export const useReplaceHandler = ({
             replace: command.replace, 
             isRegex: command.isRegex,
             commandType: command.commandType,
-            insertAnchor: command.insertAnchor
+            insertAnchor: command.insertAnchor,
+            occurrences: command.occurrences
           }
         )
         if (!visibility.visible && visibility.hasMatch && typeof visibility.pos === 'number') {
@@ -424,6 +551,8 @@ export const useReplaceHandler = ({
         success: boolean
         error?: string
         replacedCount: number 
+        fuzzyMatch?: FuzzyMatch
+        conflict?: MergeConflict
       }>(
         'REPLACE_IN_EDITOR',
         { 
@@ -431,7 +560,10 @@ export const useReplaceHandler = ({
           replace: command.replace, 
           isRegex: command.isRegex,
           commandType: command.commandType || 'replace',
-          insertAnchor: command.insertAnchor
+          insertAnchor: command.insertAnchor,
+          occurrences: command.occurrences,
+          occurrenceCount: command.occurrenceCount,
+          snapshot: command.snapshot
         }
       )
       
@@ -439,6 +571,27 @@ export const useReplaceHandler = ({
         updateCommandStatus(command.id, 'applied')
         await refreshCurrentFile?.()
         return { success: true }
+      } else if (replaceResult.conflict) {
+        setConflict(command.id, replaceResult.conflict)
+        return { success: false, error: replaceResult.error }
+      } else if (replaceResult.fuzzyMatch) {
+        // 找到相似内容：不直接应用，高亮候选区域等待确认
+        setFuzzyMatchCandidate(command.id, replaceResult.fuzzyMatch)
+        await sendMessageToMainWorld<{ success: boolean; count: number }>(
+          'ADD_HIGHLIGHT_REGIONS',
+          {
+            commands: [{
+              id: command.id,
+              file: command.file,
+              search: replaceResult.fuzzyMatch.text,
+              replace: command.replace,
+              isRegex: false,
+              commandType: command.commandType
+            }],
+            shouldScroll: true
+          }
+        ).catch(error => console.warn('[ChatOverleaf] Failed to highlight fuzzy match:', error))
+        return { success: false, error: replaceResult.error }
       } else {
         updateCommandStatus(command.id, 'error', replaceResult.error)
         return { success: false, error: replaceResult.error }
@@ -450,8 +603,86 @@ export const useReplaceHandler = ({
     } finally {
       setApplyingCommandId(null)
     }
-  }, [checkCurrentFile, createFileWithFolders, navigateToFile, refreshCurrentFile, updateCommandStatus])
+  }, [applyInBackground, checkCurrentFile, createFileWithFolders, navigateToFile, refreshCurrentFile, setConflict, setFuzzyMatchCandidate, updateCommandStatus])
+
+  // 覆盖冲突：以冲突区域的当前内容作为搜索内容，替换为本次修改后的内容
+  const overwriteConflict = useCallback(async (command: ReplaceCommand): Promise<{ success: boolean; error?: string }> => {
+    const { conflict } = command
+    if (!conflict?.theirs.trim()) {
+      return { success: false, error: '冲突区域已被删除，无法覆盖' }
+    }
+    const resolved: ReplaceCommand = {
+      ...command,
+      search: conflict.theirs,
+      replace: conflict.ours,
+      isRegex: false,
+      commandType: 'replace',
+      insertAnchor: undefined,
+      occurrences: undefined,
+      occurrenceCount: undefined,
+      snapshot: undefined,
+      conflict: undefined
+    }
+    setReplaceCommands(prev => new Map(prev).set(command.id, resolved))
+    return applyReplace(resolved)
+  }, [applyReplace])
+
+  // 确认模糊匹配：以候选原文替换搜索内容后按精确匹配应用
+  const confirmFuzzyMatch = useCallback(async (command: ReplaceCommand): Promise<{ success: boolean; error?: string }> => {
+    if (!command.fuzzyMatch) {
+      return { success: false, error: '没有待确认的相似内容' }
+    }
+    const confirmed = adoptFuzzyMatch(command)
+    setReplaceCommands(prev => new Map(prev).set(command.id, confirmed))
+    return applyReplace(confirmed)
+  }, [applyReplace])
   
+  // 定位到指定的匹配位置：必要时先打开文件，再选中并居中显示该处匹配
+  const locateOccurrence = useCallback(async (
+    command: ReplaceCommand,
+    occurrence: number
+  ): Promise<{ success: boolean; count: number; error?: string }> => {
+    try {
+      const fileCheck = await checkCurrentFile(command.file)
+      if (!fileCheck.isCurrentFile) {
+        const navResult = await navigateToFile(command.file)
+        if (!navResult.success) {
+          return { success: false, count: 0, error: navResult.error }
+        }
+        await new Promise(resolve => setTimeout(resolve, 600))
+      }
+
+      const search = command.commandType === 'insert'
+        ? (command.insertAnchor?.after || command.insertAnchor?.before || command.search)
+        : command.search
+      const result = await sendMessageToMainWorld<{ success: boolean; positions: Array<{ from: number; to: number }> }>(
+        'HIGHLIGHT_IN_EDITOR',
+        { search, isRegex: command.isRegex, occurrence }
+      )
+      if (!result.success || result.positions.length === 0) {
+        return { success: false, count: 0, error: '未找到匹配内容' }
+      }
+      return { success: true, count: result.positions.length }
+    } catch (error) {
+      return { success: false, count: 0, error: error instanceof Error ? error.message : '定位失败' }
+    }
+  }, [checkCurrentFile, navigateToFile])
+
+  // 记录用户选择的匹配位置
+  const setCommandOccurrences = useCallback((id: string, occurrences?: number[], occurrenceCount?: number) => {
+    setReplaceCommands(prev => {
+      const cmd = prev.get(id)
+      if (!cmd) return prev
+      const newMap = new Map(prev)
+      newMap.set(id, {
+        ...cmd,
+        occurrences: occurrences ? [...occurrences].sort((a, b) => a - b) : undefined,
+        occurrenceCount: occurrences ? occurrenceCount : undefined
+      })
+      return newMap
+    })
+  }, [])
+
   // 智能预览：导航到文件并显示悬浮高亮（统一 UI）
   const smartPreview = useCallback(async (command: ReplaceCommand): Promise<{
     success: boolean
@@ -480,7 +711,9 @@ export const useReplaceHandler = ({
             replace: command.replace,
             isRegex: command.isRegex,
             commandType: command.commandType,
-            insertAnchor: command.insertAnchor
+            insertAnchor: command.insertAnchor,
+            occurrences: command.occurrences,
+            occurrenceCount: command.occurrenceCount
           }],
           shouldScroll: true
         }
@@ -527,7 +760,9 @@ export const useReplaceHandler = ({
             replace: cmd.replace,
             isRegex: cmd.isRegex,
             commandType: cmd.commandType,
-            insertAnchor: cmd.insertAnchor
+            insertAnchor: cmd.insertAnchor,
+            occurrences: cmd.occurrences,
+            occurrenceCount: cmd.occurrenceCount
           })),
           shouldScroll
         }
@@ -552,7 +787,9 @@ export const useReplaceHandler = ({
           replace: command.replace,
           isRegex: command.isRegex,
           commandType: command.commandType,
-          insertAnchor: command.insertAnchor
+          insertAnchor: command.insertAnchor,
+          occurrences: command.occurrences,
+          occurrenceCount: command.occurrenceCount
         }
       )
       
@@ -571,8 +808,24 @@ export const useReplaceHandler = ({
   // 撤销已应用：尝试将替换/插入内容还原，并恢复为 pending 再重新高亮
   const undoApply = useCallback(async (command: ReplaceCommand): Promise<{ success: boolean; error?: string }> => {
     try {
+      // 插入的撤销为删除插入内容，替换的撤销为反向替换
+      const revertEdit = command.commandType === 'insert'
+        ? { search: command.replace, replace: '', isRegex: false, commandType: 'replace' as const }
+        : { search: command.replace, replace: command.search, isRegex: command.isRegex, commandType: 'replace' as const }
+
       const fileStatus = await checkCurrentFile(command.file)
       if (!fileStatus.isCurrentFile) {
+        const backgroundResult = await applyInBackground(command.file, revertEdit)
+        if (backgroundResult.success) {
+          updateCommandStatus(command.id, 'pending')
+          return { success: true }
+        }
+        if (!backgroundResult.channelUnavailable) {
+          updateCommandStatus(command.id, 'error', backgroundResult.error)
+          return { success: false, error: backgroundResult.error }
+        }
+        console.warn('[ChatOverleaf] Background channel unavailable, fallback to navigation:', backgroundResult.error)
+
         const navResult = await navigateToFile(command.file)
         if (!navResult.success) {
           return { success: false, error: navResult.error }
@@ -580,31 +833,10 @@ export const useReplaceHandler = ({
         await new Promise(resolve => setTimeout(resolve, 200))
       }
 
-      let revertResult: { success: boolean; error?: string; replacedCount: number }
-      
-      if (command.commandType === 'insert') {
-        // 插入操作的撤销：删除插入的内容（搜索插入内容并替换为空）
-        revertResult = await sendMessageToMainWorld<{ success: boolean; error?: string; replacedCount: number }>(
-          'REPLACE_IN_EDITOR',
-          { 
-            search: command.replace,  // 搜索插入的内容
-            replace: '',              // 替换为空（删除）
-            isRegex: false,
-            commandType: 'replace'
-          }
-        )
-      } else {
-        // 替换操作的撤销：反向替换
-        revertResult = await sendMessageToMainWorld<{ success: boolean; error?: string; replacedCount: number }>(
-          'REPLACE_IN_EDITOR',
-          { 
-            search: command.replace, 
-            replace: command.search, 
-            isRegex: command.isRegex,
-            commandType: 'replace'
-          }
-        )
-      }
+      const revertResult = await sendMessageToMainWorld<{ success: boolean; error?: string; replacedCount: number }>(
+        'REPLACE_IN_EDITOR',
+        revertEdit
+      )
 
       if (!revertResult.success) {
         updateCommandStatus(command.id, 'error', revertResult.error)
@@ -619,7 +851,94 @@ export const useReplaceHandler = ({
       updateCommandStatus(command.id, 'error', errMsg)
       return { success: false, error: errMsg }
     }
-  }, [checkCurrentFile, navigateToFile, reactivateHighlight, updateCommandStatus])
+  }, [applyInBackground, checkCurrentFile, navigateToFile, reactivateHighlight, updateCommandStatus])
+
+  // 批量应用：校验 -> 按顺序应用 -> 失败时逐条撤销已应用的修改
+  const applyAll = useCallback(async (commands: ReplaceCommand[]): Promise<BatchApplyResult> => {
+    const pending = commands.filter(cmd => cmd.status === 'pending')
+    if (pending.length === 0) {
+      return { success: true, appliedCount: 0 }
+    }
+
+    setIsBatchApplying(true)
+    try {
+      // 校验前刷新当前文件，避免使用过期内容
+      const current = await refreshCurrentFile?.()
+      const readContent = (filePath: string) => {
+        if (current && (current.name === filePath || current.name.endsWith('/' + filePath) || filePath.endsWith('/' + current.name))) {
+          return current.content
+        }
+        return getFileContent(filePath)
+      }
+
+      const invalid = validateCommandBatch(pending, readContent)
+      // 新建的文件可能尚未提取，再向项目确认不存在同名文件
+      for (const command of pending) {
+        if (command.commandType !== 'create' || invalid.some(item => item.id === command.id)) continue
+        if (await getFileIdByPath(normalizePath(command.file))) {
+          invalid.push({ id: command.id, error: `文件 ${command.file} 已存在，无法新建` })
+        }
+      }
+      if (invalid.length > 0) {
+        return {
+          success: false,
+          error: `${invalid.length} 处修改校验未通过，未应用任何修改`,
+          appliedCount: 0,
+          invalid
+        }
+      }
+
+      const applied: ReplaceCommand[] = []
+      for (const command of pending) {
+        const result = await applyReplace(command)
+        if (result.success) {
+          applied.push(command)
+          continue
+        }
+
+        // 按相反顺序逐条撤销已应用的修改（只撤销本批次写入的内容，保留协作者的改动），删除本批次新建的文件
+        const rollbackErrors: string[] = []
+        const unrestored = new Set<string>()
+        const deleteCreated = async (filePath: string): Promise<{ success: boolean; error?: string }> => {
+          const fileId = await getFileIdByPath(normalizePath(filePath))
+          return fileId ? deleteEntity(fileId, 'doc') : { success: false, error: '未找到新建的文件' }
+        }
+        // 新建失败时文件可能已经创建
+        if (command.commandType === 'create' && await getFileIdByPath(normalizePath(command.file))) {
+          const deleted = await deleteCreated(command.file)
+          if (!deleted.success) rollbackErrors.push(`${command.file}: ${deleted.error || '删除失败'}`)
+        }
+        for (const done of [...applied].reverse()) {
+          let undone: { success: boolean; error?: string }
+          if (done.commandType === 'create') {
+            undone = await deleteCreated(done.file)
+            if (undone.success) updateCommandStatus(done.id, 'pending')
+          } else {
+            // undoApply 成功后会恢复为待处理并重新高亮
+            undone = await undoApply(done)
+          }
+          if (!undone.success) {
+            unrestored.add(done.id)
+            rollbackErrors.push(`${done.file}: ${undone.error || '撤销失败'}`)
+          }
+        }
+        await refreshCurrentFile?.()
+
+        const rollbackNote = rollbackErrors.length > 0
+          ? `；以下修改回滚失败，请手动检查：${rollbackErrors.join('；')}`
+          : '，已回滚全部已应用的修改'
+        return {
+          success: false,
+          error: `应用 ${command.file} 失败：${result.error || '未知错误'}${rollbackNote}`,
+          appliedCount: unrestored.size
+        }
+      }
+
+      return { success: true, appliedCount: applied.length }
+    } finally {
+      setIsBatchApplying(false)
+    }
+  }, [applyReplace, getFileContent, getFileIdByPath, refreshCurrentFile, undoApply, updateCommandStatus])
 
   // 撤销已拒绝：恢复 pending 并重新高亮
   const undoReject = useCallback(async (command: ReplaceCommand): Promise<{ success: boolean; error?: string }> => {
@@ -668,6 +987,11 @@ export const useReplaceHandler = ({
         
         if (action === 'accepted') {
           if (success) {
+            // 在编辑器中接受模糊匹配候选，同样视为确认
+            setReplaceCommands(prev => {
+              const cmd = prev.get(id)
+              return cmd?.fuzzyMatch ? new Map(prev).set(id, adoptFuzzyMatch(cmd)) : prev
+            })
             updateCommandStatus(id, 'applied')
           } else {
             updateCommandStatus(id, 'error', error)
@@ -684,15 +1008,22 @@ export const useReplaceHandler = ({
   
   return {
     parseMessage,
+    registerCommands,
     resetReplaceCommands,
     replaceCommands,
     updateCommandStatus,
     getFileContent,
     navigateToFile,
     applyReplace,
+    overwriteConflict,
+    confirmFuzzyMatch,
+    applyAll,
+    isBatchApplying,
     undoApply,
     undoReject,
     checkCurrentFile,
+    locateOccurrence,
+    setCommandOccurrences,
     smartPreview,
     applyingCommandId,
     highlightAllPending,
@@ -2,6 +2,7 @@ import { useSelector, useDispatch } from "react-redux"
 import { useEffect } from "react"
 import type { RootState, AppDispatch } from "~store"
 import type { ModelConfig } from "~lib/builtin-models"
+import type { ModelPrice, ModelParams } from "~store/types"
 import { builtinProviders } from "~lib/providers"
 import {
   setApiKey,
@@ -23,7 +24,14 @@ import {
   toggleProviderEnabled,
   setProviderEnabled,
   setModelTemperature,
-  setMaxTokens
+  setMaxTokens,
+  setAgentMode,
+  setRetrievalMode,
+  setModelPrices,
+  setFallbackModels,
+  setModelParams,
+  setCompareMode,
+  setCompareModels
 } from "~store/slices/settings.slice"
 
 export const useSettings = () => {
@@ -42,7 +50,14 @@ export const useSettings = () => {
     settingsCategory = "model-service",
     enabledProviders = {},
     modelTemperature = 0.36,
-    maxTokens = 16384
+    maxTokens = 16384,
+    agentMode = false,
+    retrievalMode = false,
+    modelPrices = {},
+    fallbackModels = [],
+    modelParams = {},
+    compareMode = false,
+    compareModels = []
   } = settingsState || {}
 
   // 初始化设置 - 使用新的供应商配置系统
@@ -62,7 +77,7 @@ export const useSettings = () => {
       { name: '硅基流动', baseUrl: 'https://api.siliconflow.cn/v1' },
       { name: 'DeepSeek', baseUrl: 'https://api.deepseek.com/v1' },
       { name: 'OpenAI', baseUrl: 'https://api.openai.com/v1' },
-      { name: 'Gemini', baseUrl: 'https://generativelanguage.googleapis.com/v1beta/openai' },
+      { name: 'Gemini', baseUrl: 'https://generativelanguage.googleapis.com/v1beta' },
       { name: 'Anthropic', baseUrl: 'https://api.anthropic.com/v1' },
     ]
 
@@ -85,15 +100,17 @@ export const useSettings = () => {
   // 检查模型是否可用（有 API key 和 base URL）
   const isModelAvailable = (model: ModelConfig): boolean => {
     const config = getModelConfig(model)
-    const available = !!(config.api_key && config.base_url)
+    const available = !!(config.base_url && (config.api_key || config.requires_api_key === false))
 
     return available
   }
 
   // 检查供应商是否启用
   const isProviderEnabled = (providerId: string): boolean => {
-    // 默认所有供应商都是启用的，除非明确设置为false
-    return enabledProviders[providerId] !== false
+    if (providerId in enabledProviders) return enabledProviders[providerId] !== false
+    // 未设置时默认启用；本地服务无需 API Key，按预设默认关闭，避免未运行的服务出现在模型列表中
+    const provider = builtinProviders.find(p => p.id === providerId)
+    return !provider?.isLocal || provider.enabled
   }
 
   return {
@@ -109,6 +126,13 @@ export const useSettings = () => {
     enabledProviders,
     modelTemperature,
     maxTokens,
+    agentMode,
+    retrievalMode,
+    modelPrices,
+    fallbackModels,
+    modelParams,
+    compareMode,
+    compareModels,
 
     // 方法
     setApiKey: (provider: string, apiKey: string) =>
@@ -144,6 +168,20 @@ export const useSettings = () => {
       dispatch(setModelTemperature(value)),
     setMaxTokens: (value: number) =>
       dispatch(setMaxTokens(value)),
+    setAgentMode: (value: boolean) =>
+      dispatch(setAgentMode(value)),
+    setRetrievalMode: (value: boolean) =>
+      dispatch(setRetrievalMode(value)),
+    setModelPrices: (value: Record<string, ModelPrice>) =>
+      dispatch(setModelPrices(value)),
+    setFallbackModels: (value: string[]) =>
+      dispatch(setFallbackModels(value)),
+    setModelParams: (value: Record<string, ModelParams>) =>
+      dispatch(setModelParams(value)),
+    setCompareMode: (value: boolean) =>
+      dispatch(setCompareMode(value)),
+    setCompareModels: (value: string[]) =>
+      dispatch(setCompareModels(value)),
     isProviderEnabled,
     initializeSettings,
     getModelConfig,
@@ -0,0 +1,78 @@
+import type { ChatMessage, LLMService, StreamResponse, TokenUsage, ToolDefinition } from './llm-service'
+import { executeAgentTool, formatToolArgs, type AgentFile, type AgentToolStep } from './agent-tools'
+import type { ReplaceCommand } from './replace-service'
+import { addUsage } from './usage'
+
+// 最多进行的工具调用轮数，超出后要求模型直接作答
+const MAX_AGENT_ROUNDS = 8
+
+export interface AgentStreamResponse extends StreamResponse {
+  toolSteps: AgentToolStep[]
+  editCommands: ReplaceCommand[] // 编辑工具生成的修改建议
+}
+
+/**
+ * 工具调用循环：模型请求工具 -> 执行工具 -> 回传结果，直到模型给出最终回答
+ * 输出与 streamChat 相同的增量结构，并附带工具步骤与修改建议用于气泡展示
+ */
+export async function* runAgentLoop(
+  llmService: LLMService,
+  messages: ChatMessage[],
+  files: AgentFile[],
+  tools: ToolDefinition[],
+  abortSignal?: AbortSignal
+): AsyncGenerator<AgentStreamResponse, void, unknown> {
+  const history = [...messages]
+  const toolSteps: AgentToolStep[] = []
+  const editCommands: ReplaceCommand[] = []
+  // 之前轮次累计的用量
+  let previousUsage: TokenUsage | undefined
+  // 之前轮次模型输出的正文（工具调用前的说明文字）
+  let previousContent = ''
+
+  const join = (content: string) =>
+    [previousContent, content].filter(Boolean).join('\n\n')
+
+  for (let round = 0; round <= MAX_AGENT_ROUNDS; round++) {
+    const isLastRound = round === MAX_AGENT_ROUNDS
+    let last: StreamResponse | null = null
+
+    for await (const chunk of llmService.streamChat(history, abortSignal, isLastRound ? undefined : tools)) {
+      last = chunk
+      if (chunk.finished) break
+      yield { ...chunk, content: join(chunk.content), toolSteps: [...toolSteps], editCommands: [...editCommands] }
+    }
+
+    if (!last) return
+    const usage = addUsage(previousUsage, last.usage)
+    const toolCalls = last.toolCalls
+    if (last.error || !toolCalls?.length || abortSignal?.aborted) {
+      yield { ...last, content: join(last.content), finished: true, toolSteps: [...toolSteps], editCommands: [...editCommands], usage }
+      return
+    }
+    previousUsage = usage
+
+    history.push({ role: 'assistant', content: last.content, tool_calls: toolCalls })
+
+    for (const call of toolCalls) {
+      const step: AgentToolStep = { id: call.id, name: call.name, args: formatToolArgs(call), status: 'running' }
+      toolSteps.push(step)
+      yield { ...last, content: join(last.content), finished: false, toolSteps: [...toolSteps], editCommands: [...editCommands] }
+
+      const result = await executeAgentTool(call, files)
+      step.status = result.isError ? 'error' : 'done'
+      step.summary = result.summary
+      if (result.command && !editCommands.some(command => command.id === result.command!.id)) {
+        editCommands.push(result.command)
+      }
+      history.push({ role: 'tool', tool_call_id: call.id, content: result.content })
+    }
+
+    previousContent = join(last.content)
+    yield { ...last, content: previousContent, finished: false, toolSteps: [...toolSteps], editCommands: [...editCommands] }
+
+    if (round === MAX_AGENT_ROUNDS - 1) {
+      history.push({ role: 'user', content: '工具调用次数已达上限，请基于已获取的信息直接给出最终回答。' })
+    }
+  }
+}
@@ -0,0 +1,215 @@
+import type { ToolCall, ToolDefinition } from './llm-service'
+import { getEntities } from '~contents/api'
+import { buildEntityTreePrompt } from '~components/chat/file/file-tree-utils'
+import { executeEditTool, isEditTool } from './edit-tools'
+import type { ReplaceCommand } from './replace-service'
+
+// Agent 可读取的文件（来自文件提取缓存）
+export interface AgentFile {
+  name: string
+  content: string
+  length: number
+}
+
+// 气泡中展示的工具调用步骤
+export interface AgentToolStep {
+  id: string
+  name: string
+  args: string // 参数摘要，用于展示
+  status: 'running' | 'done' | 'error'
+  summary?: string // 执行结果摘要
+}
+
+export interface AgentToolResult {
+  content: string // 返回给模型的内容
+  summary: string // 展示给用户的摘要
+  isError?: boolean
+  command?: ReplaceCommand // 编辑工具生成的待确认修改
+}
+
+// 单次工具结果的最大字符数，避免一次读入过长文件
+const MAX_TOOL_RESULT_CHARS = 60000
+const MAX_SEARCH_RESULTS = 50
+
+/**
+ * Agent 模式下提供给模型的工具
+ */
+export const AGENT_TOOLS: ToolDefinition[] = [
+  {
+    name: 'list_entities',
+    description: '获取当前 Overleaf 项目的实时文件树（文件夹与文件路径）。',
+    parameters: { type: 'object', properties: {} }
+  },
+  {
+    name: 'read_file',
+    description: '读取项目中某个文件的内容，可指定行号范围（从 1 开始，包含首尾）。',
+    parameters: {
+      type: 'object',
+      properties: {
+        path: { type: 'string', description: '文件路径，如 sections/intro.tex' },
+        start_line: { type: 'integer', description: '起始行号（可选）' },
+        end_line: { type: 'integer', description: '结束行号（可选）' }
+      },
+      required: ['path']
+    }
+  },
+  {
+    name: 'search_project',
+    description: '在已提取的项目文件中逐行搜索文本或正则，返回 路径:行号: 内容。',
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: '搜索内容' },
+        is_regex: { type: 'boolean', description: '是否按正则表达式搜索，默认 false' }
+      },
+      required: ['query']
+    }
+  }
+]
+
+/**
+ * Agent 模式追加的系统提示
+ */
+export const AGENT_SYSTEM_PROMPT = `# Agent 模式
+你可以调用工具按需获取项目信息，而不是要求用户手动选择文件：
+- list_entities：查看项目文件树
+- search_project：搜索关键字/命令定位相关文件与行号
+- read_file：读取文件内容（可按行号范围读取）
+修改文件前请先用 read_file 读取最新内容，保证定位文本与原文一致。信息足够后直接给出最终回答。`
+
+/**
+ * 按路径查找缓存文件：精确匹配 > 路径后缀匹配 > 文件名匹配
+ * 非精确匹配命中多个文件时抛出错误并列出候选，避免读写错误的文件
+ */
+export function findAgentFile(files: AgentFile[], path: string): AgentFile | undefined {
+  const target = path.trim().replace(/^\.?\//, '')
+  const exact = files.find(file => file.name === target)
+  if (exact) return exact
+
+  const bySuffix = files.filter(file => file.name.endsWith('/' + target) || target.endsWith('/' + file.name))
+  const candidates = bySuffix.length > 0
+    ? bySuffix
+    : files.filter(file => file.name.split('/').pop() === target.split('/').pop())
+  if (candidates.length > 1) {
+    throw new Error(`路径 ${path} 不明确，可能是：${candidates.map(file => file.name).join('、')}。请使用完整路径`)
+  }
+  return candidates[0]
+}
+
+function parseArgs(call: ToolCall): Record<string, any> {
+  try {
+    return call.arguments ? JSON.parse(call.arguments) : {}
+  } catch {
+    throw new Error(`工具参数不是合法 JSON: ${call.arguments}`)
+  }
+}
+
+function truncateResult(text: string): string {
+  if (text.length <= MAX_TOOL_RESULT_CHARS) return text
+  return `${text.slice(0, MAX_TOOL_RESULT_CHARS)}\n…（内容过长已截断，请按行号范围分段读取）`
+}
+
+async function listEntities(): Promise<AgentToolResult> {
+  const result = await getEntities()
+  if (!result.success || !result.data) {
+    return { content: `获取文件树失败: ${result.error || '未知错误'}`, summary: '获取失败', isError: true }
+  }
+  const entities = result.data.entities || []
+  const { text } = buildEntityTreePrompt(entities, result.data.project_id)
+  return { content: text, summary: `${entities.length} 个条目` }
+}
+
+function readFile(files: AgentFile[], args: Record<string, any>): AgentToolResult {
+  const file = findAgentFile(files, String(args.path || ''))
+  if (!file) {
+    return {
+      content: `未找到文件 ${args.path}。该文件可能尚未提取，可先调用 list_entities 确认路径，或提醒用户在文件列表中提取全部文件。`,
+      summary: '未找到文件',
+      isError: true
+    }
+  }
+
+  const lines = file.content.split('\n')
+  const start = Math.max(1, Number(args.start_line) || 1)
+  const end = Math.min(lines.length, Number(args.end_line) || lines.length)
+  if (start > end) {
+    return {
+      content: `行号范围无效：起始行 ${start} 大于结束行 ${end}（共 ${lines.length} 行）`,
+      summary: '行号范围无效',
+      isError: true
+    }
+  }
+  const slice = lines.slice(start - 1, end).join('\n')
+  const header = `《文件：${file.name}》第 ${start}-${end} 行（共 ${lines.length} 行）`
+  return { content: truncateResult(`${header}\n${slice}`), summary: `${file.name} 第 ${start}-${end} 行` }
+}
+
+function searchProject(files: AgentFile[], args: Record<string, any>): AgentToolResult {
+  const query = String(args.query || '')
+  if (!query) {
+    return { content: 'query 不能为空', summary: '参数错误', isError: true }
+  }
+
+  let matcher: (line: string) => boolean
+  if (args.is_regex) {
+    try {
+      const regex = new RegExp(query)
+      matcher = line => regex.test(line)
+    } catch (e) {
+      return { content: `正则表达式无效: ${query}`, summary: '正则无效', isError: true }
+    }
+  } else {
+    matcher = line => line.includes(query)
+  }
+
+  const hits: string[] = []
+  for (const file of files) {
+    const lines = file.content.split('\n')
+    for (let i = 0; i < lines.length && hits.length < MAX_SEARCH_RESULTS; i++) {
+      if (matcher(lines[i])) hits.push(`${file.name}:${i + 1}: ${lines[i].trim()}`)
+    }
+  }
+
+  if (hits.length === 0) {
+    return { content: `在 ${files.length} 个已提取文件中未找到 "${query}"`, summary: '无匹配' }
+  }
+  const suffix = hits.length >= MAX_SEARCH_RESULTS ? `\n…（仅显示前 ${MAX_SEARCH_RESULTS} 条）` : ''
+  return { content: truncateResult(hits.join('\n') + suffix), summary: `${hits.length} 处匹配` }
+}
+
+/**
+ * 执行单个工具调用，错误会转换为结果返回给模型
+ */
+export async function executeAgentTool(call: ToolCall, files: AgentFile[]): Promise<AgentToolResult> {
+  try {
+    const args = parseArgs(call)
+    if (isEditTool(call.name)) {
+      return executeEditTool(call.name, args, findAgentFile(files, String(args.file || ''))?.content)
+    }
+    switch (call.name) {
+      case 'list_entities':
+        return await listEntities()
+      case 'read_file':
+        return readFile(files, args)
+      case 'search_project':
+        return searchProject(files, args)
+      default:
+        return { content: `未知工具: ${call.name}`, summary: '未知工具', isError: true }
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : '工具执行失败'
+    return { content: message, summary: message, isError: true }
+  }
+}
+
+/**
+ * 生成工具参数的简短展示文本
+ */
+export function formatToolArgs(call: ToolCall): string {
+  try {
+    const args = call.arguments ? JSON.parse(call.arguments) : {}
+    return Object.values(args).map(value => String(value)).join(', ')
+  } catch {
+    return call.arguments
+  }
+}
@@ -1,10 +1,95 @@
 import type { ModelConfig } from './builtin-models'
-import type { ChatMessage } from './llm-service'
+import type { ModelParams } from '~store/types'
+import type { ChatMessage, StreamResponse, TokenUsage, ToolCall, ToolDefinition } from './llm-service'
+import { buildClaudeHeaders, convertToClaudeMessages, processClaudeStream } from './claude-adapter'
+import { buildGeminiHeaders, buildGeminiRequestBody, processGeminiStream } from './gemini-adapter'
+import { parseProviderModel, type ProviderModelInfo } from './model-capabilities'
+import { inspectedFetch, inspectStream } from './request-inspector'
 
 interface ChatOptions {
   temperature?: number
   max_tokens?: number
   maxTokens?: number
+  tools?: ToolDefinition[]
+}
+
+// 连接检测结果
+export interface ConnectionCheckResult {
+  ok: boolean
+  latency: number // 毫秒
+  models: ProviderModelInfo[]
+  error?: string
+}
+
+// 合并单模型参数后的生成选项
+interface ResolvedOptions {
+  temperature: number
+  maxTokens: number
+  params: ModelParams
+}
+
+/**
+ * OpenAI 推理模型（o 系列、GPT-5）不接受自定义 temperature，输出上限使用 max_completion_tokens
+ */
+function isOpenAIReasoningModel(modelName: string): boolean {
+  return /(^|\/)(o[1-9](-|$)|gpt-5(?!-chat))/.test(modelName.toLowerCase())
+}
+
+/**
+ * 解析额外请求体字段，非 JSON 对象时忽略
+ */
+function parseExtraBody(text?: string): Record<string, any> {
+  if (!text?.trim()) return {}
+  try {
+    const parsed = JSON.parse(text)
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed
+  } catch (error) {
+    console.warn('额外请求参数不是合法的 JSON，已忽略:', error)
+  }
+  return {}
+}
+
+// 不接受 stream_options 的模型（按 base_url 与模型名记录，仅在本次会话内有效）
+const streamUsageRejected = new Set<string>()
+
+// 400 错误是否由不识别 stream_options 引起（上下文超长等其他错误不重试）
+async function rejectsStreamUsage(response: Response): Promise<boolean> {
+  const text = await response.clone().text().catch(() => '')
+  return /stream_options|include_usage/i.test(text)
+}
+
+/**
+ * 将额外字段合并到请求体，对象字段（如 generationConfig）按一层深度合并
+ */
+function mergeExtraBody(body: Record<string, any>, extraBody?: string): Record<string, any> {
+  const merged = { ...body }
+  for (const [key, value] of Object.entries(parseExtraBody(extraBody))) {
+    const current = merged[key]
+    const isObject = (v: any) => v && typeof v === 'object' && !Array.isArray(v)
+    merged[key] = isObject(current) && isObject(value) ? { ...current, ...value } : value
+  }
+  return merged
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number
+  completion_tokens?: number
+  prompt_cache_hit_tokens?: number
+  prompt_tokens_details?: { cached_tokens?: number }
+  completion_tokens_details?: { reasoning_tokens?: number }
+}
+
+/**
+ * 解析 OpenAI 兼容接口的 usage（DeepSeek 使用 prompt_cache_hit_tokens 表示缓存命中）
+ */
+function parseOpenAIUsage(usage: OpenAIUsage | undefined): TokenUsage | undefined {
+  if (!usage) return undefined
+  return {
+    inputTokens: usage.prompt_tokens ?? 0,
+    outputTokens: usage.completion_tokens ?? 0,
+    cachedInputTokens: usage.prompt_tokens_details?.cached_tokens ?? usage.prompt_cache_hit_tokens,
+    reasoningTokens: usage.completion_tokens_details?.reasoning_tokens
+  }
 }
 
 /**
@@ -18,6 +103,18 @@ export class ApiClient {
     this.modelConfig = modelConfig
   }
 
+  /**
+   * 合并全局生成参数与单模型参数，单模型参数优先
+   */
+  private resolveOptions(options?: ChatOptions): ResolvedOptions {
+    const params = this.modelConfig.params || {}
+    return {
+      temperature: params.temperature ?? options?.temperature ?? 0.36,
+      maxTokens: params.maxTokens ?? options?.max_tokens ?? options?.maxTokens ?? 16384,
+      params
+    }
+  }
+
   /**
    * 智能构建API URL，避免路径重复
    * 支持多种API格式和路径结构
@@ -60,7 +157,7 @@ export class ApiClient {
   }
 
   /**
-   * 发送聊天请求 - 统一使用OpenAI格式
+   * 发送聊天请求 - 根据 api_format 选择请求格式
    */
   async sendChatRequest(
     messages: ChatMessage[],
@@ -68,7 +165,13 @@ export class ApiClient {
     abortSignal?: AbortSignal,
     options?: ChatOptions
   ): Promise<Response> {
-    // 所有模型都使用OpenAI兼容格式
+    if (this.modelConfig.api_format === 'claude') {
+      return this.sendClaudeRequest(messages, stream, abortSignal, options)
+    }
+    if (this.modelConfig.api_format === 'gemini') {
+      return this.sendGeminiRequest(messages, stream, abortSignal, options)
+    }
+    // 其余模型使用OpenAI兼容格式
     return this.sendOpenAIRequest(messages, stream, abortSignal, options)
   }
 
@@ -83,41 +186,152 @@ export class ApiClient {
   ): Promise<Response> {
     const headers = new Headers()
     headers.append('Accept', 'application/json')
-    headers.append('Authorization', `Bearer ${this.modelConfig.api_key}`)
+    // 本地服务可不填 API Key
+    if (this.modelConfig.api_key) {
+      headers.append('Authorization', `Bearer ${this.modelConfig.api_key}`)
+    }
     headers.append('Content-Type', 'application/json')
 
     const convertedMessages = messages.map(msg => this.convertToOpenAIMessage(msg))
 
-    // 输出最终发送给API的消息内容用于调试
-    console.log('=== 最终发送给API的消息 ===')
-    console.log('Model:', this.modelConfig.model_name)
-    console.log(convertedMessages)
-    console.log('=== API消息结束 ===')
+    const { temperature, maxTokens, params } = this.resolveOptions(options)
+    const reasoningModel = isOpenAIReasoningModel(this.modelConfig.model_name)
 
-    const body = JSON.stringify({
+    const usageKey = `${this.modelConfig.base_url}|${this.modelConfig.model_name}`
+    const buildBody = (includeUsage: boolean) => JSON.stringify(mergeExtraBody({
       model: this.modelConfig.model_name,
       messages: convertedMessages,
       stream,
-      temperature: options?.temperature ?? 0.36,
-      max_tokens: options?.max_tokens ?? options?.maxTokens ?? 16384   // 默认最大输出长度
-    })
+      // 流式请求要求在最后一个 chunk 返回 usage
+      ...(includeUsage ? { stream_options: { include_usage: true } } : {}),
+      // 推理模型只在单独配置了温度时发送
+      ...(reasoningModel
+        ? { max_completion_tokens: maxTokens, ...(params.temperature !== undefined ? { temperature } : {}) }
+        : { temperature, max_tokens: maxTokens }),
+      ...(params.topP !== undefined ? { top_p: params.topP } : {}),
+      ...(params.stop?.length ? { stop: params.stop } : {}),
+      ...(params.seed !== undefined ? { seed: params.seed } : {}),
+      ...(params.reasoningEffort ? { reasoning_effort: params.reasoningEffort } : {}),
+      ...(options?.tools?.length
+        ? { tools: options.tools.map(tool => ({ type: 'function', function: tool })) }
+        : {})
+    }, params.extraBody))
+    const send = (includeUsage: boolean) => inspectedFetch({
+      model: this.modelConfig,
+      url: this.buildUrl('/v1/chat/completions'),
+      headers,
+      body: buildBody(includeUsage),
+      messages,
+      tools: options?.tools
+    }, abortSignal)
+
+    // 未单独设置时默认发送 stream_options，部分中转或旧版服务不识别该字段会返回 400，此时去掉后重试并记住
+    const autoUsage = params.streamUsage === undefined
+    const includeUsage = stream && (params.streamUsage ?? !streamUsageRejected.has(usageKey))
+    const response = await send(includeUsage)
+    if (includeUsage && autoUsage && response.status === 400 && await rejectsStreamUsage(response)) {
+      await response.body?.cancel()
+      const retried = await send(false)
+      if (retried.ok) streamUsageRejected.add(usageKey)
+      return retried
+    }
+    return response
+  }
 
-    const fullUrl = this.buildUrl('/v1/chat/completions')
+  /**
+   * 发送Anthropic Messages格式请求（Claude 官方接口）
+   */
+  private async sendClaudeRequest(
+    messages: ChatMessage[],
+    stream: boolean,
+    abortSignal?: AbortSignal,
+    options?: ChatOptions
+  ): Promise<Response> {
+    const { system, messages: convertedMessages } = convertToClaudeMessages(messages)
 
-    return fetch(fullUrl, {
-      method: 'POST',
-      headers,
+    const { temperature, maxTokens, params } = this.resolveOptions(options)
+    const thinkingBudget = params.thinkingBudget ?? 0
+
+    const body = JSON.stringify(mergeExtraBody({
+      model: this.modelConfig.model_name,
+      ...(system ? { system } : {}),
+      messages: convertedMessages,
+      stream,
+      // 开启扩展思考时不能自定义温度，且 max_tokens 需大于思考预算
+      ...(thinkingBudget > 0
+        ? {
+            thinking: { type: 'enabled', budget_tokens: thinkingBudget },
+            max_tokens: Math.max(maxTokens, thinkingBudget + 1024)
+          }
+        : {
+            // Anthropic 的温度范围为 0~1
+            temperature: Math.min(temperature, 1),
+            max_tokens: maxTokens
+          }),
+      ...(params.topP !== undefined ? { top_p: params.topP } : {}),
+      ...(params.stop?.length ? { stop_sequences: params.stop } : {})
+    }, params.extraBody))
+
+    return inspectedFetch({
+      model: this.modelConfig,
+      url: this.buildUrl('/v1/messages'),
+      headers: buildClaudeHeaders(this.modelConfig.api_key),
       body,
-      signal: abortSignal
-    })
+      messages
+    }, abortSignal)
   }
 
-
+  /**
+   * 发送Gemini原生generateContent请求
+   * 流式使用 streamGenerateContent?alt=sse
+   */
+  private async sendGeminiRequest(
+    messages: ChatMessage[],
+    stream: boolean,
+    abortSignal?: AbortSignal,
+    options?: ChatOptions
+  ): Promise<Response> {
+    const modelName = this.modelConfig.model_name.replace(/^models\//, '')
+    const { temperature, maxTokens, params } = this.resolveOptions(options)
+    const requestBody = mergeExtraBody(buildGeminiRequestBody(messages, modelName, {
+      temperature,
+      maxTokens,
+      topP: params.topP,
+      stop: params.stop,
+      seed: params.seed,
+      thinkingBudget: params.thinkingBudget
+    }), params.extraBody)
+
+    const method = stream ? 'streamGenerateContent?alt=sse' : 'generateContent'
+    return inspectedFetch({
+      model: this.modelConfig,
+      url: this.buildUrl(`/v1beta/models/${modelName}:${method}`),
+      headers: buildGeminiHeaders(this.modelConfig.api_key),
+      body: JSON.stringify(requestBody),
+      messages
+    }, abortSignal)
+  }
 
   /**
    * 转换为OpenAI消息格式
    */
   private convertToOpenAIMessage(message: ChatMessage): any {
+    // 工具调用与工具结果消息
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.tool_call_id, content: message.content }
+    }
+    if (message.tool_calls?.length) {
+      return {
+        role: message.role,
+        content: typeof message.content === 'string' ? message.content || null : message.content,
+        tool_calls: message.tool_calls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: call.arguments }
+        }))
+      }
+    }
+
     if (typeof message.content === 'string') {
       return {
         role: message.role,
@@ -156,30 +370,25 @@ export class ApiClient {
 
 
   /**
-   * 处理流式响应 - 统一使用OpenAI格式
+   * 处理流式响应 - 根据 api_format 选择解析方式
    */
-  async *processStreamResponse(response: Response): AsyncGenerator<{
-    content: string
-    finished: boolean
-    error?: string
-    thinking?: string
-    thinkingFinished?: boolean
-  }, void, unknown> {
-    // 所有模型都使用OpenAI格式的流式响应处理
-    yield* this.processOpenAIStream(response)
+  async *processStreamResponse(response: Response): AsyncGenerator<StreamResponse, void, unknown> {
+    if (this.modelConfig.api_format === 'claude') {
+      yield* inspectStream(response, processClaudeStream(response))
+      return
+    }
+    if (this.modelConfig.api_format === 'gemini') {
+      yield* inspectStream(response, processGeminiStream(response))
+      return
+    }
+    yield* inspectStream(response, this.processOpenAIStream(response))
   }
 
   /**
    * 处理OpenAI格式的流式响应
    * 支持解析 reasoning_content (OpenAI o1/o3 思考链) 和其他格式
    */
-  private async *processOpenAIStream(response: Response): AsyncGenerator<{
-    content: string
-    finished: boolean
-    error?: string
-    thinking?: string
-    thinkingFinished?: boolean
-  }, void, unknown> {
+  private async *processOpenAIStream(response: Response): AsyncGenerator<StreamResponse, void, unknown> {
     const reader = response.body?.getReader()
     if (!reader) {
       yield { content: '', finished: true, error: 'No response body' }
@@ -190,6 +399,13 @@ export class ApiClient {
     let fullContent = ''
     let fullThinking = ''
     let thinkingFinished = false
+    let usage: TokenUsage | undefined
+    // 工具调用按 index 增量拼接
+    const toolCallParts: Array<{ id: string; name: string; arguments: string }> = []
+    const collectToolCalls = (): ToolCall[] | undefined => {
+      const calls = toolCallParts.filter(call => call && call.name)
+      return calls.length > 0 ? calls : undefined
+    }
     // 用于处理跨 chunk 的不完整数据
     let buffer = ''
 
@@ -225,13 +441,19 @@ export class ApiClient {
               content: fullContent, 
               finished: true, 
               thinking: fullThinking || undefined, 
-              thinkingFinished: true 
+              thinkingFinished: true,
+              toolCalls: collectToolCalls(),
+              usage
             }
             return
           }
 
           try {
             const parsed = JSON.parse(data)
+            // usage 通常出现在 choices 为空的最后一个 chunk 中
+            if (parsed.usage) {
+              usage = parseOpenAIUsage(parsed.usage)
+            }
             const choice = parsed.choices?.[0]
             const delta = choice?.delta
 
@@ -255,6 +477,17 @@ export class ApiClient {
                 fullContent += contentDelta
                 hasUpdate = true
               }
+
+              // 解析工具调用（name 与 arguments 分片下发）
+              if (Array.isArray(delta.tool_calls)) {
+                for (const callDelta of delta.tool_calls) {
+                  const index = callDelta.index ?? 0
+                  const part = toolCallParts[index] || (toolCallParts[index] = { id: '', name: '', arguments: '' })
+                  if (callDelta.id) part.id = callDelta.id
+                  if (callDelta.function?.name) part.name += callDelta.function.name
+                  if (callDelta.function?.arguments) part.arguments += callDelta.function.arguments
+                }
+              }
               
               // 只有当有更新时才 yield
               if (hasUpdate) {
@@ -285,6 +518,9 @@ export class ApiClient {
         if (data && data !== '[DONE]') {
           try {
             const parsed = JSON.parse(data)
+            if (parsed.usage) {
+              usage = parseOpenAIUsage(parsed.usage)
+            }
             const delta = parsed.choices?.[0]?.delta
             if (delta?.content) {
               fullContent += delta.content
@@ -303,7 +539,9 @@ export class ApiClient {
         content: fullContent, 
         finished: true, 
         thinking: fullThinking || undefined, 
-        thinkingFinished: true 
+        thinkingFinished: true,
+        toolCalls: collectToolCalls(),
+        usage
       }
     } catch (error) {
       yield {
@@ -317,46 +555,96 @@ export class ApiClient {
   }
 
   /**
-   * 获取模型列表
+   * 请求模型列表接口，失败时抛出错误
    */
-  async fetchModels(): Promise<{ id: string; name: string }[]> {
-    try {
-      const headers = new Headers()
-      headers.append('Authorization', `Bearer ${this.modelConfig.api_key}`)
+  private async requestModels(): Promise<ProviderModelInfo[]> {
+    const apiFormat = this.modelConfig.api_format
+    let headers = new Headers()
+    if (apiFormat === 'claude') {
+      headers = buildClaudeHeaders(this.modelConfig.api_key)
+    } else if (apiFormat === 'gemini') {
+      headers = buildGeminiHeaders(this.modelConfig.api_key)
+    } else {
+      if (this.modelConfig.api_key) {
+        headers.append('Authorization', `Bearer ${this.modelConfig.api_key}`)
+      }
       headers.append('Accept', 'application/json')
+    }
 
-      const fullUrl = this.buildUrl('/v1/models')
-      
-      const response = await fetch(fullUrl, {
-        method: 'GET',
-        headers
-      })
+    const fullUrl = this.buildUrl(apiFormat === 'gemini' ? '/v1beta/models' : '/v1/models')
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch models: ${response.statusText}`)
-      }
+    const response = await fetch(fullUrl, {
+      method: 'GET',
+      headers
+    })
 
-      const data = await response.json()
-      
-      // 处理不同API返回格式
-      if (data.data && Array.isArray(data.data)) {
-        return data.data.map((model: any) => ({
-          id: model.id || model.model,
-          name: model.id || model.model
-        }))
-      } else if (Array.isArray(data)) {
-        return data.map((model: any) => ({
-          id: model.id || model.model,
-          name: model.id || model.model
-        }))
-      }
-      
-      return []
+    if (!response.ok) {
+      throw new Error(`Failed to fetch models: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json()
+
+    // 处理不同API返回格式
+    if (Array.isArray(data.models)) {
+      // Gemini 原生格式：{ models: [{ name: 'models/xxx', displayName, inputTokenLimit }] }
+      return data.models.map(parseProviderModel)
+    } else if (data.data && Array.isArray(data.data)) {
+      return data.data.map(parseProviderModel)
+    } else if (Array.isArray(data)) {
+      return data.map(parseProviderModel)
+    }
+
+    return []
+  }
+
+  /**
+   * 获取模型列表
+   */
+  async fetchModels(): Promise<ProviderModelInfo[]> {
+    try {
+      return await this.requestModels()
     } catch (error) {
       console.error('Error fetching models:', error)
       return []
     }
   }
+
+  /**
+   * 检测连接：请求模型列表并记录耗时
+   */
+  async checkConnection(): Promise<ConnectionCheckResult> {
+    const start = Date.now()
+    try {
+      const models = await this.requestModels()
+      return { ok: true, latency: Date.now() - start, models }
+    } catch (error) {
+      return {
+        ok: false,
+        latency: Date.now() - start,
+        models: [],
+        error: error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+}
+
+/**
+ * 创建仅用于模型列表与连接检测的临时客户端
+ */
+function createProviderClient(
+  baseUrl: string,
+  apiKey: string,
+  apiFormat?: ModelConfig['api_format']
+): ApiClient {
+  return new ApiClient({
+    model_name: 'temp',
+    display_name: 'temp',
+    provider: 'temp',
+    base_url: baseUrl,
+    api_key: apiKey,
+    multimodal: false,
+    api_format: apiFormat
+  })
 }
 
 /**
@@ -364,22 +652,24 @@ export class ApiClient {
  */
 export async function fetchProviderModels(
   baseUrl: string,
-  apiKey: string
-): Promise<{ id: string; name: string }[]> {
+  apiKey: string,
+  apiFormat?: ModelConfig['api_format']
+): Promise<ProviderModelInfo[]> {
   try {
-    const tempConfig: ModelConfig = {
-      model_name: 'temp',
-      display_name: 'temp',
-      provider: 'temp',
-      base_url: baseUrl,
-      api_key: apiKey,
-      multimodal: false
-    }
-    
-    const client = new ApiClient(tempConfig)
-    return await client.fetchModels()
+    return await createProviderClient(baseUrl, apiKey, apiFormat).fetchModels()
   } catch (error) {
     console.error('Error in fetchProviderModels:', error)
     return []
   }
 }
+
+/**
+ * 静态方法：检测供应商连接是否可用
+ */
+export async function checkProviderConnection(
+  baseUrl: string,
+  apiKey: string,
+  apiFormat?: ModelConfig['api_format']
+): Promise<ConnectionCheckResult> {
+  return createProviderClient(baseUrl, apiKey, apiFormat).checkConnection()
+}
@@ -1,3 +1,5 @@
+import type { ModelParams } from '~store/types'
+
 // 基础模型配置接口（用于内置模型定义）
 export interface BaseModelConfig {
   model_name: string
@@ -9,12 +11,21 @@ export interface BaseModelConfig {
   image_resolution_threshold?: number
   // API格式类型
   api_format?: 'openai' | 'gemini' | 'claude'
+  // 上下文窗口与最大输出（token），未设置时按模型名称推断
+  context_window?: number
+  max_output_tokens?: number
+  // 是否支持工具调用，未设置时按接口格式、模型名称与供应商推断
+  supports_tools?: boolean
 }
 
 // 完整模型配置接口（包含运行时配置）
 export interface ModelConfig extends BaseModelConfig {
   base_url: string
   api_key: string
+  // 供应商是否要求 API Key（本地服务为 false）
+  requires_api_key?: boolean
+  // 单模型生成参数（发送时从设置中读取）
+  params?: ModelParams
 }
 
 // 内置模型配置 - 只包含模型基本信息，运行时配置通过供应商获取
@@ -0,0 +1,275 @@
+import type { ChatMessage, StreamResponse, TokenUsage } from './llm-service'
+
+// Anthropic Messages API 版本号
+export const ANTHROPIC_VERSION = '2023-06-01'
+// 单次请求最多允许的缓存断点数
+const MAX_CACHE_BREAKPOINTS = 4
+const CACHE_CONTROL: ClaudeCacheControl = { type: 'ephemeral' }
+
+interface ClaudeCacheControl {
+  type: 'ephemeral'
+}
+
+interface ClaudeTextBlock {
+  type: 'text'
+  text: string
+  cache_control?: ClaudeCacheControl
+}
+
+interface ClaudeImageBlock {
+  type: 'image'
+  source:
+    | { type: 'base64'; media_type: string; data: string }
+    | { type: 'url'; url: string }
+  cache_control?: ClaudeCacheControl
+}
+
+type ClaudeContentBlock = ClaudeTextBlock | ClaudeImageBlock
+
+interface ClaudeMessage {
+  role: 'user' | 'assistant'
+  content: ClaudeContentBlock[]
+}
+
+// 响应中的内容块（仅关心正文）
+interface ClaudeResponseBlock {
+  type: string
+  text?: string
+}
+
+interface ClaudeUsage {
+  input_tokens?: number
+  output_tokens?: number
+  cache_read_input_tokens?: number
+  cache_creation_input_tokens?: number
+}
+
+// 流式事件（仅关心用量、增量与错误）
+interface ClaudeStreamEvent {
+  type: string
+  error?: { message?: string }
+  message?: { usage?: ClaudeUsage }
+  usage?: ClaudeUsage
+  delta?: { type?: string; text?: string; thinking?: string }
+}
+
+/**
+ * 构建 Anthropic 请求头（浏览器直连需要额外声明）
+ */
+export function buildClaudeHeaders(apiKey: string): Headers {
+  const headers = new Headers()
+  headers.append('Accept', 'application/json')
+  headers.append('Content-Type', 'application/json')
+  headers.append('x-api-key', apiKey)
+  headers.append('anthropic-version', ANTHROPIC_VERSION)
+  headers.append('anthropic-dangerous-direct-browser-access', 'true')
+  return headers
+}
+
+/**
+ * 将 data URL 图片转换为 Anthropic image 内容块
+ * 非 data URL 的图片使用 url 类型来源
+ */
+function toClaudeImageBlock(url: string): ClaudeImageBlock {
+  const match = url.match(/^data:([^;]+);base64,(.*)$/)
+  if (match) {
+    return {
+      type: 'image',
+      source: { type: 'base64', media_type: match[1], data: match[2] }
+    }
+  }
+  return { type: 'image', source: { type: 'url', url } }
+}
+
+/**
+ * 将单条消息内容转换为 Anthropic 内容块数组
+ */
+function toClaudeContentBlocks(content: ChatMessage['content']): ClaudeContentBlock[] {
+  if (typeof content === 'string') {
+    return content ? [{ type: 'text', text: content }] : []
+  }
+
+  const blocks: ClaudeContentBlock[] = []
+  for (const part of content) {
+    if (part.type === 'text' && part.text) {
+      blocks.push({ type: 'text', text: part.text })
+    } else if (part.type === 'image_url' && part.image_url?.url) {
+      blocks.push(toClaudeImageBlock(part.image_url.url))
+    }
+  }
+  return blocks
+}
+
+/**
+ * 转换为 Anthropic 消息格式
+ * - 开头的 system 消息（系统提示）提取为顶层 system 字段
+ * - 历史之后的 system 消息（文件内容、检索片段）按 user 内容保留在原位置，避免文件变化使历史缓存失效
+ * - 相邻同角色消息合并，保证 user/assistant 交替
+ * - 标记了 cacheBreakpoint 的消息在最后一个内容块上加 cache_control
+ */
+export function convertToClaudeMessages(messages: ChatMessage[]): {
+  system: string | ClaudeTextBlock[]
+  messages: ClaudeMessage[]
+} {
+  const systemParts: string[] = []
+  let cacheSystem = false
+  const converted: ClaudeMessage[] = []
+  const breakpoints: ClaudeContentBlock[] = []
+
+  for (const message of messages) {
+    if (message.role === 'system' && converted.length === 0) {
+      const text = typeof message.content === 'string'
+        ? message.content
+        : message.content.map(part => part.text || '').join('\n')
+      if (text) systemParts.push(text)
+      cacheSystem ||= !!message.cacheBreakpoint
+      continue
+    }
+
+    const blocks = toClaudeContentBlocks(message.content)
+    if (blocks.length === 0) continue
+    if (message.cacheBreakpoint) {
+      breakpoints.push(blocks[blocks.length - 1])
+    }
+
+    // 工具结果按 user 内容处理
+    const role = message.role === 'assistant' ? 'assistant' : 'user'
+    const last = converted[converted.length - 1]
+    if (last && last.role === role) {
+      last.content.push(...blocks)
+    } else {
+      converted.push({ role, content: blocks })
+    }
+  }
+
+  // Anthropic 要求第一条消息必须来自 user
+  if (converted.length > 0 && converted[0].role !== 'user') {
+    converted.unshift({ role: 'user', content: [{ type: 'text', text: '(继续)' }] })
+  }
+
+  // 超出上限时保留靠后的断点（覆盖的前缀更长）
+  const limit = MAX_CACHE_BREAKPOINTS - (cacheSystem ? 1 : 0)
+  breakpoints.slice(-limit).forEach(block => {
+    block.cache_control = CACHE_CONTROL
+  })
+
+  const system = systemParts.join('\n\n')
+  return {
+    system: cacheSystem && system ? [{ type: 'text', text: system, cache_control: CACHE_CONTROL }] : system,
+    messages: converted
+  }
+}
+
+/**
+ * 解析非流式响应中的正文
+ */
+export function parseClaudeResponseText(data: { content?: ClaudeResponseBlock[] } | null): string {
+  const blocks: ClaudeResponseBlock[] = Array.isArray(data?.content) ? data.content : []
+  return blocks
+    .filter(block => block.type === 'text')
+    .map(block => block.text || '')
+    .join('')
+}
+
+/**
+ * 处理 Anthropic 格式的流式响应
+ * 解析 content_block_delta 中的 text_delta 与 thinking_delta
+ */
+export async function* processClaudeStream(
+  response: Response
+): AsyncGenerator<StreamResponse, void, unknown> {
+  const reader = response.body?.getReader()
+  if (!reader) {
+    yield { content: '', finished: true, error: 'No response body' }
+    return
+  }
+
+  const decoder = new TextDecoder()
+  let fullContent = ''
+  let fullThinking = ''
+  let thinkingFinished = false
+  let usage: TokenUsage | undefined
+  // 用于处理跨 chunk 的不完整数据
+  let buffer = ''
+
+  const snapshot = (finished: boolean, error?: string): StreamResponse => ({
+    content: fullContent,
+    finished,
+    error,
+    thinking: fullThinking || undefined,
+    thinkingFinished: finished || thinkingFinished,
+    usage: finished ? usage : undefined
+  })
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        const trimmedLine = line.trim()
+        // 只关心 data 行，事件类型在 data.type 中同样存在
+        if (!trimmedLine.startsWith('data:')) continue
+
+        let event: ClaudeStreamEvent
+        try {
+          event = JSON.parse(trimmedLine.slice(5).trim())
+        } catch (e) {
+          continue
+        }
+
+        if (event.type === 'error') {
+          yield snapshot(true, event.error?.message || 'Anthropic stream error')
+          return
+        }
+
+        // message_start 给出输入用量，message_delta 给出累计输出用量
+        if (event.type === 'message_start' && event.message?.usage) {
+          const u = event.message.usage
+          const cached = u.cache_read_input_tokens || 0
+          const written = u.cache_creation_input_tokens || 0
+          usage = {
+            inputTokens: (u.input_tokens || 0) + cached + written,
+            outputTokens: u.output_tokens || 0,
+            cachedInputTokens: cached || undefined,
+            cacheWriteTokens: written || undefined
+          }
+          continue
+        }
+        if (event.type === 'message_delta' && event.usage && usage) {
+          usage = { ...usage, outputTokens: event.usage.output_tokens ?? usage.outputTokens }
+          continue
+        }
+
+        if (event.type === 'message_stop') {
+          yield snapshot(true)
+          return
+        }
+
+        if (event.type !== 'content_block_delta') continue
+
+        const delta = event.delta
+        if (delta?.type === 'thinking_delta' && delta.thinking) {
+          fullThinking += delta.thinking
+          yield snapshot(false)
+        } else if (delta?.type === 'text_delta' && delta.text) {
+          // 当开始输出正文时，标记思考已完成
+          if (fullThinking && !thinkingFinished) {
+            thinkingFinished = true
+          }
+          fullContent += delta.text
+          yield snapshot(false)
+        }
+      }
+    }
+
+    // 流结束
+    yield snapshot(true)
+  } catch (error) {
+    yield snapshot(true, error instanceof Error ? error.message : 'Stream processing error')
+  }
+}
@@ -0,0 +1,143 @@
+import type { ChatMessage } from './llm-service'
+import { countTokens } from './tokenizer'
+
+/**
+ * 上下文预算
+ * 发送前按优先级裁剪内容：当前选中内容 > 当前文件 > 其他选中文件 > 文件列表 > 历史对话
+ */
+
+export interface BudgetFile {
+  name: string
+  content: string
+  length: number
+}
+
+export interface ContextBudgetInput {
+  modelName?: string
+  inputLimit: number // 可用于输入的 token 数（已扣除输出预留）
+  fixed: ChatMessage[] // 不可裁剪的消息：系统提示、当前问题等
+  selection?: string // 当前选中内容
+  files: BudgetFile[] // 已按优先级排序，当前文件在前
+  entityTree?: string
+  history: ChatMessage[] // 按时间顺序
+}
+
+export interface ContextBudgetResult {
+  selection?: string
+  files: BudgetFile[]
+  entityTree?: string
+  history: ChatMessage[]
+  notes: string[] // 展示给用户的裁剪说明
+}
+
+// 单条消息的格式开销
+const MESSAGE_OVERHEAD = 4
+// 与 token 估算保持一致：每张图片按 85 计
+const IMAGE_TOKENS = 85
+// 剩余预算低于此值时不再截断文件，直接跳过
+const MIN_FILE_TOKENS = 1000
+
+export function countMessageTokens(message: ChatMessage, modelName?: string): number {
+  const content = message.content
+  if (typeof content === 'string') return countTokens(content, modelName) + MESSAGE_OVERHEAD
+  if (!Array.isArray(content)) return MESSAGE_OVERHEAD
+  return content.reduce((sum, part) => {
+    if (part.type === 'text') return sum + countTokens(part.text || '', modelName)
+    return sum + IMAGE_TOKENS
+  }, MESSAGE_OVERHEAD)
+}
+
+/**
+ * 按 token 上限截断文本，保留开头并在行边界处截断
+ */
+export function truncateToTokens(text: string, maxTokens: number, modelName?: string): string {
+  let total = countTokens(text, modelName)
+  if (total <= maxTokens) return text
+  if (maxTokens <= 0) return ''
+
+  let result = text
+  // 按比例收缩，通常一到两次即可满足
+  for (let i = 0; i < 4 && total > maxTokens; i++) {
+    const length = Math.floor(result.length * (maxTokens / total) * 0.95)
+    const lineEnd = result.lastIndexOf('\n', length)
+    result = result.slice(0, lineEnd > length * 0.8 ? lineEnd : length)
+    total = countTokens(result, modelName)
+  }
+  return result
+}
+
+export function formatTokenCount(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens)
+}
+
+/**
+ * 在预算内选取上下文内容，返回裁剪后的各部分与说明
+ */
+export function fitContextBudget(input: ContextBudgetInput): ContextBudgetResult {
+  const { modelName, inputLimit } = input
+  const notes: string[] = []
+  let remaining = inputLimit - input.fixed.reduce((sum, msg) => sum + countMessageTokens(msg, modelName), 0)
+
+  // 1. 当前选中内容
+  let selection = input.selection
+  if (selection) {
+    const tokens = countTokens(selection, modelName)
+    if (tokens > remaining) {
+      selection = truncateToTokens(selection, Math.max(0, remaining), modelName)
+      notes.push(`选中内容过长（约 ${formatTokenCount(tokens)} token），仅发送了开头部分`)
+    }
+    remaining -= countTokens(selection, modelName)
+  }
+
+  // 2. 文件（当前文件优先）
+  const files: BudgetFile[] = []
+  for (const file of input.files) {
+    const tokens = countTokens(file.content, modelName) + MESSAGE_OVERHEAD
+    if (tokens <= remaining) {
+      files.push(file)
+      remaining -= tokens
+    } else if (remaining >= MIN_FILE_TOKENS) {
+      const content = truncateToTokens(file.content, remaining - MESSAGE_OVERHEAD, modelName)
+      const keptLines = content.split('\n').length
+      const totalLines = file.content.split('\n').length
+      files.push({
+        ...file,
+        content: `${content}\n…（文件过长，已截断：仅发送前 ${keptLines}/${totalLines} 行）`,
+        length: content.length
+      })
+      remaining = 0
+      notes.push(`${file.name} 过长（约 ${formatTokenCount(tokens)} token），仅发送了前 ${keptLines}/${totalLines} 行`)
+    } else {
+      notes.push(`${file.name}（约 ${formatTokenCount(tokens)} token）超出上下文窗口，未发送`)
+    }
+  }
+
+  // 3. 项目文件列表
+  let entityTree = input.entityTree
+  if (entityTree) {
+    const tokens = countTokens(entityTree, modelName) + MESSAGE_OVERHEAD
+    if (tokens <= remaining) {
+      remaining -= tokens
+    } else {
+      entityTree = undefined
+      notes.push('项目文件列表超出上下文窗口，未发送')
+    }
+  }
+
+  // 4. 历史对话：从最近一条往前保留
+  const history: ChatMessage[] = []
+  for (let i = input.history.length - 1; i >= 0; i--) {
+    const tokens = countMessageTokens(input.history[i], modelName)
+    if (tokens > remaining) break
+    history.unshift(input.history[i])
+    remaining -= tokens
+  }
+  // 避免以助手消息开头
+  while (history.length > 0 && history[0].role === 'assistant') history.shift()
+  const droppedCount = input.history.length - history.length
+  if (droppedCount > 0) {
+    notes.push(`省略了较早的 ${droppedCount} 条历史消息`)
+  }
+
+  return { selection, files, entityTree, history, notes }
+}
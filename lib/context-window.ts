@@ -0,0 +1,79 @@
+import type { BaseModelConfig } from './builtin-models'
+
+/**
+ * 模型上下文窗口
+ * 优先使用模型配置中的 context_window，其次按模型名称匹配常见模型族
+ */
+
+// 按顺序匹配，具体型号放在模型族之前
+const CONTEXT_WINDOWS: Array<[RegExp, number]> = [
+  [/gpt-4\.1/, 1047576],
+  [/gpt-5/, 400000],
+  [/(^|\/)o[1-9](-|$)/, 200000],
+  [/gpt-4o|gpt-4-turbo|chatgpt/, 128000],
+  [/gpt-4-32k/, 32768],
+  [/gpt-4/, 8192],
+  [/gpt-3\.5/, 16385],
+  [/claude/, 200000],
+  [/gemini-(1\.5|2|3)/, 1048576],
+  [/gemini/, 32768],
+  [/deepseek/, 128000],
+  [/kimi-k2-(0905|turbo|thinking)/, 262144],
+  [/kimi|moonshot/, 131072],
+  [/glm-4\.6/, 200000],
+  [/glm/, 128000],
+  [/qwen-long/, 10000000],
+  [/qwen|qwq/, 131072]
+]
+
+// 常见模型的最大输出 token
+const MAX_OUTPUT_TOKENS: Array<[RegExp, number]> = [
+  [/gpt-5|(^|\/)o[1-9](-|$)/, 100000],
+  [/gpt-4\.1/, 32768],
+  [/gpt-4o/, 16384],
+  [/gpt-4|gpt-3\.5/, 4096],
+  [/claude-(sonnet|haiku)-4|claude-3-7/, 64000],
+  [/claude-opus-4/, 32000],
+  [/claude/, 8192],
+  [/gemini-(2\.5|3)/, 65536],
+  [/gemini/, 8192],
+  [/deepseek-reasoner|deepseek-r1/, 65536],
+  [/deepseek/, 8192]
+]
+
+// 未知模型的默认上下文窗口
+export const DEFAULT_CONTEXT_WINDOW = 128000
+
+/**
+ * 解析模型名称中显式标注的窗口大小，如 moonshot-v1-32k
+ */
+function parseWindowFromName(name: string): number | undefined {
+  const match = name.match(/(\d+)k(?![a-z])/)
+  return match ? Number(match[1]) * 1024 : undefined
+}
+
+export function getContextWindow(
+  model?: Pick<BaseModelConfig, 'model_name' | 'context_window'> | null
+): number | undefined {
+  if (!model) return undefined
+  if (model.context_window && model.context_window > 0) return model.context_window
+  const name = (model.model_name || '').toLowerCase()
+  return parseWindowFromName(name) ?? CONTEXT_WINDOWS.find(([pattern]) => pattern.test(name))?.[1]
+}
+
+export function getMaxOutputTokens(
+  model?: Pick<BaseModelConfig, 'model_name' | 'max_output_tokens'> | null
+): number | undefined {
+  if (!model) return undefined
+  if (model.max_output_tokens && model.max_output_tokens > 0) return model.max_output_tokens
+  const name = (model.model_name || '').toLowerCase()
+  return MAX_OUTPUT_TOKENS.find(([pattern]) => pattern.test(name))?.[1]
+}
+
+/**
+ * 格式化窗口大小，如 128K、1M
+ */
+export function formatContextWindow(tokens: number): string {
+  if (tokens >= 1000000) return `${+(tokens / 1000000).toFixed(1)}M`
+  return `${tokens % 1024 === 0 ? tokens / 1024 : Math.round(tokens / 1000)}K`
+}
@@ -0,0 +1,112 @@
+import type { ChatMessage, LLMService } from './llm-service'
+import { countTokens } from './tokenizer'
+
+/**
+ * 长对话滚动摘要
+ * 历史超出预算时，将较早的消息交给当前模型压缩为「此前对话摘要」，代替原消息发送
+ */
+
+export interface ConversationSummary {
+  text: string
+  coveredUntil: string // 摘要覆盖到的最后一条消息 id
+  updatedAt: Date
+}
+
+interface SummarizableMessage {
+  id: string
+  content: string
+  isUser: boolean
+  isStreaming?: boolean
+  selectedText?: { text: string; fileName?: string }
+}
+
+export interface HistoryPlan<T extends SummarizableMessage> {
+  summary?: ConversationSummary // 仍然有效的已有摘要
+  toSummarize: T[] // 需要并入摘要的消息
+  recent: T[] // 原样发送的最近消息
+  fallback: T[] // 摘要失败时发送的消息
+}
+
+// 摘要之后最多原样发送的历史消息数
+const MAX_HISTORY_MESSAGES = 10
+// 原样发送的历史超过该 token 数时触发摘要
+const HISTORY_TOKEN_BUDGET = 12000
+// 触发摘要后保留的最近消息数
+const KEEP_RECENT_MESSAGES = 4
+// 单条消息送入摘要时的最大字符数
+const MAX_MESSAGE_CHARS = 4000
+
+const SUMMARY_PROMPT = `你负责为 Overleaf 写作助手压缩对话历史。请将「已有摘要」与「新增对话」合并为一份新的对话摘要，要求：
+- 保留用户的目标、已做出的决定与偏好、已完成和待完成的修改（涉及的文件、章节、关键术语）
+- 省略寒暄与重复内容，不要编造对话中没有的信息
+- 使用与对话相同的语言，条目式输出，不超过 400 字
+只输出摘要正文。`
+
+/**
+ * 划分历史：已被摘要覆盖的消息不再发送，超出预算时较早的消息并入摘要
+ */
+export function planHistory<T extends SummarizableMessage>(
+  messages: T[],
+  summary?: ConversationSummary | null,
+  modelName?: string
+): HistoryPlan<T> {
+  const coveredIndex = summary ? messages.findIndex(msg => msg.id === summary.coveredUntil) : -1
+  // 覆盖的消息已不在当前对话中（如从分支创建），摘要失效
+  const validSummary = coveredIndex >= 0 ? summary! : undefined
+  const pending = messages.slice(coveredIndex + 1).filter(msg => !msg.isStreaming)
+  const fallback = pending.slice(-MAX_HISTORY_MESSAGES)
+
+  const tokens = pending.reduce((sum, msg) => sum + countTokens(msg.content, modelName), 0)
+  const overBudget = pending.length > MAX_HISTORY_MESSAGES || tokens > HISTORY_TOKEN_BUDGET
+  if (!overBudget || pending.length <= KEEP_RECENT_MESSAGES) {
+    return { summary: validSummary, toSummarize: [], recent: pending, fallback }
+  }
+
+  return {
+    summary: validSummary,
+    toSummarize: pending.slice(0, -KEEP_RECENT_MESSAGES),
+    recent: pending.slice(-KEEP_RECENT_MESSAGES),
+    fallback
+  }
+}
+
+function formatMessageForSummary(msg: SummarizableMessage): string {
+  const role = msg.isUser ? '用户' : '助手'
+  const selection = msg.selectedText?.text
+    ? `（选中内容${msg.selectedText.fileName ? `，来自 ${msg.selectedText.fileName}` : ''}：${msg.selectedText.text.slice(0, 500)}）`
+    : ''
+  const content = msg.content.length > MAX_MESSAGE_CHARS
+    ? `${msg.content.slice(0, MAX_MESSAGE_CHARS)}…`
+    : msg.content
+  return `【${role}】${selection}\n${content}`
+}
+
+/**
+ * 使用当前模型将已有摘要与新增消息合并为新摘要
+ */
+export async function summarizeConversation(
+  llmService: LLMService,
+  previous: string | undefined,
+  messages: SummarizableMessage[]
+): Promise<string> {
+  const dialogue = messages.map(formatMessageForSummary).join('\n\n')
+  const text = await llmService.chat([
+    { role: 'system', content: SUMMARY_PROMPT },
+    { role: 'user', content: `[已有摘要]\n${previous || '（无）'}\n\n[新增对话]\n${dialogue}` }
+  ])
+  const summary = text.trim()
+  if (!summary || summary === 'No response') {
+    throw new Error('模型未返回摘要')
+  }
+  return summary
+}
+
+/**
+ * 摘要作为上下文消息发送
+ */
+export function buildSummaryMessage(summary: ConversationSummary): ChatMessage {
+  return {
+    role: 'user',
+    content: `[此前对话摘要]\n${summary.text}\n（以上为较早对话的压缩摘要，由系统自动生成，可作为背景参考。）`
+  }
+}
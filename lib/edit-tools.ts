@@ -0,0 +1,98 @@
+import type { ToolDefinition } from './llm-service'
+import { buildCommandFromTool, validateMatchCount, type ReplaceCommand } from './replace-service'
+
+/**
+ * 结构化编辑工具，参数直接对应 ReplaceCommand 字段
+ */
+export const EDIT_TOOLS: ToolDefinition[] = [
+  {
+    name: 'replace',
+    description: '修改或删除文件中的现有内容。search 必须与原文逐字符一致且唯一，删除时 replace 传空字符串。',
+    parameters: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: '文件路径，如 main.tex' },
+        search: { type: 'string', description: '被替换的原始内容' },
+        replace: { type: 'string', description: '新内容' },
+        is_regex: { type: 'boolean', description: 'search 是否为正则表达式，默认 false' }
+      },
+      required: ['file', 'search', 'replace']
+    }
+  },
+  {
+    name: 'insert',
+    description: '在锚点位置插入新内容。行内插入需同时提供 after 与 before，块级插入只提供一个锚点。',
+    parameters: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: '文件路径' },
+        after: { type: 'string', description: '在此文本之后插入' },
+        before: { type: 'string', description: '在此文本之前插入' },
+        content: { type: 'string', description: '要插入的内容' }
+      },
+      required: ['file', 'content']
+    }
+  },
+  {
+    name: 'create_file',
+    description: '新建文件并写入完整内容。',
+    parameters: {
+      type: 'object',
+      properties: {
+        file: { type: 'string', description: '相对路径，不要以 / 开头' },
+        content: { type: 'string', description: '完整文件内容' }
+      },
+      required: ['file', 'content']
+    }
+  }
+]
+
+const EDIT_TOOL_NAMES = new Set(EDIT_TOOLS.map(tool => tool.name))
+
+export function isEditTool(name: string): boolean {
+  return EDIT_TOOL_NAMES.has(name)
+}
+
+/**
+ * 将编辑工具调用转换为待确认的替换命令
+ * fileContent 存在时顺带校验匹配次数，便于把错误反馈给模型自行修正
+ */
+export function executeEditTool(
+  name: string,
+  args: Record<string, any>,
+  fileContent?: string
+): { content: string; summary: string; isError?: boolean; command?: ReplaceCommand } {
+  const command = buildCommandFromTool(name, args)
+  if (!command) {
+    return { content: `未知编辑工具: ${name}`, summary: '未知工具', isError: true }
+  }
+
+  if (command.status === 'error') {
+    return {
+      content: `修改建议无效: ${command.errorMessage}`,
+      summary: command.errorMessage || '参数无效',
+      isError: true
+    }
+  }
+
+  if (fileContent !== undefined && command.commandType !== 'create') {
+    const anchor = command.commandType === 'insert'
+      ? (command.insertAnchor?.after || command.insertAnchor?.before || '')
+      : command.search
+    const validation = validateMatchCount(fileContent, anchor, command.isRegex)
+    if (!validation.valid) {
+      return {
+        content: `修改建议无效: ${validation.error}。请用 read_file 重新读取 ${command.file} 后修正定位文本。`,
+        summary: validation.error || '定位失败',
+        isError: true
+      }
+    }
+    command.matchCount = validation.matchCount
+  }
+
+  return {
+    content: `已生成修改建议（id: ${command.id}），等待用户在界面中确认。`,
+    summary: command.file,
+    command
+  }
+}
@@ -1,6 +1,7 @@
 import type { ModelConfig } from './builtin-models'
 import type { FileInfo } from '~components/chat/file/file-extraction-service'
 import type { ChatMessage } from './llm-service'
+import { buildChunkIndex, searchChunks, type LatexChunk } from './latex-retriever'
 
 /**
  * 文件内容处理服务
@@ -22,6 +23,43 @@ export class FileContentProcessor {
     return this.createTextBasedMessages(files)
   }
 
+  /**
+   * 检索模式：只发送与问题相关的片段（附带文件路径与行号）
+   * 没有命中任何片段时返回 null，由调用方回退为发送完整文件
+   * @param files 文件列表
+   * @param query 用户问题（含选中内容）
+   * @returns ChatMessage[] | null
+   */
+  static processFilesWithRetrieval(files: FileInfo[], query: string): ChatMessage[] | null {
+    if (files.length === 0) {
+      return []
+    }
+    const chunks = searchChunks(buildChunkIndex(files), query)
+    if (chunks.length === 0) {
+      return null
+    }
+    return this.createChunkBasedMessages(chunks)
+  }
+
+  /**
+   * 创建基于检索片段的消息
+   * @param chunks 检索到的片段
+   * @returns ChatMessage[]
+   */
+  private static createChunkBasedMessages(chunks: LatexChunk[]): ChatMessage[] {
+    const chunkContents = chunks
+      .map(chunk => {
+        const title = chunk.title ? `（${chunk.title}）` : ''
+        return `《文件：${chunk.file}》第 ${chunk.startLine}-${chunk.endLine} 行${title}\n${chunk.text}`
+      })
+      .join('\n   ==========   \n')
+
+    return [{
+      role: 'system',
+      content: `[系统按当前问题检索的相关文件片段]\n${chunkContents}\n（此块仅包含与问题相关的最新片段，并非完整文件；修改时定位文本请取自这些片段）`
+    }]
+  }
+
 
 
   /**
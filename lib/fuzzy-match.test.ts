@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { FUZZY_MIN_SCORE, findFuzzyMatch } from './fuzzy-match'
+
+const SEARCH = 'The quick brown fox jumps over the lazy dog again.'
+
+describe('findFuzzyMatch', () => {
+  it('仅空白与标点写法不同时相似度为 1', () => {
+    const content = 'Intro.\nThe  quick brown\n fox jumps — over the lazy dog again\nOutro.'
+    const match = findFuzzyMatch(content, 'The quick brown fox jumps - over the lazy dog again')
+    expect(match).not.toBeNull()
+    expect(match!.score).toBe(1)
+    expect(match!.text).toBe('The  quick brown\n fox jumps — over the lazy dog again')
+    expect(content.slice(match!.from, match!.to)).toBe(match!.text)
+  })
+
+  it('相似度恰为阈值时返回候选', () => {
+    // 50 个字符中替换 10 个，相似度 0.8
+    const changed = SEARCH.slice(0, 20) + 'XXXXXXXXXX' + SEARCH.slice(30)
+    const content = `before\n${changed}\nafter`
+    const match = findFuzzyMatch(content, SEARCH)
+    expect(match).not.toBeNull()
+    expect(match!.score).toBeCloseTo(FUZZY_MIN_SCORE, 10)
+    expect(match!.score).toBeGreaterThanOrEqual(FUZZY_MIN_SCORE)
+    expect(match!.text).toBe(changed)
+  })
+
+  it('相似度低于阈值时不返回候选', () => {
+    // 替换 11 个字符，相似度 0.78
+    const changed = SEARCH.slice(0, 20) + 'XXXXXXXXXXX' + SEARCH.slice(31)
+    expect(findFuzzyMatch(`before\n${changed}\nafter`, SEARCH)).toBeNull()
+  })
+
+  it('可指定更低的阈值', () => {
+    const changed = SEARCH.slice(0, 20) + 'XXXXXXXXXXX' + SEARCH.slice(31)
+    const match = findFuzzyMatch(`before\n${changed}\nafter`, SEARCH, 0.75)
+    expect(match?.text).toBe(changed)
+  })
+
+  it('搜索内容过短时不做模糊匹配', () => {
+    expect(findFuzzyMatch('hello world', 'helo')).toBeNull()
+  })
+})
@@ -0,0 +1,193 @@
+/**
+ * 模糊匹配
+ * 精确匹配失败时，在原文中寻找与搜索内容最相似的区域（忽略空白差异、折叠 Unicode 标点，按编辑距离打分）
+ * 结果仅作为候选，需用户确认后才会应用
+ */
+
+export interface FuzzyMatch {
+  from: number
+  to: number
+  text: string  // 原文中的候选内容
+  score: number // 相似度 0~1，1 表示仅空白或标点写法不同
+}
+
+// 低于该相似度不作为候选
+export const FUZZY_MIN_SCORE = 0.8
+// 参与模糊匹配的搜索内容长度范围（折叠后），过短无意义，过长计算量过大
+const MIN_SEARCH_LENGTH = 10
+const MAX_SEARCH_LENGTH = 3000
+// 锚点片段长度与最多尝试的候选区域数
+const ANCHOR_LENGTH = 6
+const MAX_CANDIDATE_REGIONS = 3
+// 出现次数过多的片段不作为锚点
+const MAX_ANCHOR_OCCURRENCES = 20
+
+// 弯引号、各类破折号等统一为 ASCII 写法
+const PUNCTUATION_FOLDS: Record<string, string> = {
+  '‘': "'", '’': "'", '‚': "'", '‛': "'", '′': "'",
+  '“': '"', '”': '"', '„': '"', '‟': '"', '″': '"',
+  '‐': '-', '‑': '-', '‒': '-', '–': '-', '—': '-', '―': '-', '−': '-'
+}
+const ZERO_WIDTH = /[\u200b-\u200d\u2060\ufeff]/
+const WHITESPACE = /\s/
+
+interface FoldedText {
+  text: string
+  // 折叠后每个字符对应的原文起止位置
+  starts: number[]
+  ends: number[]
+}
+
+function foldChar(ch: string): string {
+  if (ch.charCodeAt(0) < 128) return ch
+  if (ZERO_WIDTH.test(ch)) return ''
+  // 其余字符按 NFKC 折叠（全角标点、省略号等）
+  return PUNCTUATION_FOLDS[ch] ?? ch.normalize('NFKC')
+}
+
+/**
+ * 折叠文本：连续空白合并为一个空格，标点统一写法，并记录与原文的位置映射
+ */
+function foldText(source: string): FoldedText {
+  let text = ''
+  const starts: number[] = []
+  const ends: number[] = []
+  let i = 0
+  while (i < source.length) {
+    const ch = String.fromCodePoint(source.codePointAt(i)!)
+    const next = i + ch.length
+    if (WHITESPACE.test(ch)) {
+      if (text.endsWith(' ')) {
+        ends[ends.length - 1] = next
+      } else {
+        text += ' '
+        starts.push(i)
+        ends.push(next)
+      }
+    } else {
+      const folded = foldChar(ch)
+      for (let k = 0; k < folded.length; k++) {
+        text += folded[k]
+        starts.push(i)
+        ends.push(next)
+      }
+    }
+    i = next
+  }
+  return { text, starts, ends }
+}
+
+/**
+ * 通过公共片段投票，估计搜索内容在原文中的可能起点
+ */
+function findCandidateOffsets(text: string, pattern: string, bucketSize: number): number[] {
+  const anchors = new Map<string, number[]>()
+  for (let i = 0; i + ANCHOR_LENGTH <= pattern.length; i++) {
+    const piece = pattern.slice(i, i + ANCHOR_LENGTH)
+    const list = anchors.get(piece)
+    if (list) list.push(i)
+    else anchors.set(piece, [i])
+  }
+
+  const votes = new Map<number, number>()
+  for (let j = 0; j + ANCHOR_LENGTH <= text.length; j++) {
+    const list = anchors.get(text.slice(j, j + ANCHOR_LENGTH))
+    if (!list || list.length > MAX_ANCHOR_OCCURRENCES) continue
+    for (const i of list) {
+      const bucket = Math.round((j - i) / bucketSize)
+      votes.set(bucket, (votes.get(bucket) || 0) + 1)
+    }
+  }
+
+  return [...votes.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_CANDIDATE_REGIONS)
+    .map(([bucket]) => bucket * bucketSize)
+}
+
+/**
+ * 在 [from, to) 范围内寻找与 pattern 编辑距离最小的子串（起止位置均不固定）
+ */
+function alignInRegion(
+  text: string,
+  from: number,
+  to: number,
+  pattern: string
+): { start: number; end: number; distance: number } {
+  const m = pattern.length
+  let prev = new Int32Array(m + 1)
+  let cur = new Int32Array(m + 1)
+  let prevStart = new Int32Array(m + 1)
+  let curStart = new Int32Array(m + 1)
+  for (let j = 0; j <= m; j++) {
+    prev[j] = j
+    prevStart[j] = from
+  }
+
+  let best = { start: from, end: from, distance: m }
+  for (let i = from; i < to; i++) {
+    cur[0] = 0
+    curStart[0] = i + 1
+    const code = text.charCodeAt(i)
+    for (let j = 1; j <= m; j++) {
+      let distance = prev[j - 1] + (pattern.charCodeAt(j - 1) === code ? 0 : 1)
+      let start = prevStart[j - 1]
+      if (prev[j] + 1 < distance) {
+        distance = prev[j] + 1
+        start = prevStart[j]
+      }
+      if (cur[j - 1] + 1 < distance) {
+        distance = cur[j - 1] + 1
+        start = curStart[j - 1]
+      }
+      cur[j] = distance
+      curStart[j] = start
+    }
+    if (cur[m] < best.distance) {
+      best = { start: curStart[m], end: i + 1, distance: cur[m] }
+    }
+    // 交换行缓冲
+    const row = prev
+    prev = cur
+    cur = row
+    const startRow = prevStart
+    prevStart = curStart
+    curStart = startRow
+  }
+  return best
+}
+
+/**
+ * 查找与搜索内容最相似的原文区域，相似度低于阈值时返回 null
+ */
+export function findFuzzyMatch(
+  content: string,
+  search: string,
+  minScore = FUZZY_MIN_SCORE
+): FuzzyMatch | null {
+  const pattern = foldText(search).text.trim()
+  if (pattern.length < MIN_SEARCH_LENGTH || pattern.length > MAX_SEARCH_LENGTH) return null
+
+  const folded = foldText(content)
+  const bucketSize = Math.max(16, Math.ceil(pattern.length * 0.1))
+  const slack = bucketSize + Math.ceil(pattern.length * 0.2) + 8
+
+  let best: { start: number; end: number; score: number } | null = null
+  for (const offset of findCandidateOffsets(folded.text, pattern, bucketSize)) {
+    const from = Math.max(0, offset - slack)
+    const to = Math.min(folded.text.length, offset + pattern.length + slack)
+    const aligned = alignInRegion(folded.text, from, to, pattern)
+    // 去掉候选区域首尾的空白
+    let { start, end } = aligned
+    while (start < end && folded.text[start] === ' ') start++
+    while (end > start && folded.text[end - 1] === ' ') end--
+    if (end <= start) continue
+    const score = 1 - aligned.distance / Math.max(pattern.length, end - start)
+    if (!best || score > best.score) best = { start, end, score }
+  }
+
+  if (!best || best.score < minScore) return null
+  const from = folded.starts[best.start]
+  const to = folded.ends[best.end - 1]
+  return { from, to, text: content.slice(from, to), score: best.score }
+}
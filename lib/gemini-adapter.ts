@@ -0,0 +1,229 @@
+import type { ChatMessage, StreamResponse, TokenUsage } from './llm-service'
+
+/**
+ * 构建 Gemini 原生接口请求头
+ */
+export function buildGeminiHeaders(apiKey: string): Headers {
+  const headers = new Headers()
+  headers.append('Accept', 'application/json')
+  headers.append('Content-Type', 'application/json')
+  headers.append('x-goog-api-key', apiKey)
+  return headers
+}
+
+/**
+ * 判断模型是否支持思考摘要（2.5 及以后的模型、thinking 系列）
+ */
+export function supportsGeminiThinking(modelName: string): boolean {
+  return /gemini-(2\.5|[3-9])|thinking/i.test(modelName)
+}
+
+/**
+ * 判断模型是否允许关闭思考（仅 2.5 Flash 系列接受 thinkingBudget 为 0）
+ */
+function canDisableGeminiThinking(modelName: string): boolean {
+  return /gemini-2\.5-flash/i.test(modelName)
+}
+
+/**
+ * 将单条消息内容转换为 Gemini parts
+ */
+function toGeminiParts(content: ChatMessage['content']): any[] {
+  if (typeof content === 'string') {
+    return content ? [{ text: content }] : []
+  }
+
+  const parts: any[] = []
+  for (const part of content) {
+    if (part.type === 'text' && part.text) {
+      parts.push({ text: part.text })
+    } else if (part.type === 'image_url' && part.image_url?.url) {
+      const url = part.image_url.url
+      const match = url.match(/^data:([^;]+);base64,(.*)$/)
+      if (match) {
+        parts.push({ inlineData: { mimeType: match[1], data: match[2] } })
+      } else {
+        parts.push({ fileData: { fileUri: url } })
+      }
+    }
+  }
+  return parts
+}
+
+/**
+ * 构建 generateContent 请求体
+ * - system 消息提取为 systemInstruction
+ * - assistant 角色映射为 model，相邻同角色消息合并
+ */
+export function buildGeminiRequestBody(
+  messages: ChatMessage[],
+  modelName: string,
+  options: {
+    temperature: number
+    maxTokens: number
+    topP?: number
+    stop?: string[]
+    seed?: number
+    thinkingBudget?: number
+  }
+): Record<string, any> {
+  const systemParts: any[] = []
+  const contents: Array<{ role: 'user' | 'model'; parts: any[] }> = []
+
+  for (const message of messages) {
+    const parts = toGeminiParts(message.content)
+    if (parts.length === 0) continue
+
+    if (message.role === 'system') {
+      systemParts.push(...parts.filter(part => part.text))
+      continue
+    }
+
+    const role = message.role === 'assistant' ? 'model' : 'user'
+    const last = contents[contents.length - 1]
+    if (last && last.role === role) {
+      last.parts.push(...parts)
+    } else {
+      contents.push({ role, parts })
+    }
+  }
+
+  const generationConfig: Record<string, any> = {
+    temperature: options.temperature,
+    maxOutputTokens: options.maxTokens,
+    ...(options.topP !== undefined ? { topP: options.topP } : {}),
+    ...(options.stop?.length ? { stopSequences: options.stop } : {}),
+    ...(options.seed !== undefined ? { seed: options.seed } : {})
+  }
+  // 无法关闭思考的模型不发送预算 0，保持默认思考配置
+  const disablesThinking = options.thinkingBudget === 0
+  if (supportsGeminiThinking(modelName) && (!disablesThinking || canDisableGeminiThinking(modelName))) {
+    generationConfig.thinkingConfig = {
+      includeThoughts: options.thinkingBudget !== 0,
+      ...(options.thinkingBudget !== undefined ? { thinkingBudget: options.thinkingBudget } : {})
+    }
+  }
+
+  return {
+    ...(systemParts.length > 0 ? { systemInstruction: { parts: systemParts } } : {}),
+    contents,
+    generationConfig
+  }
+}
+
+/**
+ * 拆分一次响应中的正文与思考摘要
+ */
+export function extractGeminiParts(data: any): { text: string; thought: string } {
+  const parts: any[] = data?.candidates?.[0]?.content?.parts || []
+  let text = ''
+  let thought = ''
+  for (const part of parts) {
+    if (!part.text) continue
+    if (part.thought) {
+      thought += part.text
+    } else {
+      text += part.text
+    }
+  }
+  return { text, thought }
+}
+
+/**
+ * 处理 Gemini streamGenerateContent?alt=sse 的流式响应
+ * 每个 data 行是一个完整的 GenerateContentResponse 增量
+ */
+export async function* processGeminiStream(
+  response: Response
+): AsyncGenerator<StreamResponse, void, unknown> {
+  const reader = response.body?.getReader()
+  if (!reader) {
+    yield { content: '', finished: true, error: 'No response body' }
+    return
+  }
+
+  const decoder = new TextDecoder()
+  let fullContent = ''
+  let fullThinking = ''
+  let thinkingFinished = false
+  let usage: TokenUsage | undefined
+  // 用于处理跨 chunk 的不完整数据
+  let buffer = ''
+
+  const snapshot = (finished: boolean, error?: string): StreamResponse => ({
+    content: fullContent,
+    finished,
+    error,
+    thinking: fullThinking || undefined,
+    thinkingFinished: finished || thinkingFinished,
+    usage: finished ? usage : undefined
+  })
+
+  // 处理单个 data 行，返回错误信息（如有）
+  const handleLine = (line: string): { updated: boolean; error?: string } => {
+    const trimmedLine = line.trim()
+    if (!trimmedLine.startsWith('data:')) return { updated: false }
+
+    let data: any
+    try {
+      data = JSON.parse(trimmedLine.slice(5).trim())
+    } catch (e) {
+      return { updated: false }
+    }
+
+    if (data.error) {
+      return { updated: false, error: data.error.message || 'Gemini stream error' }
+    }
+    if (data.promptFeedback?.blockReason) {
+      return { updated: false, error: `请求被拦截: ${data.promptFeedback.blockReason}` }
+    }
+
+    // usageMetadata 为累计值，思考 token 单独计数但按输出计费
+    if (data.usageMetadata) {
+      const meta = data.usageMetadata
+      usage = {
+        inputTokens: meta.promptTokenCount || 0,
+        outputTokens: (meta.candidatesTokenCount || 0) + (meta.thoughtsTokenCount || 0),
+        cachedInputTokens: meta.cachedContentTokenCount,
+        reasoningTokens: meta.thoughtsTokenCount
+      }
+    }
+
+    const { text, thought } = extractGeminiParts(data)
+    if (thought) fullThinking += thought
+    if (text) {
+      // 当开始输出正文时，标记思考已完成
+      if (fullThinking && !thinkingFinished) {
+        thinkingFinished = true
+      }
+      fullContent += text
+    }
+    return { updated: !!(text || thought) }
+  }
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      if (done) break
+
+      buffer += decoder.decode(value, { stream: true })
+      const lines = buffer.split(/\r?\n/)
+      buffer = lines.pop() || ''
+
+      for (const line of lines) {
+        const { updated, error } = handleLine(line)
+        if (error) {
+          yield snapshot(true, error)
+          return
+        }
+        if (updated) yield snapshot(false)
+      }
+    }
+
+    // 处理缓冲区中可能剩余的数据
+    const { error } = handleLine(buffer)
+    yield snapshot(true, error)
+  } catch (error) {
+    yield snapshot(true, error instanceof Error ? error.message : 'Stream processing error')
+  }
+}
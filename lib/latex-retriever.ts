@@ -0,0 +1,196 @@
+import type { FileInfo } from '~components/chat/file/file-extraction-service'
+import { estimateTokenWeight } from '~components/chat/file/file-tree-utils'
+
+/**
+ * LaTeX 感知的本地检索
+ * 按章节/环境切分文件，使用 BM25 对片段打分，完全离线运行
+ */
+
+export interface LatexChunk {
+  file: string
+  startLine: number // 从 1 开始，包含
+  endLine: number // 包含
+  title?: string // 所属章节标题
+  text: string
+}
+
+export interface ChunkIndex {
+  chunks: LatexChunk[]
+  termFreqs: Map<string, number>[]
+  lengths: number[]
+  docFreq: Map<string, number>
+  avgLength: number
+}
+
+// 单个片段最多行数，超出后强制切分
+const MAX_CHUNK_LINES = 60
+// 非 tex 文件按固定行数切分
+const PLAIN_CHUNK_LINES = 40
+// BM25 参数
+const BM25_K1 = 1.2
+const BM25_B = 0.75
+
+const SECTION_PATTERN = /^\s*\\(?:part|chapter|section|subsection|subsubsection|paragraph)\*?\s*(?:\[[^\]]*\])?\s*\{([^}]*)\}?/
+const ENV_BEGIN_PATTERN = /^\s*\\begin\{(figure|table|algorithm|equation|align|gather|theorem|lemma|proposition|corollary|definition|proof|abstract|tabular|lstlisting|minted)(\*?)\}/
+
+const STOP_WORDS = new Set([
+  'the', 'and', 'for', 'with', 'this', 'that', 'from', 'are', 'was', 'were', 'can', 'you', 'please',
+  'how', 'what', 'why', 'which', 'into', 'about', 'there', 'their', 'have', 'has', 'not', 'but',
+  'begin', 'end', 'label', 'ref', 'textbf', 'emph'
+])
+
+/**
+ * 分词：英文按单词（忽略停用词），中文按二元组
+ */
+function tokenize(text: string): string[] {
+  const terms: string[] = []
+  const lower = text.toLowerCase()
+  for (const match of lower.matchAll(/[a-z][a-z0-9]+|[一-鿿]+/g)) {
+    const word = match[0]
+    if (/[一-鿿]/.test(word)) {
+      if (word.length === 1) terms.push(word)
+      for (let i = 0; i < word.length - 1; i++) terms.push(word.slice(i, i + 2))
+    } else if (!STOP_WORDS.has(word)) {
+      terms.push(word)
+    }
+  }
+  return terms
+}
+
+/**
+ * 按章节命令与常见环境边界切分 tex 文件
+ */
+function chunkTexFile(file: FileInfo): LatexChunk[] {
+  const lines = file.content.split('\n')
+  const chunks: LatexChunk[] = []
+  let start = 0
+  let title: string | undefined
+  let envEnd: string | null = null
+
+  const flush = (end: number) => {
+    if (end <= start) return
+    const text = lines.slice(start, end).join('\n')
+    if (text.trim()) {
+      chunks.push({ file: file.name, startLine: start + 1, endLine: end, title, text })
+    }
+    start = end
+  }
+
+  lines.forEach((line, index) => {
+    if (envEnd) {
+      if (line.includes(envEnd)) {
+        flush(index + 1)
+        envEnd = null
+      } else if (index - start >= MAX_CHUNK_LINES) {
+        flush(index)
+      }
+      return
+    }
+
+    const section = line.match(SECTION_PATTERN)
+    if (section) {
+      flush(index)
+      title = section[1]?.trim() || title
+      return
+    }
+
+    const env = line.match(ENV_BEGIN_PATTERN)
+    if (env) {
+      flush(index)
+      envEnd = `\\end{${env[1]}${env[2]}}`
+      if (line.includes(envEnd)) {
+        flush(index + 1)
+        envEnd = null
+      }
+      return
+    }
+
+    if (index - start >= MAX_CHUNK_LINES) flush(index)
+  })
+  flush(lines.length)
+
+  return chunks
+}
+
+function chunkPlainFile(file: FileInfo): LatexChunk[] {
+  const lines = file.content.split('\n')
+  const chunks: LatexChunk[] = []
+  for (let start = 0; start < lines.length; start += PLAIN_CHUNK_LINES) {
+    const end = Math.min(lines.length, start + PLAIN_CHUNK_LINES)
+    const text = lines.slice(start, end).join('\n')
+    if (text.trim()) chunks.push({ file: file.name, startLine: start + 1, endLine: end, text })
+  }
+  return chunks
+}
+
+/**
+ * 切分文件并建立 BM25 索引
+ */
+export function buildChunkIndex(files: FileInfo[]): ChunkIndex {
+  const chunks = files.flatMap(file =>
+    file.name.toLowerCase().endsWith('.tex') ? chunkTexFile(file) : chunkPlainFile(file)
+  )
+  const termFreqs: Map<string, number>[] = []
+  const lengths: number[] = []
+  const docFreq = new Map<string, number>()
+
+  for (const chunk of chunks) {
+    // 章节标题计入片段内容，提高按标题提问时的命中率
+    const terms = tokenize(`${chunk.title || ''} ${chunk.text}`)
+    const freq = new Map<string, number>()
+    terms.forEach(term => freq.set(term, (freq.get(term) || 0) + 1))
+    freq.forEach((_, term) => docFreq.set(term, (docFreq.get(term) || 0) + 1))
+    termFreqs.push(freq)
+    lengths.push(terms.length)
+  }
+
+  const totalLength = lengths.reduce((sum, length) => sum + length, 0)
+  return {
+    chunks,
+    termFreqs,
+    lengths,
+    docFreq,
+    avgLength: chunks.length > 0 ? totalLength / chunks.length : 0
+  }
+}
+
+/**
+ * 检索与问题最相关的片段
+ * 在 token 预算内按得分选取，结果按文件与行号排序，便于模型阅读
+ */
+export function searchChunks(
+  index: ChunkIndex,
+  query: string,
+  options: { maxChunks?: number; tokenBudget?: number } = {}
+): LatexChunk[] {
+  const { maxChunks = 12, tokenBudget = 8000 } = options
+  const queryTerms = Array.from(new Set(tokenize(query)))
+  if (queryTerms.length === 0 || index.chunks.length === 0) return []
+
+  const total = index.chunks.length
+  const scored = index.chunks.map((chunk, i) => {
+    const freq = index.termFreqs[i]
+    const lengthNorm = 1 - BM25_B + BM25_B * (index.lengths[i] / (index.avgLength || 1))
+    let score = 0
+    for (const term of queryTerms) {
+      const tf = freq.get(term)
+      if (!tf) continue
+      const df = index.docFreq.get(term) || 0
+      const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5))
+      score += idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm)
+    }
+    return { chunk, score }
+  })
+
+  const selected: LatexChunk[] = []
+  let usedTokens = 0
+  for (const { chunk, score } of scored.sort((a, b) => b.score - a.score)) {
+    if (score <= 0 || selected.length >= maxChunks) break
+    const tokens = Math.ceil(estimateTokenWeight(chunk.text))
+    if (usedTokens + tokens > tokenBudget && selected.length > 0) continue
+    selected.push(chunk)
+    usedTokens += tokens
+  }
+
+  return selected.sort((a, b) => a.file.localeCompare(b.file) || a.startLine - b.startLine)
+}
@@ -1,8 +1,11 @@
 import type { ModelConfig } from './builtin-models'
 import { ApiClient } from './api-client'
+import { parseClaudeResponseText } from './claude-adapter'
+import { extractGeminiParts } from './gemini-adapter'
+import { modelSupportsTools } from './model-capabilities'
 
 export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system'
+  role: 'user' | 'assistant' | 'system' | 'tool'
   content: string | Array<{
     type: 'text' | 'image_url'
     text?: string
@@ -11,6 +14,34 @@ export interface ChatMessage {
       detail?: 'low' | 'high' | 'auto'
     }
   }>
+  // 工具调用相关（OpenAI function calling）
+  tool_calls?: ToolCall[] // assistant 发起的工具调用
+  tool_call_id?: string // tool 消息对应的调用 ID
+  // 在此消息之后设置提示缓存断点（Anthropic 格式生效，其余供应商按前缀自动缓存）
+  cacheBreakpoint?: boolean
+}
+
+// 模型发起的一次工具调用，arguments 为 JSON 字符串
+export interface ToolCall {
+  id: string
+  name: string
+  arguments: string
+}
+
+// 提供给模型的工具定义（parameters 为 JSON Schema）
+export interface ToolDefinition {
+  name: string
+  description: string
+  parameters: Record<string, any>
+}
+
+// 单次请求的 token 用量（输入包含缓存命中部分，输出包含思考部分）
+export interface TokenUsage {
+  inputTokens: number
+  outputTokens: number
+  cachedInputTokens?: number // 缓存命中（读取）的输入
+  cacheWriteTokens?: number // 写入缓存的输入（Anthropic 单独计费）
+  reasoningTokens?: number
 }
 
 export interface StreamResponse {
@@ -20,11 +51,64 @@ export interface StreamResponse {
   // 思考过程相关
   thinking?: string
   thinkingFinished?: boolean
+  // 本轮模型请求的工具调用（仅在 finished 时给出）
+  toolCalls?: ToolCall[]
+  // 接口返回的用量（通常在流结束时给出）
+  usage?: TokenUsage
+  // 主模型失败后实际回答的备用模型
+  answeredBy?: Pick<ModelConfig, 'model_name' | 'display_name'>
+  // 带工具的请求被拒绝（400），接口可能不支持工具调用，可改用文本标记格式重发
+  toolsRejected?: boolean
+}
+
+// 可重试的状态码（限流、服务端错误、Anthropic 过载）
+const RETRYABLE_STATUS = new Set([408, 429, 500, 502, 503, 504, 529])
+// 与供应商相关、换用其他模型可能成功的状态码
+const FALLBACK_STATUS = new Set([401, 403, 404])
+const MAX_RETRIES = 2
+const BASE_RETRY_DELAY = 1000
+const MAX_RETRY_DELAY = 10000
+
+type SendResult =
+  | { response: Response }
+  | { error: string; fallback: boolean; status?: number }
+
+// 不支持工具调用的模型（按 base_url 与模型名记录，仅在本次会话内有效）
+const toolsUnsupported = new Set<string>()
+const toolsKey = (model: ModelConfig) => `${model.base_url}|${model.model_name}`
+
+/**
+ * 计算重试等待时间：优先使用 Retry-After，否则指数退避并加入随机抖动
+ */
+function getRetryDelay(attempt: number, retryAfter: string | null): number {
+  const seconds = retryAfter ? Number(retryAfter) : NaN
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return Math.min(seconds * 1000, MAX_RETRY_DELAY)
+  }
+  const delay = BASE_RETRY_DELAY * 2 ** attempt
+  return Math.min(delay + Math.random() * delay * 0.2, MAX_RETRY_DELAY)
+}
+
+// 可被中止的等待
+function sleep(ms: number, abortSignal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (abortSignal?.aborted) return reject(new Error('Request aborted'))
+    const timer = setTimeout(() => {
+      abortSignal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new Error('Request aborted'))
+    }
+    abortSignal?.addEventListener('abort', onAbort, { once: true })
+  })
 }
 
 export class LLMService {
   private apiClient: ApiClient
   private model: ModelConfig
+  private fallbackModels: ModelConfig[] = []
   private generationParams: { temperature: number; maxTokens: number }
 
   constructor(model: ModelConfig) {
@@ -42,6 +126,11 @@ export class LLMService {
     this.apiClient = new ApiClient(model)
   }
 
+  // 更新备用模型链（主模型请求失败时依次尝试）
+  updateFallbackModels(models: ModelConfig[]) {
+    this.fallbackModels = models
+  }
+
   // 更新生成参数（温度、最大 tokens）
   updateGenerationParams(params: { temperature?: number; maxTokens?: number }) {
     if (params.temperature !== undefined) {
@@ -52,85 +141,144 @@ export class LLMService {
     }
   }
 
-  // 流式聊天
-  async *streamChat(
+  /**
+   * 发送请求，可重试的错误按指数退避重试
+   */
+  private async sendWithRetry(
+    apiClient: ApiClient,
     messages: ChatMessage[],
-    abortSignal?: AbortSignal
-  ): AsyncGenerator<StreamResponse, void, unknown> {
-    try {
-      // 发送请求
-      const response = await this.apiClient.sendChatRequest(
-        messages,
-        true,
-        abortSignal,
-        {
+    stream: boolean,
+    abortSignal?: AbortSignal,
+    tools?: ToolDefinition[]
+  ): Promise<SendResult> {
+    for (let attempt = 0; ; attempt++) {
+      let error: string
+      let retryAfter: string | null = null
+      try {
+        const response = await apiClient.sendChatRequest(messages, stream, abortSignal, {
           temperature: this.generationParams.temperature,
-          maxTokens: this.generationParams.maxTokens
-        }
-      )
+          maxTokens: this.generationParams.maxTokens,
+          tools
+        })
+        if (response.ok) return { response }
 
-      if (!response.ok) {
         const errorText = await response.text()
-        throw new Error(`API Error: ${response.status} - ${errorText}`)
+        error = `API Error: ${response.status} - ${errorText}`
+        if (!RETRYABLE_STATUS.has(response.status)) {
+          return { error, fallback: FALLBACK_STATUS.has(response.status), status: response.status }
+        }
+        retryAfter = response.headers.get('retry-after')
+      } catch (e) {
+        if (abortSignal?.aborted) return { error: 'Request aborted', fallback: false }
+        // 网络错误同样重试
+        error = e instanceof Error ? e.message : 'Network error'
+      }
+
+      if (attempt >= MAX_RETRIES) return { error, fallback: true }
+      try {
+        await sleep(getRetryDelay(attempt, retryAfter), abortSignal)
+      } catch {
+        return { error: 'Request aborted', fallback: false }
+      }
+    }
+  }
+
+  // 流式聊天：主模型重试失败后依次尝试备用模型
+  async *streamChat(
+    messages: ChatMessage[],
+    abortSignal?: AbortSignal,
+    tools?: ToolDefinition[]
+  ): AsyncGenerator<StreamResponse, void, unknown> {
+    // 需要工具调用时只使用支持工具的备用模型
+    const fallbacks = this.fallbackModels.filter(model => !tools?.length || modelSupportsTools(model))
+    const candidates = [this.model, ...fallbacks]
+    const errors: string[] = []
+    let toolsRejected = false
+
+    for (let index = 0; index < candidates.length; index++) {
+      const model = candidates[index]
+      const apiClient = index === 0 ? this.apiClient : new ApiClient(model)
+      const result = await this.sendWithRetry(apiClient, messages, true, abortSignal, tools)
+
+      if ('error' in result) {
+        if (index === 0 && tools?.length && result.status === 400) toolsRejected = true
+        errors.push(candidates.length > 1 ? `${model.display_name}: ${result.error}` : result.error)
+        if (!result.fallback) break
+        continue
       }
 
-      // 处理流式响应
-      for await (const chunk of this.apiClient.processStreamResponse(response)) {
-        if (abortSignal?.aborted) {
-          yield {
-            content: chunk.content,
-            finished: true,
-            error: 'Request aborted'
+      const answeredBy = index > 0
+        ? { model_name: model.model_name, display_name: model.display_name }
+        : undefined
+
+      try {
+        // 处理流式响应
+        for await (const chunk of apiClient.processStreamResponse(result.response)) {
+          if (abortSignal?.aborted) {
+            yield {
+              content: chunk.content,
+              finished: true,
+              error: 'Request aborted',
+              answeredBy
+            }
+            return
           }
-          return
-        }
 
-        yield chunk
+          yield { ...chunk, answeredBy }
 
-        if (chunk.finished) {
-          return
+          if (chunk.finished) {
+            return
+          }
+        }
+      } catch (error) {
+        yield {
+          content: '',
+          finished: true,
+          error: error instanceof Error ? error.message : 'Unknown error occurred',
+          answeredBy
         }
       }
-    } catch (error) {
-      yield {
-        content: '',
-        finished: true,
-        error: error instanceof Error ? error.message : 'Unknown error occurred'
-      }
+      return
     }
+
+    yield {
+      content: '',
+      finished: true,
+      error: errors.join('\n\n') || 'Unknown error occurred',
+      ...(toolsRejected ? { toolsRejected } : {})
+    }
+  }
+
+  // 当前模型是否支持工具调用（目前仅 OpenAI 兼容格式）
+  supportsTools(): boolean {
+    return modelSupportsTools(this.model) && !toolsUnsupported.has(toolsKey(this.model))
+  }
+
+  // 去掉工具后重发成功，记住当前模型不支持工具调用
+  markToolsUnsupported() {
+    toolsUnsupported.add(toolsKey(this.model))
   }
 
   // 非流式聊天（备用）
   async chat(messages: ChatMessage[]): Promise<string> {
-    try {
-      // 发送请求
-      const response = await this.apiClient.sendChatRequest(
-        messages,
-        false,
-        undefined,
-        {
-          temperature: this.generationParams.temperature,
-          maxTokens: this.generationParams.maxTokens
-        }
-      )
-
-      if (!response.ok) {
-        const errorText = await response.text()
-        throw new Error(`API Error: ${response.status} - ${errorText}`)
-      }
+    // 发送请求（仅主模型，失败时重试）
+    const result = await this.sendWithRetry(this.apiClient, messages, false)
+    if ('error' in result) {
+      throw new Error(result.error)
+    }
+    const response = result.response
 
-      const data = await response.json()
+    const data = await response.json()
 
-      // 根据API格式解析响应
-      const apiFormat = this.model.api_format || 'openai'
+    // 根据API格式解析响应
+    const apiFormat = this.model.api_format || 'openai'
 
-      if (apiFormat === 'gemini') {
-        return data.candidates?.[0]?.content?.parts?.[0]?.text || 'No response'
-      } else {
-        return data.choices?.[0]?.message?.content || 'No response'
-      }
-    } catch (error) {
-      throw error
+    if (apiFormat === 'gemini') {
+      return extractGeminiParts(data).text || 'No response'
+    } else if (apiFormat === 'claude') {
+      return parseClaudeResponseText(data) || 'No response'
+    } else {
+      return data.choices?.[0]?.message?.content || 'No response'
     }
   }
 }
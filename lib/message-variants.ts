@@ -0,0 +1,103 @@
+import type { AgentToolStep } from './agent-tools'
+import type { FileSnapshots, ReplaceCommand } from './replace-service'
+import type { MessageUsage } from './usage'
+
+/**
+ * 回答版本
+ * 重新生成时旧回答保留为版本，消息上的正文等字段始终对应当前显示的版本
+ */
+
+export interface MessageVariant {
+  content: string
+  thinking?: string
+  toolSteps?: AgentToolStep[]
+  editCommands?: ReplaceCommand[]
+  fileSnapshots?: FileSnapshots
+  contextNotes?: string[]
+  usage?: MessageUsage
+  answeredBy?: string
+  model?: string // 生成该版本的模型（显示名称）
+  temperature?: number // 重新生成时指定的温度
+  timestamp: Date
+}
+
+interface VariantMessage extends Omit<MessageVariant, 'model' | 'temperature'> {
+  thinkingFinished?: boolean
+  variants?: MessageVariant[]
+  variantIndex?: number
+}
+
+// 当前显示的内容转为版本
+const toVariant = (msg: VariantMessage, base?: MessageVariant): MessageVariant => ({
+  ...base,
+  content: msg.content,
+  thinking: msg.thinking,
+  toolSteps: msg.toolSteps,
+  editCommands: msg.editCommands,
+  fileSnapshots: msg.fileSnapshots,
+  contextNotes: msg.contextNotes,
+  usage: msg.usage,
+  answeredBy: msg.answeredBy,
+  timestamp: msg.timestamp
+})
+
+/**
+ * 保存当前回答为版本，并新增一个待生成的版本
+ */
+export function startVariant<T extends VariantMessage>(
+  msg: T,
+  meta: Pick<MessageVariant, 'model' | 'temperature'>
+): T {
+  const variants = msg.variants ? [...msg.variants] : []
+  const index = msg.variantIndex ?? 0
+  variants[index] = toVariant(msg, variants[index])
+  const timestamp = new Date()
+  variants.push({ content: '', ...meta, timestamp })
+  return {
+    ...msg,
+    variants,
+    variantIndex: variants.length - 1,
+    content: '',
+    thinking: undefined,
+    thinkingFinished: undefined,
+    toolSteps: undefined,
+    editCommands: undefined,
+    fileSnapshots: undefined,
+    contextNotes: undefined,
+    usage: undefined,
+    answeredBy: undefined,
+    timestamp
+  }
+}
+
+/**
+ * 生成结束后写回当前版本
+ */
+export function finishVariant<T extends VariantMessage>(msg: T): T {
+  if (!msg.variants || msg.variantIndex === undefined) return msg
+  const variants = [...msg.variants]
+  variants[msg.variantIndex] = toVariant(msg, variants[msg.variantIndex])
+  return { ...msg, variants }
+}
+
+/**
+ * 切换到指定版本
+ */
+export function selectVariant<T extends VariantMessage>(msg: T, index: number): T {
+  const variant = msg.variants?.[index]
+  if (!variant || index === msg.variantIndex) return msg
+  return {
+    ...msg,
+    variantIndex: index,
+    content: variant.content,
+    thinking: variant.thinking,
+    thinkingFinished: true,
+    toolSteps: variant.toolSteps,
+    editCommands: variant.editCommands,
+    fileSnapshots: variant.fileSnapshots,
+    contextNotes: variant.contextNotes,
+    usage: variant.usage,
+    answeredBy: variant.answeredBy,
+    timestamp: variant.timestamp
+  }
+}
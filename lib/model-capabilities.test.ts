@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { modelSupportsTools } from './model-capabilities'
+
+describe('modelSupportsTools', () => {
+  it('已知支持工具调用的模型族使用工具', () => {
+    expect(modelSupportsTools({ model_name: 'gpt-4.1' })).toBe(true)
+    expect(modelSupportsTools({ model_name: 'deepseek-chat' })).toBe(true)
+  })
+
+  it('未知模型与不支持工具的模型回退到文本标记格式', () => {
+    expect(modelSupportsTools({ model_name: 'my-finetune-7b' })).toBe(false)
+    expect(modelSupportsTools({ model_name: 'deepseek-reasoner' })).toBe(false)
+  })
+
+  it('本地服务未确认时不使用工具，用户或接口元数据确认后使用', () => {
+    expect(modelSupportsTools({ model_name: 'qwen2.5:7b', requires_api_key: false })).toBe(false)
+    expect(modelSupportsTools({ model_name: 'qwen2.5:7b', requires_api_key: false, supports_tools: true })).toBe(true)
+  })
+
+  it('非 OpenAI 格式不使用工具', () => {
+    expect(modelSupportsTools({ model_name: 'claude-sonnet-4', api_format: 'claude', supports_tools: true })).toBe(false)
+  })
+})
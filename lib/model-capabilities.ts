@@ -0,0 +1,111 @@
+import type { ModelConfig } from './builtin-models'
+import { getContextWindow, getMaxOutputTokens } from './context-window'
+
+/**
+ * 模型能力元数据
+ * 添加自定义模型时优先使用供应商 /models 接口返回的信息，缺失的字段按模型名称推断
+ */
+
+export interface ModelCapabilities {
+  multimodal?: boolean
+  contextWindow?: number
+  maxOutputTokens?: number
+  supportsTools?: boolean
+}
+
+// 供应商模型列表中的一项
+export interface ProviderModelInfo extends ModelCapabilities {
+  id: string
+  name: string
+}
+
+// 支持图片输入的常见模型族
+const VISION_PATTERN = /gpt-4o|gpt-4\.1|gpt-4\.5|gpt-4-turbo|gpt-5(?!-chat)|(^|\/)o[1-9](-|$)|claude-(3|sonnet|opus|haiku)|gemini|gemma-3|[-_]vl|vision|glm-4(\.\d+)?v|llava|pixtral|grok-4|kimi-latest|doubao.*(vision|seed)|minicpm-v/
+// 已知支持工具调用的常见模型族；未知模型不推断为支持，使用文本标记格式
+const TOOLS_PATTERN = /gpt-4|gpt-5|(^|\/)o[1-9](-|$)|claude|gemini|deepseek-(chat|v3)|qwen(2\.5|3|-max|-plus|-turbo)|glm-4|kimi|moonshot|doubao|mistral-(large|medium|small)|grok/
+// 不支持工具调用的常见模型
+const NO_TOOLS_PATTERN = /deepseek-r1|deepseek-reasoner|(^|\/)o1-(mini|preview)|gemma|embedding|whisper|tts|dall-e/
+
+/**
+ * 按模型名称推断能力
+ */
+export function inferModelCapabilities(modelName: string): ModelCapabilities {
+  const name = modelName.toLowerCase()
+  return {
+    multimodal: VISION_PATTERN.test(name),
+    contextWindow: getContextWindow({ model_name: name }),
+    maxOutputTokens: getMaxOutputTokens({ model_name: name }),
+    supportsTools: NO_TOOLS_PATTERN.test(name) ? false : TOOLS_PATTERN.test(name) || undefined
+  }
+}
+
+const positiveNumber = (value: unknown): number | undefined => {
+  const parsed = Number(value)
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : undefined
+}
+
+/**
+ * 解析 /models 接口中的单个模型
+ * 兼容 OpenRouter（context_length、architecture、supported_parameters）、
+ * vLLM（max_model_len）与 Gemini（inputTokenLimit、outputTokenLimit）等字段
+ */
+export function parseProviderModel(raw: any): ProviderModelInfo {
+  const id = String(raw?.id || raw?.model || raw?.name || '').replace(/^models\//, '')
+  const inputModalities: unknown = raw?.architecture?.input_modalities ?? raw?.input_modalities
+  const modality: unknown = raw?.architecture?.modality
+  const parameters: unknown = raw?.supported_parameters
+  const methods: unknown = raw?.supportedGenerationMethods
+
+  let multimodal: boolean | undefined
+  if (Array.isArray(inputModalities)) {
+    multimodal = inputModalities.includes('image')
+  } else if (typeof modality === 'string') {
+    multimodal = modality.split('->')[0].includes('image')
+  } else if (typeof raw?.capabilities?.vision === 'boolean') {
+    multimodal = raw.capabilities.vision
+  }
+
+  let supportsTools: boolean | undefined
+  if (Array.isArray(parameters)) {
+    supportsTools = parameters.includes('tools')
+  } else if (typeof raw?.capabilities?.function_calling === 'boolean') {
+    supportsTools = raw.capabilities.function_calling
+  } else if (Array.isArray(methods) && !methods.includes('generateContent')) {
+    supportsTools = false
+  }
+
+  return {
+    id,
+    name: raw?.display_name || raw?.displayName || raw?.name || id,
+    multimodal,
+    contextWindow: positiveNumber(raw?.context_length ?? raw?.context_window ?? raw?.max_model_len ?? raw?.inputTokenLimit),
+    maxOutputTokens: positiveNumber(raw?.top_provider?.max_completion_tokens ?? raw?.max_output_tokens ?? raw?.outputTokenLimit),
+    supportsTools
+  }
+}
+
+/**
+ * 合并接口元数据与名称推断，接口给出的字段优先
+ */
+export function resolveModelCapabilities(modelName: string, info?: ModelCapabilities): ModelCapabilities {
+  const inferred = inferModelCapabilities(modelName)
+  return {
+    multimodal: info?.multimodal ?? inferred.multimodal,
+    contextWindow: info?.contextWindow ?? inferred.contextWindow,
+    maxOutputTokens: info?.maxOutputTokens ?? inferred.maxOutputTokens,
+    supportsTools: info?.supportsTools ?? inferred.supportsTools
+  }
+}
+
+/**
+ * 模型是否可以使用工具调用：目前仅 OpenAI 兼容格式实现了工具调用
+ * 未记录 supports_tools 时按模型名称推断；本地服务的能力取决于加载的模型与启动参数，未确认时不使用
+ */
+export function modelSupportsTools(
+  model: Pick<ModelConfig, 'api_format' | 'supports_tools' | 'model_name'> & Partial<Pick<ModelConfig, 'requires_api_key'>>
+): boolean {
+  if ((model.api_format || 'openai') !== 'openai') return false
+  if (model.supports_tools !== undefined) return model.supports_tools
+  if (model.requires_api_key === false) return false
+  return inferModelCapabilities(model.model_name).supportsTools === true
+}
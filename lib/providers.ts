@@ -53,10 +53,11 @@ export const builtinProviders: CustomProvider[] = [
   {
     id: "Gemini 官方",
     name: "Gemini",
-    baseUrl: "https://generativelanguage.googleapis.com/v1beta/openai",
+    baseUrl: "https://generativelanguage.googleapis.com/v1beta",
     apiKeyLabel: "API Key",
     isCustom: false,
-    enabled: false
+    enabled: false,
+    apiFormat: "gemini"
   },
   {
     id: "Anthropic 官方",
@@ -64,10 +65,47 @@ export const builtinProviders: CustomProvider[] = [
     baseUrl: "https://api.anthropic.com/v1",
     apiKeyLabel: "API Key",
     isCustom: false,
-    enabled: false
+    enabled: false,
+    apiFormat: "claude"
+  },
+  // 本地模型服务（OpenAI 兼容接口），请求不经过第三方；默认关闭，需用户手动启用
+  {
+    id: "ollama",
+    name: "Ollama",
+    baseUrl: "http://localhost:11434/v1",
+    apiKeyLabel: "API Key（可选）",
+    isCustom: false,
+    enabled: false,
+    isLocal: true,
+    requiresApiKey: false
+  },
+  {
+    id: "lmstudio",
+    name: "LM Studio",
+    baseUrl: "http://localhost:1234/v1",
+    apiKeyLabel: "API Key（可选）",
+    isCustom: false,
+    enabled: false,
+    isLocal: true,
+    requiresApiKey: false
+  },
+  {
+    id: "llamacpp",
+    name: "llama.cpp",
+    baseUrl: "http://localhost:8080/v1",
+    apiKeyLabel: "API Key（可选）",
+    isCustom: false,
+    enabled: false,
+    isLocal: true,
+    requiresApiKey: false
   },
 ]
 
+// 供应商实际使用的 Base URL：本地服务允许在设置中修改地址
+export const getProviderBaseUrl = (provider: CustomProvider, baseUrls: Record<string, string> = {}): string => {
+  return (provider.isLocal && baseUrls[provider.name]) || provider.baseUrl
+}
+
 // 根据ID获取供应商
 export const getProviderById = (id: string, customProviders: CustomProvider[] = []): CustomProvider | undefined => {
   // 先在内置供应商中查找
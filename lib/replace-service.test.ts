@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest'
+import { executeReplace, validateCommandBatch, type ReplaceCommand } from './replace-service'
+
+const CONTENT = 'We propose a new method. It is fast.'
+
+const insertCommand = (id: string, after: string, before: string, replace = ' simple'): ReplaceCommand => ({
+  id,
+  file: 'main.tex',
+  search: after,
+  replace,
+  isRegex: false,
+  commandType: 'insert',
+  insertAnchor: { after, before },
+  status: 'pending'
+})
+
+describe('executeReplace', () => {
+  it('在紧邻的两个锚点之间插入', () => {
+    const result = executeReplace(CONTENT, 'a', ' simple', false, 'insert', { after: 'a', before: 'new method' })
+    expect(result.success).toBe(true)
+    expect(result.result).toBe('We propose a simple new method. It is fast.')
+  })
+
+  it('两个锚点不紧邻时拒绝插入', () => {
+    const result = executeReplace(CONTENT, 'propose', ' x', false, 'insert', { after: 'propose', before: 'method' })
+    expect(result.success).toBe(false)
+  })
+
+  it('所选位置的 AFTER 锚点之后需紧接 BEFORE 锚点', () => {
+    const content = 'It is fast. It is cheap.'
+    const anchor = { after: 'It is', before: 'cheap' }
+    expect(executeReplace(content, 'It is', ' very', false, 'insert', anchor, [1], 2).result)
+      .toBe('It is fast. It is very cheap.')
+    expect(executeReplace(content, 'It is', ' very', false, 'insert', anchor, [0], 2).success).toBe(false)
+  })
+})
+
+describe('validateCommandBatch', () => {
+  const getFileContent = (file: string) => file === 'main.tex' ? CONTENT : undefined
+
+  it('BEFORE 锚点缺失或不紧邻时记录错误', () => {
+    const errors = validateCommandBatch([
+      insertCommand('missing', 'propose', 'nothing here'),
+      insertCommand('apart', 'propose', 'method'),
+      insertCommand('ok', 'a', 'new method')
+    ], getFileContent)
+    expect(errors.map(item => item.id)).toEqual(['missing', 'apart'])
+  })
+
+  it('后续命令基于前面命令修改后的内容校验', () => {
+    const errors = validateCommandBatch([
+      { ...insertCommand('first', 'a', 'new method'), replace: ' simple' },
+      insertCommand('second', 'simple', 'new method', ' and')
+    ], getFileContent)
+    expect(errors).toEqual([])
+  })
+})
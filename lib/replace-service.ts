@@ -3,6 +3,9 @@
  * 负责解析 LLM 输出中的替换指令，校验格式，并提供辅助工具。
  */
 
+import { findFuzzyMatch, type FuzzyMatch } from './fuzzy-match'
+import type { MergeConflict } from './three-way-merge'
+
 export type CommandType = 'replace' | 'insert' | 'create'
 
 export interface ReplaceCommand {
@@ -20,6 +23,16 @@ export interface ReplaceCommand {
   status: 'pending' | 'accepted' | 'rejected' | 'applied' | 'error'
   errorMessage?: string
   matchCount?: number
+  // 精确匹配失败时找到的相似内容，需用户确认后才会应用
+  fuzzyMatch?: Pick<FuzzyMatch, 'text' | 'score'>
+  // 多处匹配时用户选择的位置（按出现顺序的下标）；未设置时替换全部匹配，插入使用第一处锚点
+  occurrences?: number[]
+  // 选择位置时的匹配总数，应用时匹配数量变化则拒绝（下标可能已指向其他位置）
+  occurrenceCount?: number
+  // 生成修改时的文件内容，应用时与当前文档做三方合并
+  snapshot?: string
+  // 修改区域已被他人改动时的冲突内容
+  conflict?: MergeConflict
 }
 
 export interface ParseResult {
@@ -27,6 +40,9 @@ export interface ParseResult {
   cleanContent: string // 去除替换块标记后的原始文本
 }
 
+// 发送给模型时各文件的内容（文件路径 → 内容），作为该条回复中修改的快照
+export type FileSnapshots = Record<string, string>
+
 // 替换块标记 - 新格式：<<<SEARCH>>> ... <<<WITH>>>
 const REPLACE_BLOCK_NEW_FORMAT = /<<<REPLACE>>>\s*FILE:\s*(.+?)\s*<<<SEARCH>>>([\s\S]*?)<<<WITH>>>([\s\S]*?)<<<END>>>/g
 // 旧格式兼容：SEARCH: ... REPLACE:
@@ -178,6 +194,20 @@ export function validateSearchLength(search: string): { valid: boolean; error?:
   return { valid: true }
 }
 
+/**
+ * 相似度显示文本
+ */
+export function formatFuzzyScore(score: number): string {
+  return score >= 1 ? '仅空白或标点不同' : `相似度 ${Math.floor(score * 100)}%`
+}
+
+/**
+ * 选择位置后匹配数量变化的提示
+ */
+export function formatOccurrenceCountChanged(selectedCount: number, currentCount: number): string {
+  return `匹配数量已变化（选择时 ${selectedCount} 处，当前 ${currentCount} 处），请重新选择`
+}
+
 /**
  * 校验匹配次数是否合理
  */
@@ -185,7 +215,7 @@ export function validateMatchCount(
   content: string,
   search: string,
   isRegex: boolean
-): { valid: boolean; matchCount: number; error?: string } {
+): { valid: boolean; matchCount: number; error?: string; fuzzyScore?: number } {
   try {
     let targetContent = content
     let targetSearch = search
@@ -211,6 +241,15 @@ export function validateMatchCount(
     }
     
     if (matchCount === 0) {
+      const fuzzy = isRegex ? null : findFuzzyMatch(targetContent, targetSearch)
+      if (fuzzy) {
+        return {
+          valid: false,
+          matchCount,
+          fuzzyScore: fuzzy.score,
+          error: `未找到精确匹配，存在相似内容（${formatFuzzyScore(fuzzy.score)}），需单独应用并确认`
+        }
+      }
       return { valid: false, matchCount, error: '未找到匹配内容' }
     }
     
@@ -452,6 +491,58 @@ export function parseReplaceCommands(content: string): ParseResult {
   return { commands, cleanContent }
 }
 
+/**
+ * 将结构化编辑工具（replace / insert / create_file）的参数转换为替换命令
+ * 与文本标记解析共用校验和 ID 生成逻辑
+ */
+export function buildCommandFromTool(
+  toolName: string,
+  args: Record<string, any>
+): ReplaceCommand | null {
+  const commands: ReplaceCommand[] = []
+  const processedIds = new Set<string>()
+  const file = String(args.file ?? '')
+
+  switch (toolName) {
+    case 'replace':
+      return parseAndAddReplaceCommand(
+        file, String(args.search ?? ''), String(args.replace ?? ''), !!args.is_regex, commands, processedIds
+      ).command
+    case 'insert':
+      return parseAndAddInsertCommand(
+        file, String(args.after ?? ''), String(args.before ?? ''), String(args.content ?? ''), commands, processedIds
+      ).command
+    case 'create_file':
+      return parseAndAddCreateCommand(file, String(args.content ?? ''), commands, processedIds).command
+    default:
+      return null
+  }
+}
+
+/**
+ * 查找命令对应文件在发送时的内容（路径可能只写了相对部分）
+ */
+export function findSnapshotContent(snapshots: FileSnapshots, filePath: string): string | undefined {
+  if (filePath in snapshots) return snapshots[filePath]
+  const name = Object.keys(snapshots).find(name =>
+    name.endsWith('/' + filePath) || filePath.endsWith('/' + name)
+  )
+  return name === undefined ? undefined : snapshots[name]
+}
+
+/**
+ * 只保留命令涉及的文件快照，避免历史记录保存整个项目的内容
+ */
+export function pickFileSnapshots(snapshots: FileSnapshots, commands: ReplaceCommand[]): FileSnapshots | undefined {
+  const picked: FileSnapshots = {}
+  commands.forEach(cmd => {
+    if (cmd.commandType === 'create') return
+    const content = findSnapshotContent(snapshots, cmd.file)
+    if (content !== undefined) picked[cmd.file] = content
+  })
+  return Object.keys(picked).length > 0 ? picked : undefined
+}
+
 /**
  * 检查文本中是否包含替换/插入指令
  */
@@ -470,6 +561,14 @@ export function hasReplaceCommands(content: string): boolean {
   )
 }
 
+/**
+ * 行内插入的两个锚点需紧邻：插入位置之后（可隔空白）紧接 BEFORE 锚点
+ */
+export function isFollowedByAnchor(content: string, position: number, before: string): boolean {
+  const rest = content.slice(position)
+  return rest.slice(rest.length - rest.trimStart().length).startsWith(before)
+}
+
 /**
  * 执行替换/插入操作（返回操作后的内容）
  */
@@ -479,29 +578,35 @@ export function executeReplace(
   replace: string,
   isRegex: boolean,
   commandType: CommandType = 'replace',
-  insertAnchor?: { after?: string; before?: string }
+  insertAnchor?: { after?: string; before?: string },
+  occurrences?: number[],
+  occurrenceCount?: number
 ): { success: boolean; result: string; error?: string; insertPosition?: number } {
   try {
     let result: string
     let insertPosition: number | undefined
     
+    if (occurrences && commandType !== 'create') {
+      return executeAtOccurrences(content, search, replace, isRegex, commandType, insertAnchor, occurrences, occurrenceCount)
+    }
+
     if (commandType === 'insert' && insertAnchor) {
       const { after, before } = insertAnchor
       
       if (after && before) {
-        // 两个锚点都有：在 after 后、before 前之间插入
-        const afterIndex = content.indexOf(after)
-        const beforeIndex = content.indexOf(before)
-        if (afterIndex === -1) {
+        // 两个锚点都有：在紧邻的 after 与 before 之间插入
+        if (content.indexOf(after) === -1) {
           return { success: false, result: content, error: '未找到 AFTER 锚点文本' }
         }
-        if (beforeIndex === -1) {
+        if (content.indexOf(before) === -1) {
           return { success: false, result: content, error: '未找到 BEFORE 锚点文本' }
         }
-        const insertPos = afterIndex + after.length
-        if (insertPos > beforeIndex) {
-          return { success: false, result: content, error: 'AFTER 锚点必须在 BEFORE 锚点之前' }
+        const anchor = getMatchPositions(content, after, false)
+          .find(match => isFollowedByAnchor(content, match.end, before))
+        if (!anchor) {
+          return { success: false, result: content, error: 'AFTER 锚点之后必须紧接 BEFORE 锚点' }
         }
+        const insertPos = anchor.end
         result = content.slice(0, insertPos) + replace + content.slice(insertPos)
         insertPosition = insertPos
       } else if (after) {
@@ -541,6 +646,118 @@ export function executeReplace(
   }
 }
 
+/**
+ * 只在用户选择的匹配位置执行替换/插入
+ */
+function executeAtOccurrences(
+  content: string,
+  search: string,
+  replace: string,
+  isRegex: boolean,
+  commandType: CommandType,
+  insertAnchor: { after?: string; before?: string } | undefined,
+  occurrences: number[],
+  occurrenceCount?: number
+): { success: boolean; result: string; error?: string; insertPosition?: number } {
+  if (commandType === 'insert') {
+    const anchor = insertAnchor?.after || insertAnchor?.before
+    if (!anchor) {
+      return { success: false, result: content, error: '插入操作需要至少一个锚点' }
+    }
+    const anchorMatches = getMatchPositions(content, anchor, false)
+    if (occurrenceCount !== undefined && anchorMatches.length !== occurrenceCount) {
+      return { success: false, result: content, error: formatOccurrenceCountChanged(occurrenceCount, anchorMatches.length) }
+    }
+    const match = anchorMatches[occurrences[0] ?? 0]
+    if (!match) {
+      return { success: false, result: content, error: '所选锚点位置已不存在，请重新选择' }
+    }
+    const insertPosition = insertAnchor?.after ? match.end : match.start
+    // 两个锚点都有时，所选 AFTER 锚点之后需紧接 BEFORE 锚点
+    if (insertAnchor?.after && insertAnchor.before && !isFollowedByAnchor(content, insertPosition, insertAnchor.before)) {
+      return { success: false, result: content, error: 'AFTER 锚点之后必须紧接 BEFORE 锚点' }
+    }
+    return {
+      success: true,
+      result: content.slice(0, insertPosition) + replace + content.slice(insertPosition),
+      insertPosition
+    }
+  }
+
+  const allMatches = getMatchPositions(content, search, isRegex)
+  if (occurrenceCount !== undefined && allMatches.length !== occurrenceCount) {
+    return { success: false, result: content, error: formatOccurrenceCountChanged(occurrenceCount, allMatches.length) }
+  }
+  const selected = allMatches.filter((_, index) => occurrences.includes(index))
+  if (selected.length === 0) {
+    return { success: false, result: content, error: '所选匹配位置已不存在，请重新选择' }
+  }
+  const result = selected.reduceRight((text, match) => {
+    const replacement = isRegex ? match.text.replace(new RegExp(search), replace) : replace
+    return text.slice(0, match.start) + replacement + text.slice(match.end)
+  }, content)
+  return { success: true, result }
+}
+
+/**
+ * 批量应用前的整体校验
+ * 按顺序在内存中模拟执行，后面的命令基于前面命令修改后的内容校验
+ */
+export function validateCommandBatch(
+  commands: ReplaceCommand[],
+  getFileContent: (filePath: string) => string | undefined
+): Array<{ id: string; error: string }> {
+  const errors: Array<{ id: string; error: string }> = []
+  // 每个文件的模拟内容
+  const simulated = new Map<string, string>()
+
+  for (const command of commands) {
+    // 新建文件：目标不能已存在（已提取或在本批次中修改/新建过）
+    if (command.commandType === 'create') {
+      if (simulated.has(command.file) || getFileContent(command.file) !== undefined) {
+        errors.push({ id: command.id, error: `文件 ${command.file} 已存在，无法新建` })
+        continue
+      }
+      simulated.set(command.file, command.replace)
+      continue
+    }
+
+    const content = simulated.get(command.file) ?? getFileContent(command.file)
+    if (content === undefined) {
+      errors.push({ id: command.id, error: `文件 ${command.file} 尚未提取，无法校验` })
+      continue
+    }
+
+    const anchor = command.commandType === 'insert'
+      ? (command.insertAnchor?.after || command.insertAnchor?.before || '')
+      : command.search
+    const validation = validateMatchCount(content, anchor, command.isRegex)
+    if (!validation.valid) {
+      errors.push({ id: command.id, error: validation.error || '未找到匹配内容' })
+      continue
+    }
+
+    const result = executeReplace(
+      content,
+      command.search,
+      command.replace,
+      command.isRegex,
+      command.commandType,
+      command.insertAnchor,
+      command.occurrences,
+      command.occurrenceCount
+    )
+    // 模拟执行失败（如 BEFORE 锚点缺失或不紧邻）时同样拒绝整批应用
+    if (!result.success) {
+      errors.push({ id: command.id, error: result.error || '操作执行失败' })
+      continue
+    }
+    simulated.set(command.file, result.result)
+  }
+
+  return errors
+}
+
 /**
  * 高亮显示匹配区域的 HTML
  */
@@ -0,0 +1,200 @@
+import type { ModelConfig } from './builtin-models'
+import type { ChatMessage, StreamResponse, TokenUsage, ToolDefinition } from './llm-service'
+
+/**
+ * LLM 请求记录（开发者工具）
+ * 仅在开发环境记录每次请求的消息、请求体、原始响应分片、耗时与用量，保存在内存中
+ */
+
+export interface InspectedCall {
+  id: string
+  model: Pick<ModelConfig, 'display_name' | 'model_name' | 'provider' | 'api_format'>
+  url: string
+  headers: Record<string, string> // 已隐藏 API Key
+  body: string
+  messages: ChatMessage[] // 转换为接口格式之前的消息
+  tools?: ToolDefinition[]
+  startedAt: number
+  respondedAt?: number // 收到响应头
+  firstChunkAt?: number
+  finishedAt?: number
+  status?: number
+  chunks: string[] // 原始响应分片（SSE 或 JSON）
+  usage?: TokenUsage
+  error?: string
+}
+
+interface RecordRequest {
+  model: ModelConfig
+  url: string
+  headers: Headers
+  body: string
+  messages: ChatMessage[]
+  tools?: ToolDefinition[]
+}
+
+type Listener = (calls: InspectedCall[]) => void
+
+// 最多保留的请求数与单个请求的分片数
+const MAX_CALLS = 30
+const MAX_CHUNKS = 2000
+
+const SECRET_HEADERS = new Set(['authorization', 'x-api-key', 'x-goog-api-key'])
+
+const enabled = process.env.NODE_ENV === 'development'
+let calls: InspectedCall[] = []
+const listeners = new Set<Listener>()
+// 记录的响应与请求的对应关系，用于在解析流时写入用量与错误
+const responseCalls = new WeakMap<Response, string>()
+
+const notify = () => {
+  listeners.forEach(listener => listener(calls))
+}
+
+const updateCall = (id: string, patch: Partial<InspectedCall> | ((call: InspectedCall) => Partial<InspectedCall>)) => {
+  calls = calls.map(call => call.id === id ? { ...call, ...(typeof patch === 'function' ? patch(call) : patch) } : call)
+  notify()
+}
+
+const redactHeaders = (headers: Headers): Record<string, string> => {
+  const result: Record<string, string> = {}
+  headers.forEach((value, key) => {
+    result[key] = SECRET_HEADERS.has(key.toLowerCase())
+      ? value.replace(/^(Bearer\s+)?.*$/i, (_, bearer = '') => `${bearer}***`)
+      : value
+  })
+  return result
+}
+
+export function subscribeInspectedCalls(listener: Listener): () => void {
+  listeners.add(listener)
+  listener(calls)
+  return () => {
+    listeners.delete(listener)
+  }
+}
+
+export function clearInspectedCalls() {
+  calls = []
+  notify()
+}
+
+/**
+ * 发送请求并记录，响应体被复制一份写入记录，不影响调用方读取
+ */
+export async function inspectedFetch(request: RecordRequest, signal?: AbortSignal): Promise<Response> {
+  const send = () => fetch(request.url, { method: 'POST', headers: request.headers, body: request.body, signal })
+  if (!enabled) return send()
+
+  const id = `call_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`
+  const { display_name, model_name, provider, api_format } = request.model
+  calls = [{
+    id,
+    model: { display_name, model_name, provider, api_format },
+    url: request.url,
+    headers: redactHeaders(request.headers),
+    body: request.body,
+    messages: request.messages,
+    tools: request.tools,
+    startedAt: Date.now(),
+    chunks: []
+  }, ...calls].slice(0, MAX_CALLS)
+  notify()
+
+  let response: Response
+  try {
+    response = await send()
+  } catch (error) {
+    updateCall(id, { finishedAt: Date.now(), error: error instanceof Error ? error.message : String(error) })
+    throw error
+  }
+  updateCall(id, {
+    respondedAt: Date.now(),
+    status: response.status,
+    ...(response.ok ? {} : { error: `HTTP ${response.status}` })
+  })
+  if (!response.body) return response
+
+  const decoder = new TextDecoder()
+  const recorder = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      const text = decoder.decode(chunk, { stream: true })
+      updateCall(id, call => ({
+        firstChunkAt: call.firstChunkAt ?? Date.now(),
+        chunks: call.chunks.length < MAX_CHUNKS ? [...call.chunks, text] : call.chunks
+      }))
+      controller.enqueue(chunk)
+    },
+    flush() {
+      updateCall(id, call => ({ finishedAt: call.finishedAt ?? Date.now() }))
+    }
+  })
+  const recorded = new Response(response.body.pipeThrough(recorder), {
+    status: response.status,
+    statusText: response.statusText,
+    headers: response.headers
+  })
+  responseCalls.set(recorded, id)
+  return recorded
+}
+
+/**
+ * 解析流式响应时写入用量与错误
+ */
+export async function* inspectStream(
+  response: Response,
+  stream: AsyncGenerator<StreamResponse, void, unknown>
+): AsyncGenerator<StreamResponse, void, unknown> {
+  const id = responseCalls.get(response)
+  for await (const chunk of stream) {
+    if (id && (chunk.finished || chunk.error)) {
+      updateCall(id, {
+        ...(chunk.usage ? { usage: chunk.usage } : {}),
+        ...(chunk.error ? { error: chunk.error } : {}),
+        ...(chunk.finished ? { finishedAt: Date.now() } : {})
+      })
+    }
+    yield chunk
+  }
+}
+
+const shellQuote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`
+
+/**
+ * 导出为 curl 命令，API Key 以环境变量 $API_KEY 代替
+ */
+export function toCurl(call: InspectedCall): string {
+  const headers = Object.entries(call.headers).map(([key, value]) =>
+    value.includes('***')
+      ? `  -H "${key}: ${value.replace('***', '$API_KEY')}"`
+      : `  -H ${shellQuote(`${key}: ${value}`)}`
+  )
+  return [
+    `curl -X POST ${shellQuote(call.url)}`,
+    ...headers,
+    `  -d ${shellQuote(call.body)}`
+  ].join(' \\\n')
+}
+
+/**
+ * 导出为 JSON（请求、响应与耗时）
+ */
+export function toJson(call: InspectedCall): string {
+  let body: unknown = call.body
+  try {
+    body = JSON.parse(call.body)
+  } catch {
+    // 保留原始字符串
+  }
+  return JSON.stringify({
+    model: call.model,
+    request: { url: call.url, headers: call.headers, body },
+    response: { status: call.status, chunks: call.chunks, usage: call.usage, error: call.error },
+    timings: {
+      startedAt: new Date(call.startedAt).toISOString(),
+      ttfb: call.respondedAt ? call.respondedAt - call.startedAt : undefined,
+      firstChunk: call.firstChunkAt ? call.firstChunkAt - call.startedAt : undefined,
+      total: call.finishedAt ? call.finishedAt - call.startedAt : undefined
+    }
+  }, null, 2)
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import { COMMENT_PLACEHOLDER } from './replace-service'
+import { mergeWithSnapshot, type SnapshotMergeResult } from './three-way-merge'
+
+// 在快照中定位 search 并生成替换修改
+const editOf = (snapshot: string, search: string, insert: string) => {
+  const from = snapshot.indexOf(search)
+  if (from < 0) throw new Error(`未找到 ${search}`)
+  return { from, to: from + search.length, insert }
+}
+
+// 将合并结果应用到当前文档（修改按位置从后向前排列）
+const applyMerged = (live: string, result: SnapshotMergeResult): string => {
+  if (result.status !== 'clean') throw new Error(`合并结果为 ${result.status}`)
+  return result.changes.reduce((text, change) => text.slice(0, change.from) + change.insert + text.slice(change.to), live)
+}
+
+const SNAPSHOT = [
+  '\\section{Intro}',
+  'First paragraph here.',
+  'Second paragraph here.',
+  'Third paragraph here.',
+  '\\end{document}'
+].join('\n')
+
+describe('mergeWithSnapshot', () => {
+  it('文档未变化时返回 unchanged', () => {
+    const edit = editOf(SNAPSHOT, 'Second', '2nd')
+    expect(mergeWithSnapshot(SNAPSHOT, SNAPSHOT, [edit])).toEqual({ status: 'unchanged' })
+  })
+
+  it('他人修改其他区域时映射修改位置', () => {
+    const live = SNAPSHOT
+      .replace('\\section{Intro}', '\\section{Introduction}\n\\label{sec:intro}')
+      .replace('\\end{document}', '% done\n\\end{document}')
+    const result = mergeWithSnapshot(SNAPSHOT, live, [editOf(SNAPSHOT, 'Third', '3rd')])
+    expect(result.status).toBe('clean')
+    expect(applyMerged(live, result)).toBe(live.replace('Third', '3rd'))
+  })
+
+  it('修改所在行的相邻行被改动时合并成功', () => {
+    const live = SNAPSHOT.replace('First paragraph here.', 'First paragraph, revised.')
+    const result = mergeWithSnapshot(SNAPSHOT, live, [editOf(SNAPSHOT, 'Second paragraph', 'Another paragraph')])
+    expect(result.status).toBe('clean')
+    expect(applyMerged(live, result)).toBe(live.replace('Second paragraph', 'Another paragraph'))
+  })
+
+  it('同一行内不重叠的改动按字符合并', () => {
+    const live = SNAPSHOT.replace('Second paragraph here.', 'Second paragraph over there.')
+    const result = mergeWithSnapshot(SNAPSHOT, live, [editOf(SNAPSHOT, 'Second', '2nd')])
+    expect(result.status).toBe('clean')
+    expect(applyMerged(live, result)).toBe(live.replace('Second', '2nd'))
+  })
+
+  it('他人修改与本次修改重叠时返回冲突', () => {
+    const live = SNAPSHOT.replace('Second paragraph', 'Middle paragraph')
+    const result = mergeWithSnapshot(SNAPSHOT, live, [editOf(SNAPSHOT, 'Second paragraph', 'Another paragraph')])
+    expect(result).toEqual({
+      status: 'conflict',
+      conflict: {
+        base: 'Second paragraph here.',
+        theirs: 'Middle paragraph here.',
+        ours: 'Another paragraph here.'
+      }
+    })
+  })
+
+  it('纯插入随前面新增的行移动', () => {
+    const anchor = 'Second paragraph here.\n'
+    const pos = SNAPSHOT.indexOf(anchor) + anchor.length
+    const insertion = { from: pos, to: pos, insert: 'Inserted line.\n' }
+    const live = SNAPSHOT.replace('First paragraph here.', 'First paragraph here.\nExtra line.')
+    const result = mergeWithSnapshot(SNAPSHOT, live, [insertion])
+    expect(result.status).toBe('clean')
+    expect(applyMerged(live, result)).toBe(live.replace(anchor, anchor + 'Inserted line.\n'))
+  })
+
+  it('快照中的注释占位符与当前文档中的多行注释对应', () => {
+    const snapshot = ['Before.', COMMENT_PLACEHOLDER, 'After comments.'].join('\n')
+    const live = ['New first line.', 'Before.', '% note one', '  % note two', 'After comments.'].join('\n')
+    const result = mergeWithSnapshot(snapshot, live, [editOf(snapshot, 'After', 'Following')])
+    expect(result.status).toBe('clean')
+    expect(applyMerged(live, result)).toBe(live.replace('After', 'Following'))
+  })
+
+  it('修改位于注释占位符内部时无法映射', () => {
+    const snapshot = ['Before.', COMMENT_PLACEHOLDER, 'After comments.'].join('\n')
+    const live = ['New first line.', 'Before.', '% note one', '% note two', 'After comments.'].join('\n')
+    const from = snapshot.indexOf(COMMENT_PLACEHOLDER) + 4
+    const result = mergeWithSnapshot(snapshot, live, [{ from, to: from + 3, insert: 'x' }])
+    expect(result).toEqual({ status: 'unavailable' })
+  })
+
+  it('差异过大时放弃合并', () => {
+    const snapshot = Array.from({ length: 1100 }, (_, i) => `base line ${i}`).join('\n')
+    const live = Array.from({ length: 1100 }, (_, i) => `live line ${i}`).join('\n')
+    const result = mergeWithSnapshot(snapshot, live, [editOf(snapshot, 'base line 5', 'edited')])
+    expect(result).toEqual({ status: 'unavailable' })
+  })
+})
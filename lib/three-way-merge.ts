@@ -0,0 +1,299 @@
+/**
+ * 三方合并
+ * 以修改生成时的文件快照为基准，将修改映射到当前文档：
+ * 他人修改与本次修改不重叠时自动调整位置，重叠时返回冲突内容
+ */
+
+import { COMMENT_PLACEHOLDER } from './replace-service'
+
+export interface MergeConflict {
+  base: string   // 生成修改时该区域的内容
+  theirs: string // 当前文档中该区域的内容
+  ours: string   // 用本次修改覆盖后的内容（与本次修改重叠处以本次为准，其余保留当前内容）
+}
+
+interface TextEdit {
+  from: number
+  to: number
+  insert: string
+}
+
+export type SnapshotMergeResult =
+  | { status: 'unchanged' }
+  | { status: 'clean'; changes: TextEdit[] }
+  | { status: 'conflict'; conflict: MergeConflict }
+  | { status: 'unavailable' }
+
+// 差异的最大编辑数，超过则放弃合并
+const MAX_DIFF_EDITS = 2000
+
+interface LineView {
+  text: string
+  start: number
+  end: number // 不含换行符
+}
+
+// 变化的区间（左闭右开，按行或按字符）
+interface Hunk {
+  baseStart: number
+  baseEnd: number
+  liveStart: number
+  liveEnd: number
+}
+
+/**
+ * 按行切分并记录原文位置，连续注释行与提取内容一致折叠为占位符
+ */
+function toLineViews(content: string): LineView[] {
+  const views: LineView[] = []
+  const lineRegex = /\r?\n/g
+  let start = 0
+  let match: RegExpExecArray | null
+  const push = (end: number) => {
+    const text = content.slice(start, end)
+    const last = views[views.length - 1]
+    if (text.trimStart().startsWith('%')) {
+      if (last?.text === COMMENT_PLACEHOLDER) {
+        last.end = end
+        return
+      }
+      views.push({ text: COMMENT_PLACEHOLDER, start, end })
+      return
+    }
+    views.push({ text, start, end })
+  }
+  while ((match = lineRegex.exec(content)) !== null) {
+    push(match.index)
+    start = match.index + match[0].length
+  }
+  push(content.length)
+  return views
+}
+
+/**
+ * Myers 差异，返回变化的区间；差异过大时返回 null
+ */
+function diffSequences(base: string[], live: string[]): Hunk[] | null {
+  let prefix = 0
+  while (prefix < base.length && prefix < live.length && base[prefix] === live[prefix]) prefix++
+  let suffix = 0
+  while (
+    suffix < base.length - prefix &&
+    suffix < live.length - prefix &&
+    base[base.length - 1 - suffix] === live[live.length - 1 - suffix]
+  ) suffix++
+
+  const a = base.slice(prefix, base.length - suffix)
+  const b = live.slice(prefix, live.length - suffix)
+  const n = a.length
+  const m = b.length
+  if (n === 0 && m === 0) return []
+
+  const limit = Math.min(n + m, MAX_DIFF_EDITS)
+  const offset = limit + 1
+  const v = new Int32Array(2 * limit + 3)
+  const trace: Int32Array[] = []
+  let found = false
+  for (let d = 0; d <= limit && !found; d++) {
+    trace.push(v.slice())
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1
+      let y = x - k
+      while (x < n && y < m && a[x] === b[y]) {
+        x++
+        y++
+      }
+      v[offset + k] = x
+      if (x >= n && y >= m) {
+        found = true
+        break
+      }
+    }
+  }
+  if (!found) return null
+
+  // 回溯得到删除的基准行与新增的当前行
+  const deleted = new Uint8Array(n)
+  const inserted = new Uint8Array(m)
+  let x = n
+  let y = m
+  for (let d = trace.length - 1; d > 0; d--) {
+    const prev = trace[d]
+    const k = x - y
+    const prevK = k === -d || (k !== d && prev[offset + k - 1] < prev[offset + k + 1]) ? k + 1 : k - 1
+    const prevX = prev[offset + prevK]
+    const prevY = prevX - prevK
+    while (x > prevX && y > prevY) {
+      x--
+      y--
+    }
+    if (x === prevX) inserted[prevY] = 1
+    else deleted[prevX] = 1
+    x = prevX
+    y = prevY
+  }
+
+  const hunks: Hunk[] = []
+  let i = 0
+  let j = 0
+  while (i < n || j < m) {
+    if (i < n && j < m && !deleted[i] && !inserted[j]) {
+      i++
+      j++
+      continue
+    }
+    const baseStart = i
+    const liveStart = j
+    while ((i < n && deleted[i]) || (j < m && inserted[j])) {
+      while (i < n && deleted[i]) i++
+      while (j < m && inserted[j]) j++
+    }
+    hunks.push({
+      baseStart: baseStart + prefix,
+      baseEnd: i + prefix,
+      liveStart: liveStart + prefix,
+      liveEnd: j + prefix
+    })
+  }
+  return hunks
+}
+
+// 偏移所在的行（最后一个起点不大于该偏移的行）
+function lineOf(views: LineView[], pos: number): number {
+  let low = 0
+  let high = views.length - 1
+  while (low < high) {
+    const mid = (low + high + 1) >> 1
+    if (views[mid].start <= pos) low = mid
+    else high = mid - 1
+  }
+  return low
+}
+
+// 将基准行内的偏移映射到对应的当前行；注释占位符内部无法映射
+function mapOffset(pos: number, baseLine: LineView, liveLine: LineView | undefined): number | null {
+  if (!liveLine) return null
+  const col = pos - baseLine.start
+  const length = baseLine.end - baseLine.start
+  if (baseLine.text === COMMENT_PLACEHOLDER) {
+    if (col === 0) return liveLine.start
+    return col >= length ? liveLine.end + (col - length) : null
+  }
+  return liveLine.start + col
+}
+
+// 变化区间是否与修改范围 [from, to) 重叠（纯插入位于修改范围内部也算重叠）
+function overlapsEdit(hunk: Hunk, edit: TextEdit): boolean {
+  if (hunk.baseStart === hunk.baseEnd) return hunk.baseStart > edit.from && hunk.baseStart < edit.to
+  return hunk.baseStart < edit.to && hunk.baseEnd > edit.from
+}
+
+// 将基准中的位置映射到当前内容；位于该位置的插入，作为起点时计入、作为终点时不计入
+function mapPosition(hunks: Hunk[], pos: number, isEnd: boolean): number {
+  let shift = 0
+  for (const hunk of hunks) {
+    const before = hunk.baseEnd < pos || (hunk.baseEnd === pos && !(isEnd && hunk.baseStart === hunk.baseEnd))
+    if (!before) break
+    shift += (hunk.liveEnd - hunk.liveStart) - (hunk.baseEnd - hunk.baseStart)
+  }
+  return pos + shift
+}
+
+/**
+ * 在区域内按字符合并：他人修改不触及本次修改的字符时返回映射后的位置，
+ * 否则返回以本次修改覆盖重叠部分、保留其余改动后的区域内容
+ */
+function mergeInRegion(
+  base: string,
+  theirs: string,
+  edit: TextEdit
+): { status: 'clean'; from: number; to: number } | { status: 'conflict'; resolved: string } {
+  const hunks = diffSequences(base.split(''), theirs.split(''))
+  if (!hunks) {
+    return { status: 'conflict', resolved: base.slice(0, edit.from) + edit.insert + base.slice(edit.to) }
+  }
+  const overlapping = hunks.filter(hunk => overlapsEdit(hunk, edit))
+  if (overlapping.length === 0) {
+    const from = mapPosition(hunks, edit.from, false)
+    const to = edit.to === edit.from ? from : mapPosition(hunks, edit.to, true)
+    return { status: 'clean', from, to }
+  }
+
+  const spanFrom = Math.min(edit.from, overlapping[0].baseStart)
+  const spanTo = Math.max(edit.to, overlapping[overlapping.length - 1].baseEnd)
+  const resolved =
+    theirs.slice(0, mapPosition(hunks, spanFrom, false)) +
+    base.slice(spanFrom, edit.from) +
+    edit.insert +
+    base.slice(edit.to, spanTo) +
+    theirs.slice(mapPosition(hunks, spanTo, true))
+  return { status: 'conflict', resolved }
+}
+
+/**
+ * 将基于快照计算的修改合并到当前文档
+ * @param snapshot - 生成修改时的文件内容（提取后的内容，注释块为占位符）
+ * @param live - 当前文档内容
+ * @param edits - 在快照上计算出的修改（按位置从后向前排列）
+ */
+export function mergeWithSnapshot(snapshot: string, live: string, edits: TextEdit[]): SnapshotMergeResult {
+  const baseViews = toLineViews(snapshot)
+  const liveViews = toLineViews(live)
+  const hunks = diffSequences(baseViews.map(view => view.text), liveViews.map(view => view.text))
+  if (!hunks) return { status: 'unavailable' }
+  if (hunks.length === 0) return { status: 'unchanged' }
+
+  const changes: TextEdit[] = []
+  for (const edit of edits) {
+    const firstLine = lineOf(baseViews, edit.from)
+    const lastLine = edit.to > edit.from ? lineOf(baseViews, edit.to - 1) : firstLine
+    // 与本次修改涉及的行重叠的变化（行内插入新行也算重叠）
+    const overlapping = hunks.filter(hunk =>
+      hunk.baseStart === hunk.baseEnd
+        ? hunk.baseStart > firstLine && hunk.baseStart <= lastLine
+        : hunk.baseStart <= lastLine && hunk.baseEnd > firstLine
+    )
+    const shift = hunks
+      .filter(hunk => hunk.baseEnd <= firstLine && !overlapping.includes(hunk))
+      .reduce((sum, hunk) => sum + (hunk.liveEnd - hunk.liveStart) - (hunk.baseEnd - hunk.baseStart), 0)
+
+    if (overlapping.length === 0) {
+      // 所在行未被修改：按行偏移映射位置
+      const from = mapOffset(edit.from, baseViews[firstLine], liveViews[firstLine + shift])
+      const to = mapOffset(edit.to, baseViews[lastLine], liveViews[lastLine + shift])
+      if (from === null || to === null) return { status: 'unavailable' }
+      changes.push({ from, to, insert: edit.insert })
+      continue
+    }
+
+    // 所在行被修改：在重叠的行内按字符合并
+    const startLine = Math.min(firstLine, overlapping[0].baseStart)
+    const endLine = Math.max(lastLine + 1, overlapping[overlapping.length - 1].baseEnd)
+    const liveStartLine = startLine + shift
+    const liveEndLine = endLine + shift + overlapping.reduce(
+      (sum, hunk) => sum + (hunk.liveEnd - hunk.liveStart) - (hunk.baseEnd - hunk.baseStart),
+      0
+    )
+    const baseFrom = baseViews[startLine].start
+    // 修改可能包含行尾换行符，两侧一并纳入比较
+    const extra = Math.max(0, edit.to - baseViews[endLine - 1].end)
+    const baseTo = baseViews[endLine - 1].end + extra
+    const liveFrom = liveStartLine < liveViews.length ? liveViews[liveStartLine].start : live.length
+    const liveTo = Math.min(live.length, (liveEndLine > liveStartLine ? liveViews[liveEndLine - 1].end : liveFrom) + extra)
+    const baseText = snapshot.slice(baseFrom, baseTo)
+    const theirs = live.slice(liveFrom, liveTo)
+
+    const merged = mergeInRegion(baseText, theirs, {
+      from: edit.from - baseFrom,
+      to: edit.to - baseFrom,
+      insert: edit.insert
+    })
+    if (merged.status === 'conflict') {
+      return { status: 'conflict', conflict: { base: baseText, theirs, ours: merged.resolved } }
+    }
+    changes.push({ from: liveFrom + merged.from, to: liveFrom + merged.to, insert: edit.insert })
+  }
+  return { status: 'clean', changes }
+}
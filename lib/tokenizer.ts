@@ -0,0 +1,153 @@
+import { Tiktoken } from 'js-tiktoken/lite'
+import type { TiktokenBPE } from 'js-tiktoken/lite'
+import { estimateTokenWeight } from '~components/chat/file/file-tree-utils'
+
+/**
+ * 按模型族选择分词器的 token 计数
+ * 内置 GPT 系列的 BPE 词表，Qwen/DeepSeek 等同类 BPE 词表按 cl100k 近似，其余模型回退到字符权重估算
+ * 词表体积较大，首次使用时才动态加载，加载完成前按字符权重估算
+ */
+
+export interface Tokenizer {
+  id: string
+  label: string // 展示名称，如 "o200k"
+  exact: boolean // 是否为真实分词结果（否则为估算或近似）
+  count: (text: string) => number
+  isReady: () => boolean // 词表是否已加载
+  load: () => Promise<void>
+}
+
+interface TokenizerEntry {
+  pattern: RegExp // 匹配模型名称（小写）
+  create: () => Tokenizer
+}
+
+// 单个分词器缓存的文本条数，避免输入时反复对大文件分词
+const MAX_CACHE_ENTRIES = 200
+// 短文本直接计算，不进入缓存
+const MIN_CACHED_LENGTH = 256
+
+/**
+ * 为计数函数加上按文本内容的缓存
+ */
+function withCache(count: (text: string) => number): (text: string) => number {
+  const cache = new Map<string, number>()
+  return (text: string) => {
+    if (!text) return 0
+    if (text.length < MIN_CACHED_LENGTH) return count(text)
+    const cached = cache.get(text)
+    if (cached !== undefined) return cached
+    const result = count(text)
+    if (cache.size >= MAX_CACHE_ENTRIES) cache.clear()
+    cache.set(text, result)
+    return result
+  }
+}
+
+const heuristicTokenizer: Tokenizer = {
+  id: 'heuristic',
+  label: '估算',
+  exact: false,
+  count: withCache(text => Math.ceil(estimateTokenWeight(text))),
+  isReady: () => true,
+  load: async () => {}
+}
+
+/**
+ * BPE 分词器：词表按需动态加载，未加载完成时返回估算值
+ */
+function createBpeTokenizer(id: string, loadRanks: () => Promise<TiktokenBPE>): Tokenizer {
+  let encoder: Tiktoken | null = null
+  let loading: Promise<void> | null = null
+  const load = () => {
+    loading ??= loadRanks()
+      .then(ranks => {
+        encoder = new Tiktoken(ranks)
+      })
+      .catch(error => {
+        console.warn('分词器词表加载失败，使用估算:', error)
+      })
+    return loading
+  }
+  // 特殊标记按普通文本处理，避免文件内容中的 <|endoftext|> 抛错
+  const countExact = withCache(text => encoder!.encode(text, [], []).length)
+  return {
+    id,
+    label: id,
+    exact: true,
+    count: text => {
+      if (encoder) return countExact(text)
+      void load()
+      return heuristicTokenizer.count(text)
+    },
+    isReady: () => encoder !== null,
+    load
+  }
+}
+
+// 单例，多个模型族共享同一词表
+const singletons = new Map<string, Tokenizer>()
+const shared = (id: string, create: () => Tokenizer) => () => {
+  if (!singletons.has(id)) singletons.set(id, create())
+  return singletons.get(id)!
+}
+
+const loadO200k = () => import('js-tiktoken/dist/ranks/o200k_base').then(module => module.default)
+const loadCl100k = () => import('js-tiktoken/dist/ranks/cl100k_base').then(module => module.default)
+
+const o200k = shared('o200k', () => createBpeTokenizer('o200k', loadO200k))
+const cl100k = shared('cl100k', () => createBpeTokenizer('cl100k', loadCl100k))
+// 其他模型借用 cl100k 词表，结果仅为近似
+const cl100kApprox = shared('cl100k-approx', () => ({ ...cl100k(), label: 'cl100k（近似）', exact: false }))
+
+// 按顺序匹配，先注册的优先
+const registry: TokenizerEntry[] = [
+  { pattern: /gpt-4o|gpt-4\.1|gpt-4\.5|gpt-5|chatgpt|(^|\/)o[1-9](-|$)|gpt-oss/, create: o200k },
+  { pattern: /gpt-4|gpt-3\.5|text-embedding/, create: cl100k },
+  // 以下模型使用各自的 BPE 词表，与 cl100k 切分粒度接近
+  { pattern: /qwen|qwq|deepseek|glm|kimi|moonshot|doubao|yi-|minimax|hunyuan|ernie/, create: cl100kApprox }
+]
+
+/**
+ * 注册自定义分词器，优先于内置规则
+ */
+export function registerTokenizer(pattern: RegExp, create: () => Tokenizer): void {
+  registry.unshift({ pattern, create })
+}
+
+/**
+ * 获取模型对应的分词器，未匹配时返回字符权重估算
+ */
+export function getTokenizer(modelName?: string): Tokenizer {
+  if (!modelName) return heuristicTokenizer
+  const name = modelName.toLowerCase()
+  const entry = registry.find(item => item.pattern.test(name))
+  if (!entry) return heuristicTokenizer
+  try {
+    return entry.create()
+  } catch (error) {
+    console.warn('分词器初始化失败，使用估算:', error)
+    return heuristicTokenizer
+  }
+}
+
+/**
+ * 预先加载模型对应的词表，加载完成后 countTokens 返回分词结果
+ */
+export async function loadTokenizer(modelName?: string): Promise<void> {
+  await getTokenizer(modelName).load()
+}
+
+/**
+ * 计算文本 token 数，分词失败时回退到估算
+ */
+export function countTokens(text: string, modelName?: string): number {
+  if (!text) return 0
+  const tokenizer = getTokenizer(modelName)
+  try {
+    return tokenizer.count(text)
+  } catch (error) {
+    console.warn('分词失败，使用估算:', error)
+    return heuristicTokenizer.count(text)
+  }
+}
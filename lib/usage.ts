@@ -0,0 +1,138 @@
+import type { ModelPrice } from '~store/types'
+import type { TokenUsage } from './llm-service'
+
+/**
+ * token 用量与费用统计
+ * 价格按每百万 token 计，用户在设置中配置的价格优先于内置价格
+ */
+
+export type Currency = ModelPrice['currency']
+
+// 单条回复的用量（含模型与按当时价格计算的费用）
+export interface MessageUsage extends TokenUsage {
+  model: string
+  cost?: number
+  currency?: Currency
+}
+
+// 对话 / 项目维度的累计用量
+export interface UsageTotals {
+  requests: number
+  inputTokens: number
+  outputTokens: number
+  cachedInputTokens: number
+  cost: Partial<Record<Currency, number>>
+}
+
+// 内置参考价格，按顺序匹配模型名称（小写）
+const DEFAULT_MODEL_PRICES: Array<[RegExp, ModelPrice]> = [
+  [/deepseek/, { input: 2, cachedInput: 0.2, output: 3, currency: 'CNY' }],
+  [/gpt-4o-mini/, { input: 0.15, cachedInput: 0.075, output: 0.6, currency: 'USD' }],
+  [/gpt-4o/, { input: 2.5, cachedInput: 1.25, output: 10, currency: 'USD' }],
+  [/gpt-4\.1-mini/, { input: 0.4, cachedInput: 0.1, output: 1.6, currency: 'USD' }],
+  [/gpt-4\.1/, { input: 2, cachedInput: 0.5, output: 8, currency: 'USD' }],
+  [/gpt-5-mini/, { input: 0.25, cachedInput: 0.025, output: 2, currency: 'USD' }],
+  [/gpt-5/, { input: 1.25, cachedInput: 0.125, output: 10, currency: 'USD' }],
+  [/(^|\/)o4-mini/, { input: 1.1, cachedInput: 0.275, output: 4.4, currency: 'USD' }],
+  [/claude-(3-5-)?haiku/, { input: 0.8, cachedInput: 0.08, cacheWrite: 1, output: 4, currency: 'USD' }],
+  [/claude.*opus/, { input: 15, cachedInput: 1.5, cacheWrite: 18.75, output: 75, currency: 'USD' }],
+  [/claude/, { input: 3, cachedInput: 0.3, cacheWrite: 3.75, output: 15, currency: 'USD' }],
+  [/gemini-2\.5-pro/, { input: 1.25, cachedInput: 0.31, output: 10, currency: 'USD' }],
+  [/gemini-2\.5-flash/, { input: 0.3, cachedInput: 0.075, output: 2.5, currency: 'USD' }]
+]
+
+const CURRENCY_SYMBOLS: Record<Currency, string> = { USD: '$', CNY: '¥' }
+
+export const emptyUsageTotals = (): UsageTotals => ({
+  requests: 0,
+  inputTokens: 0,
+  outputTokens: 0,
+  cachedInputTokens: 0,
+  cost: {}
+})
+
+export function getDefaultModelPrice(modelName: string): ModelPrice | undefined {
+  const name = modelName.toLowerCase()
+  return DEFAULT_MODEL_PRICES.find(([pattern]) => pattern.test(name))?.[1]
+}
+
+export function getModelPrice(modelName: string, userPrices: Record<string, ModelPrice> = {}): ModelPrice | undefined {
+  return userPrices[modelName] ?? getDefaultModelPrice(modelName)
+}
+
+/**
+ * 合并两次请求的用量（Agent 多轮调用时累加）
+ */
+export function addUsage(a: TokenUsage | undefined, b: TokenUsage | undefined): TokenUsage | undefined {
+  if (!a) return b
+  if (!b) return a
+  return {
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    cachedInputTokens: (a.cachedInputTokens || 0) + (b.cachedInputTokens || 0) || undefined,
+    cacheWriteTokens: (a.cacheWriteTokens || 0) + (b.cacheWriteTokens || 0) || undefined,
+    reasoningTokens: (a.reasoningTokens || 0) + (b.reasoningTokens || 0) || undefined
+  }
+}
+
+/**
+ * 按价格计算单次用量的费用
+ */
+export function buildMessageUsage(
+  usage: TokenUsage,
+  model: string,
+  userPrices?: Record<string, ModelPrice>
+): MessageUsage {
+  const price = getModelPrice(model, userPrices)
+  if (!price) return { ...usage, model }
+
+  const cached = Math.min(usage.cachedInputTokens || 0, usage.inputTokens)
+  const written = Math.min(usage.cacheWriteTokens || 0, usage.inputTokens - cached)
+  const cost = (
+    (usage.inputTokens - cached - written) * price.input +
+    cached * (price.cachedInput ?? price.input) +
+    written * (price.cacheWrite ?? price.input) +
+    usage.outputTokens * price.output
+  ) / 1000000
+  return { ...usage, model, cost, currency: price.currency }
+}
+
+/**
+ * 累加多条回复的用量
+ */
+export function sumUsage(usages: Array<MessageUsage | UsageTotals | undefined>): UsageTotals {
+  const totals = emptyUsageTotals()
+  for (const usage of usages) {
+    if (!usage) continue
+    totals.inputTokens += usage.inputTokens
+    totals.outputTokens += usage.outputTokens
+    totals.cachedInputTokens += usage.cachedInputTokens || 0
+    if ('requests' in usage) {
+      totals.requests += usage.requests
+      for (const [currency, cost] of Object.entries(usage.cost) as Array<[Currency, number]>) {
+        totals.cost[currency] = (totals.cost[currency] || 0) + cost
+      }
+    } else {
+      totals.requests += 1
+      if (usage.cost !== undefined && usage.currency) {
+        totals.cost[usage.currency] = (totals.cost[usage.currency] || 0) + usage.cost
+      }
+    }
+  }
+  return totals
+}
+
+export function formatCost(cost: number, currency: Currency): string {
+  const digits = cost >= 1 ? 2 : cost >= 0.01 ? 3 : 4
+  return `${CURRENCY_SYMBOLS[currency]}${cost.toFixed(digits)}`
+}
+
+/**
+ * 格式化多币种费用，如 "$0.12 + ¥3.40"
+ */
+export function formatCosts(cost: Partial<Record<Currency, number>>): string {
+  const parts = (Object.entries(cost) as Array<[Currency, number]>)
+    .filter(([, value]) => value > 0)
+    .map(([currency, value]) => formatCost(value, currency))
+  return parts.length > 0 ? parts.join(' + ') : '—'
+}
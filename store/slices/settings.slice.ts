@@ -1,5 +1,5 @@
 import { createSlice, type PayloadAction } from "@reduxjs/toolkit"
-import type { SettingsState, CustomProvider, CustomModel } from "../types"
+import type { SettingsState, CustomProvider, CustomModel, ModelPrice, ModelParams } from "../types"
 import type { ModelConfig } from "~lib/builtin-models"
 
 const initialState: SettingsState = {
@@ -13,7 +13,14 @@ const initialState: SettingsState = {
   settingsCategory: "model-service",
   enabledProviders: {},
   modelTemperature: 0.36,
-  maxTokens: 16384
+  maxTokens: 16384,
+  agentMode: false,
+  retrievalMode: false,
+  modelPrices: {},
+  fallbackModels: [],
+  modelParams: {},
+  compareMode: false,
+  compareModels: []
 }
 
 const settingsSlice = createSlice({
@@ -63,6 +70,13 @@ const settingsSlice = createSlice({
       state.enabledProviders = {}
       state.modelTemperature = 0.36
       state.maxTokens = 16384
+      state.agentMode = false
+      state.retrievalMode = false
+      state.modelPrices = {}
+      state.fallbackModels = []
+      state.modelParams = {}
+      state.compareMode = false
+      state.compareModels = []
     },
 
     // 设置当前设置分类
@@ -180,8 +194,43 @@ const settingsSlice = createSlice({
     // 设置最大回复长度
     setMaxTokens: (state, action: PayloadAction<number>) => {
       const value = action.payload
-      // 约束范围 256 - 32768，默认 16384
-      state.maxTokens = Math.min(32768, Math.max(256, Math.floor(value)))
+      // 约束范围 256 - 131072，默认 16384
+      state.maxTokens = Math.min(131072, Math.max(256, Math.floor(value)))
+    },
+
+    // 设置 Agent 模式（模型按需调用工具读取项目文件）
+    setAgentMode: (state, action: PayloadAction<boolean>) => {
+      state.agentMode = action.payload
+    },
+
+    // 设置检索模式（只发送与问题相关的 LaTeX 片段）
+    setRetrievalMode: (state, action: PayloadAction<boolean>) => {
+      state.retrievalMode = action.payload
+    },
+
+    // 设置模型价格表（按模型名称，覆盖内置价格）
+    setModelPrices: (state, action: PayloadAction<Record<string, ModelPrice>>) => {
+      state.modelPrices = action.payload
+    },
+
+    // 设置备用模型链（按顺序，存储模型ID）
+    setFallbackModels: (state, action: PayloadAction<string[]>) => {
+      state.fallbackModels = action.payload
+    },
+
+    // 设置单模型参数（按模型ID）
+    setModelParams: (state, action: PayloadAction<Record<string, ModelParams>>) => {
+      state.modelParams = action.payload
+    },
+
+    // 设置对比模式
+    setCompareMode: (state, action: PayloadAction<boolean>) => {
+      state.compareMode = action.payload
+    },
+
+    // 设置参与对比的模型（存储模型ID）
+    setCompareModels: (state, action: PayloadAction<string[]>) => {
+      state.compareModels = action.payload
     }
   }
 })
@@ -206,7 +255,14 @@ export const {
   toggleProviderEnabled,
   setProviderEnabled,
   setModelTemperature,
-  setMaxTokens
+  setMaxTokens,
+  setAgentMode,
+  setRetrievalMode,
+  setModelPrices,
+  setFallbackModels,
+  setModelParams,
+  setCompareMode,
+  setCompareModels
 } = settingsSlice.actions
 
 export default settingsSlice.reducer
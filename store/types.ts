@@ -30,6 +30,9 @@ export interface CustomProvider {
   apiKeyLabel: string
   isCustom: boolean
   enabled?: boolean // 供应商是否启用，默认为true
+  apiFormat?: 'openai' | 'gemini' | 'claude' // 接口格式，默认为 openai 兼容
+  isLocal?: boolean // 本地模型服务，可修改 Base URL
+  requiresApiKey?: boolean // 是否必须填写 API Key，默认为 true
 }
 
 // 自定义模型配置
@@ -39,6 +42,34 @@ export interface CustomModel {
   displayName: string
   providerId: string
   isCustom: boolean
+  // 模型能力，未设置时按模型名称推断
+  multimodal?: boolean
+  contextWindow?: number
+  maxOutputTokens?: number
+  supportsTools?: boolean
+  apiFormat?: 'openai' | 'gemini' | 'claude' // 覆盖供应商的接口格式
+}
+
+// 单模型生成参数，未设置的字段沿用全局设置或接口默认值
+export interface ModelParams {
+  temperature?: number
+  maxTokens?: number
+  topP?: number
+  stop?: string[]
+  reasoningEffort?: 'minimal' | 'low' | 'medium' | 'high' // OpenAI 兼容接口的推理强度
+  thinkingBudget?: number // Claude / Gemini 的思考 token 预算，0 表示关闭
+  seed?: number
+  streamUsage?: boolean // 流式请求是否发送 stream_options 以返回用量，未设置时自动判断
+  extraBody?: string // 合并到请求体的额外字段（JSON 对象）
+}
+
+// 模型价格（每百万 token）
+export interface ModelPrice {
+  input: number
+  output: number
+  cachedInput?: number // 缓存命中的输入价格，未设置时按 input 计
+  cacheWrite?: number // 写入缓存的输入价格，未设置时按 input 计
+  currency: 'USD' | 'CNY'
 }
 
 export interface SettingsState {
@@ -55,4 +86,11 @@ export interface SettingsState {
   // 对话生成参数
   modelTemperature: number
   maxTokens: number
+  agentMode: boolean // 是否启用 Agent 模式
+  retrievalMode: boolean // 是否仅发送与问题相关的文件片段
+  modelPrices: Record<string, ModelPrice> // 按模型名称配置的价格（每百万 token）
+  fallbackModels: string[] // 主模型请求失败时依次尝试的模型ID
+  modelParams: Record<string, ModelParams> // 按模型ID配置的生成参数，覆盖全局设置
+  compareMode: boolean // 对比模式：同一问题同时发送给多个模型
+  compareModels: string[] // 参与对比的模型ID（2-3 个）
 }